@@ -0,0 +1,12 @@
+import { defineConfig } from "drizzle-kit";
+
+// Migrations are generated from shared/schema.ts with npm run db:generate and
+// applied with npm run db:migrate; only the latter connects to DATABASE_URL
+export default defineConfig({
+  out: "./migrations",
+  schema: "./shared/schema.ts",
+  dialect: "postgresql",
+  dbCredentials: {
+    url: process.env.DATABASE_URL ?? "",
+  },
+});
@@ -0,0 +1,161 @@
+CREATE TABLE "abuse_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"kind" text NOT NULL,
+	"client_key" text NOT NULL,
+	"route" text NOT NULL,
+	"country_id" integer,
+	"denomination_id" integer,
+	"serial_number" text,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "alerts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"fingerprint" text NOT NULL,
+	"kind" text NOT NULL,
+	"severity" text NOT NULL,
+	"country_id" integer NOT NULL,
+	"denomination_id" integer NOT NULL,
+	"tenant_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"summary" text NOT NULL,
+	"details" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"log_ids" jsonb NOT NULL,
+	"first_seen_at" timestamp NOT NULL,
+	"last_seen_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "alerts_fingerprint_unique" UNIQUE("fingerprint")
+);
+--> statement-breakpoint
+CREATE TABLE "api_keys" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"tenant_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"role" text NOT NULL,
+	"key_prefix" text NOT NULL,
+	"key_hash" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp,
+	"revoked_at" timestamp,
+	CONSTRAINT "api_keys_key_hash_unique" UNIQUE("key_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "banknote_series" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"denomination_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"issued_on" date,
+	"withdrawn_on" date,
+	"serial_format" text NOT NULL,
+	"serial_length" integer NOT NULL,
+	"pattern_description" text NOT NULL,
+	"serial_rules" jsonb,
+	"legal_tender_status" text DEFAULT 'legal_tender' NOT NULL,
+	"translations" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	CONSTRAINT "banknote_series_denomination_name_unique" UNIQUE("denomination_id","name")
+);
+--> statement-breakpoint
+CREATE TABLE "catalog_changes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"entity" text NOT NULL,
+	"entity_id" integer NOT NULL,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "countries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" varchar(3) NOT NULL,
+	"name" text NOT NULL,
+	"currency" varchar(3) NOT NULL,
+	"currency_symbol" varchar(5) NOT NULL,
+	"kind" text DEFAULT 'country' NOT NULL,
+	"members" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"translations" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	CONSTRAINT "countries_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+CREATE TABLE "denominations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"country_id" integer NOT NULL,
+	"value" text NOT NULL,
+	"display_name" text NOT NULL,
+	"serial_format" text NOT NULL,
+	"serial_length" integer NOT NULL,
+	"pattern_description" text NOT NULL,
+	"serial_rules" jsonb,
+	"normalization" jsonb,
+	"translations" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "flagged_serials" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"country_id" integer NOT NULL,
+	"denomination_id" integer NOT NULL,
+	"serial_number" text NOT NULL,
+	"source" text NOT NULL,
+	"reason" text NOT NULL,
+	"date_added" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "flagged_serials_denomination_serial_unique" UNIQUE("denomination_id","serial_number")
+);
+--> statement-breakpoint
+CREATE TABLE "tenants" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"repeat_sighting_threshold" integer,
+	"repeat_sighting_window_days" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "tenants_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE TABLE "verification_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"country_id" integer NOT NULL,
+	"denomination_id" integer NOT NULL,
+	"series_id" integer,
+	"tenant_id" integer,
+	"serial_number" text NOT NULL,
+	"normalized_serial" text,
+	"is_authentic" boolean NOT NULL,
+	"format_valid" boolean NOT NULL,
+	"length_valid" boolean NOT NULL,
+	"known_counterfeit" boolean DEFAULT false NOT NULL,
+	"repeated_sighting" boolean DEFAULT false NOT NULL,
+	"failed_rules" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL,
+	"offline_id" text,
+	"uploaded_at" timestamp,
+	CONSTRAINT "verification_logs_offline_id_unique" UNIQUE("offline_id")
+);
+--> statement-breakpoint
+CREATE TABLE "webhook_deliveries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"webhook_id" integer NOT NULL,
+	"event" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp,
+	"last_status_code" integer,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"delivered_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "webhooks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"tenant_id" integer,
+	"url" text NOT NULL,
+	"secret" text NOT NULL,
+	"country_id" integer,
+	"denomination_id" integer,
+	"suspicious_only" boolean DEFAULT true NOT NULL,
+	"burst_threshold" integer,
+	"burst_window_seconds" integer,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "verification_logs_denomination_serial_idx" ON "verification_logs" USING btree ("denomination_id","normalized_serial");
\ No newline at end of file
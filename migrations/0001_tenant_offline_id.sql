@@ -0,0 +1,2 @@
+ALTER TABLE "verification_logs" DROP CONSTRAINT "verification_logs_offline_id_unique";--> statement-breakpoint
+ALTER TABLE "verification_logs" ADD CONSTRAINT "verification_logs_tenant_offline_id_unique" UNIQUE NULLS NOT DISTINCT("tenant_id","offline_id");
\ No newline at end of file
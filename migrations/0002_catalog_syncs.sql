@@ -0,0 +1,5 @@
+CREATE TABLE "catalog_syncs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"version" integer NOT NULL,
+	"synced_at" timestamp DEFAULT now() NOT NULL
+);
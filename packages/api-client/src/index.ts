@@ -0,0 +1,56 @@
+import createClient, { type ClientOptions } from "openapi-fetch";
+import type { components, paths } from "./schema";
+
+// Typed client for the Banknote Checker API. Paths, parameters and response
+// bodies come from the generated schema.ts, so a route that changes shape on
+// the server fails to type-check here after `npm run openapi:generate`.
+
+export type { components, paths };
+export type Schemas = components["schemas"];
+export type Locale = NonNullable<NonNullable<paths["/api/countries"]["get"]["parameters"]["query"]>["lang"]>;
+
+export interface ApiClientOptions extends Omit<ClientOptions, "headers"> {
+  // e.g. "https://banknotes.example.com"; the paths already start with /api
+  baseUrl: string;
+  // Sent as X-API-Key. Verification works without one unless the server sets REQUIRE_API_KEY.
+  apiKey?: string;
+  // Language of catalog names, warnings and error messages; English by default
+  lang?: Locale;
+  headers?: Record<string, string>;
+}
+
+export type ImageFields = Omit<
+  paths["/api/verify/image"]["post"]["requestBody"]["content"]["multipart/form-data"],
+  "image"
+>;
+
+export function createApiClient({ apiKey, lang, headers, ...options }: ApiClientOptions) {
+  const client = createClient<paths>({
+    ...options,
+    headers: {
+      ...(apiKey ? { "X-API-Key": apiKey } : {}),
+      ...(lang ? { "Accept-Language": lang } : {}),
+      ...headers,
+    },
+  });
+
+  // POST /api/verify/image with the photo and its optional fields as multipart/form-data
+  function verifyImage(image: Blob, fields: ImageFields = {}) {
+    return client.POST("/api/verify/image", {
+      body: { ...fields, image },
+      bodySerializer: body => {
+        const form = new FormData();
+        Object.entries(body).forEach(([name, value]) => {
+          if (value !== undefined) {
+            form.append(name, value);
+          }
+        });
+        return form;
+      },
+    });
+  }
+
+  return Object.assign(client, { verifyImage });
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,4943 @@
+// Generated by `npm run openapi:generate` from server/openapi.ts; do not edit.
+
+export interface paths {
+    "/api/countries": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List the active countries */
+        get: {
+            parameters: {
+                query?: {
+                    lang?: "en" | "es" | "fr" | "ja" | "pt" | "si" | "ta" | "zh";
+                };
+                header?: {
+                    "accept-language"?: string;
+                };
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Countries */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["CountryResponse"][];
+                    };
+                };
+                /** @description The catalog has not changed since the If-None-Match ETag */
+                304: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/countries/{countryCode}/denominations": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List the denominations of a country */
+        get: {
+            parameters: {
+                query?: {
+                    lang?: "en" | "es" | "fr" | "ja" | "pt" | "si" | "ta" | "zh";
+                    includeInactive?: "true" | "false";
+                };
+                header?: {
+                    "accept-language"?: string;
+                };
+                path: {
+                    countryCode: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Denominations */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["DenominationResponse"][];
+                    };
+                };
+                /** @description The catalog has not changed since the If-None-Match ETag */
+                304: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/countries/{countryCode}/denominations/{value}/series": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List the series of a denomination */
+        get: {
+            parameters: {
+                query?: {
+                    lang?: "en" | "es" | "fr" | "ja" | "pt" | "si" | "ta" | "zh";
+                    includeInactive?: "true" | "false";
+                };
+                header?: {
+                    "accept-language"?: string;
+                };
+                path: {
+                    countryCode: string;
+                    value: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Series */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SeriesResponse"][];
+                    };
+                };
+                /** @description The catalog has not changed since the If-None-Match ETag */
+                304: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/catalog/bundle": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Download the whole catalog for offline use
+         * @description Signed and, with Accept-Encoding: gzip, compressed
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Active countries, denominations and series */
+                200: {
+                    headers: {
+                        "X-Catalog-Version": string;
+                        "X-Catalog-Signature": string;
+                        "X-Catalog-Key-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["CatalogBundle"];
+                    };
+                };
+                /** @description The bundle has not changed since the If-None-Match ETag */
+                304: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/catalog/changes": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * List the catalog entries changed since a catalog version
+         * @description Signed and compressed like the bundle
+         */
+        get: {
+            parameters: {
+                query?: {
+                    since?: number | null;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Changed entries, retired ones with isActive false */
+                200: {
+                    headers: {
+                        "X-Catalog-Version": string;
+                        "X-Catalog-Signature": string;
+                        "X-Catalog-Key-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["CatalogChanges"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Conflicts with an existing entry, or an unknown catalog version */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/catalog/signing-key": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get the public key the catalog documents are signed with */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Ed25519 public key as SPKI PEM */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["CatalogSigningKey"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/verify": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Verify a banknote's serial number */
+        post: {
+            parameters: {
+                query?: {
+                    lang?: "en" | "es" | "fr" | "ja" | "pt" | "si" | "ta" | "zh";
+                };
+                header?: {
+                    "accept-language"?: string;
+                };
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        countryCode: string;
+                        denomination: string;
+                        serialNumber: string;
+                        series?: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Verification result */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["VerificationResult"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limit exceeded; see the Retry-After header */
+                429: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/verify/image": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Verify the serial number read from a photo of a banknote */
+        post: {
+            parameters: {
+                query?: {
+                    lang?: "en" | "es" | "fr" | "ja" | "pt" | "si" | "ta" | "zh";
+                };
+                header?: {
+                    "accept-language"?: string;
+                };
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "multipart/form-data": {
+                        /**
+                         * Format: binary
+                         * @description PNG, JPEG, WebP or BMP photo
+                         */
+                        image: Blob;
+                        countryCode?: string;
+                        denomination?: string;
+                        series?: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Verification result with what was read from the photo */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ImageVerificationResult"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Image larger than VERIFY_IMAGE_MAX_BYTES */
+                413: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Unsupported image type */
+                415: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description No serial number could be read from the photo */
+                422: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ImageExtractionError"];
+                    };
+                };
+                /** @description Rate limit exceeded; see the Retry-After header */
+                429: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/verify/batch": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Verify many banknotes at once */
+        post: {
+            parameters: {
+                query?: {
+                    lang?: "en" | "es" | "fr" | "ja" | "pt" | "si" | "ta" | "zh";
+                };
+                header?: {
+                    "accept-language"?: string;
+                };
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        items: {
+                            countryCode: string;
+                            denomination: string;
+                            serialNumber: string;
+                            series?: string;
+                        }[];
+                    } | {
+                        countryCode: string;
+                        denomination: string;
+                        series?: string;
+                        serialNumbers: string[];
+                    };
+                };
+            };
+            responses: {
+                /** @description A result or error per note, and a summary of the batch */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["BatchVerificationResponse"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limit exceeded; see the Retry-After header */
+                429: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/verify/offline": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Upload verifications made offline
+         * @description Items whose offlineId was uploaded before are reported as duplicates and not logged again
+         */
+        post: {
+            parameters: {
+                query?: {
+                    lang?: "en" | "es" | "fr" | "ja" | "pt" | "si" | "ta" | "zh";
+                };
+                header?: {
+                    "accept-language"?: string;
+                };
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        items: {
+                            countryCode: string;
+                            denomination: string;
+                            serialNumber: string;
+                            series?: string;
+                            /** Format: uuid */
+                            offlineId: string;
+                            /** Format: date-time */
+                            verifiedAt: string;
+                        }[];
+                    };
+                };
+            };
+            responses: {
+                /** @description The outcome of each item, and a summary */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["OfflineUploadResponse"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limit exceeded; see the Retry-After header */
+                429: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/stats": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Verification statistics */
+        get: {
+            parameters: {
+                query?: {
+                    tenantId?: number;
+                    countryCode?: string;
+                    denomination?: string;
+                    from?: string | null;
+                    to?: string | null;
+                    interval?: "day" | "week";
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Statistics */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["VerificationStats"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/verifications": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Page through the verification history */
+        get: {
+            parameters: {
+                query?: {
+                    tenantId?: number;
+                    countryCode?: string;
+                    denomination?: string;
+                    result?: "authentic" | "suspicious";
+                    serialPrefix?: string;
+                    from?: string | null;
+                    to?: string | null;
+                    sort?: "newest" | "oldest";
+                    cursor?: string;
+                    limit?: number;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description A page of verifications */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["VerificationHistoryPage"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/verifications/export": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Download the verification history as CSV or NDJSON */
+        get: {
+            parameters: {
+                query?: {
+                    tenantId?: number;
+                    countryCode?: string;
+                    denomination?: string;
+                    result?: "authentic" | "suspicious";
+                    serialPrefix?: string;
+                    from?: string | null;
+                    to?: string | null;
+                    sort?: "newest" | "oldest";
+                    cursor?: string;
+                    format?: "csv" | "ndjson";
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The matching verifications, streamed */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "text/csv": string;
+                        "application/x-ndjson": string;
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/alerts": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List anomaly alerts */
+        get: {
+            parameters: {
+                query?: {
+                    tenantId?: number;
+                    kind?: "repeated_serial" | "suspicious_spike" | "sequential_serials";
+                    severity?: "low" | "medium" | "high";
+                    countryCode?: string;
+                    denomination?: string;
+                    from?: string | null;
+                    to?: string | null;
+                    limit?: number;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Alerts, most recently seen first */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Alert"][];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/webhooks": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List webhooks */
+        get: {
+            parameters: {
+                query?: {
+                    tenantId?: number;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Webhooks */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Webhook"][];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        /** Register a webhook */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        /** Format: uri */
+                        url: string;
+                        tenantId?: number;
+                        countryCode?: string;
+                        denomination?: string;
+                        /** @default true */
+                        suspiciousOnly?: boolean;
+                        burst?: {
+                            threshold: number;
+                            windowSeconds: number;
+                        };
+                    };
+                };
+            };
+            responses: {
+                /** @description The webhook with its signing secret, which is not shown again */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["CreatedWebhook"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/webhooks/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Soft-delete a webhook */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Deleted */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        /** Update a webhook */
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        /** Format: uri */
+                        url?: string;
+                        suspiciousOnly?: boolean;
+                        burst?: {
+                            threshold: number;
+                            windowSeconds: number;
+                        } | null;
+                        isActive?: boolean;
+                    };
+                };
+            };
+            responses: {
+                /** @description The updated webhook */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Webhook"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        trace?: never;
+    };
+    "/api/webhooks/{id}/deliveries": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List a webhook's deliveries */
+        get: {
+            parameters: {
+                query?: {
+                    status?: "pending" | "delivered" | "failed";
+                    limit?: number;
+                };
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Deliveries, newest first */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["WebhookDelivery"][];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/webhooks/{id}/ping": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Send a test event to a webhook */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The queued delivery */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["WebhookDelivery"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/countries": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Add a country */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        code: string;
+                        name: string;
+                        currency: string;
+                        currencySymbol: string;
+                        /** @enum {string} */
+                        kind?: "country" | "currency_union";
+                        members?: string[];
+                        translations?: {
+                            en?: {
+                                name?: string;
+                            };
+                            es?: {
+                                name?: string;
+                            };
+                            fr?: {
+                                name?: string;
+                            };
+                            ja?: {
+                                name?: string;
+                            };
+                            pt?: {
+                                name?: string;
+                            };
+                            si?: {
+                                name?: string;
+                            };
+                            ta?: {
+                                name?: string;
+                            };
+                            zh?: {
+                                name?: string;
+                            };
+                        };
+                        isActive?: boolean;
+                    };
+                };
+            };
+            responses: {
+                /** @description The new country */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Country"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Conflicts with an existing entry, or an unknown catalog version */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/countries/{countryCode}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Soft-delete a country */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    countryCode: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Deleted */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        /** Update a country */
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    countryCode: string;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        code?: string;
+                        name?: string;
+                        currency?: string;
+                        currencySymbol?: string;
+                        /** @enum {string} */
+                        kind?: "country" | "currency_union";
+                        members?: string[];
+                        translations?: {
+                            en?: {
+                                name?: string;
+                            };
+                            es?: {
+                                name?: string;
+                            };
+                            fr?: {
+                                name?: string;
+                            };
+                            ja?: {
+                                name?: string;
+                            };
+                            pt?: {
+                                name?: string;
+                            };
+                            si?: {
+                                name?: string;
+                            };
+                            ta?: {
+                                name?: string;
+                            };
+                            zh?: {
+                                name?: string;
+                            };
+                        };
+                        isActive?: boolean;
+                    };
+                };
+            };
+            responses: {
+                /** @description The updated country */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Country"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Conflicts with an existing entry, or an unknown catalog version */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        trace?: never;
+    };
+    "/api/admin/countries/{countryCode}/denominations": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Add a denomination to a country */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    countryCode: string;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        value: string;
+                        displayName: string;
+                        serialFormat: string;
+                        serialLength: number;
+                        patternDescription: string;
+                        serialRules?: {
+                            prefixes?: string[];
+                            /** @enum {string} */
+                            checksum?: "euro";
+                            ranges?: {
+                                prefix?: string;
+                                min: number;
+                                max: number;
+                            }[];
+                        } | null;
+                        normalization?: {
+                            /**
+                             * @default upper
+                             * @enum {string}
+                             */
+                            caseFolding?: "upper" | "lower" | "none";
+                            /**
+                             * @default strip
+                             * @enum {string}
+                             */
+                            whitespace?: "strip" | "collapse" | "none";
+                            groups?: number[];
+                            substitutions?: {
+                                [key: string]: string;
+                            };
+                        } | null;
+                        translations?: {
+                            en?: {
+                                displayName?: string;
+                                patternDescription?: string;
+                            };
+                            es?: {
+                                displayName?: string;
+                                patternDescription?: string;
+                            };
+                            fr?: {
+                                displayName?: string;
+                                patternDescription?: string;
+                            };
+                            ja?: {
+                                displayName?: string;
+                                patternDescription?: string;
+                            };
+                            pt?: {
+                                displayName?: string;
+                                patternDescription?: string;
+                            };
+                            si?: {
+                                displayName?: string;
+                                patternDescription?: string;
+                            };
+                            ta?: {
+                                displayName?: string;
+                                patternDescription?: string;
+                            };
+                            zh?: {
+                                displayName?: string;
+                                patternDescription?: string;
+                            };
+                        };
+                        isActive?: boolean;
+                    };
+                };
+            };
+            responses: {
+                /** @description The new denomination */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Denomination"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Conflicts with an existing entry, or an unknown catalog version */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/denominations/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Retire a denomination */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Deleted */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        /** Update a denomination */
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        value?: string;
+                        displayName?: string;
+                        serialFormat?: string;
+                        serialLength?: number;
+                        patternDescription?: string;
+                        serialRules?: {
+                            prefixes?: string[];
+                            /** @enum {string} */
+                            checksum?: "euro";
+                            ranges?: {
+                                prefix?: string;
+                                min: number;
+                                max: number;
+                            }[];
+                        } | null;
+                        normalization?: {
+                            /**
+                             * @default upper
+                             * @enum {string}
+                             */
+                            caseFolding?: "upper" | "lower" | "none";
+                            /**
+                             * @default strip
+                             * @enum {string}
+                             */
+                            whitespace?: "strip" | "collapse" | "none";
+                            groups?: number[];
+                            substitutions?: {
+                                [key: string]: string;
+                            };
+                        } | null;
+                        translations?: {
+                            en?: {
+                                displayName?: string;
+                                patternDescription?: string;
+                            };
+                            es?: {
+                                displayName?: string;
+                                patternDescription?: string;
+                            };
+                            fr?: {
+                                displayName?: string;
+                                patternDescription?: string;
+                            };
+                            ja?: {
+                                displayName?: string;
+                                patternDescription?: string;
+                            };
+                            pt?: {
+                                displayName?: string;
+                                patternDescription?: string;
+                            };
+                            si?: {
+                                displayName?: string;
+                                patternDescription?: string;
+                            };
+                            ta?: {
+                                displayName?: string;
+                                patternDescription?: string;
+                            };
+                            zh?: {
+                                displayName?: string;
+                                patternDescription?: string;
+                            };
+                        };
+                        isActive?: boolean;
+                    };
+                };
+            };
+            responses: {
+                /** @description The updated denomination */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Denomination"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Conflicts with an existing entry, or an unknown catalog version */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        trace?: never;
+    };
+    "/api/admin/denominations/{id}/series": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Add a series to a denomination */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        name: string;
+                        issuedOn?: string | null;
+                        withdrawnOn?: string | null;
+                        serialFormat: string;
+                        serialLength: number;
+                        patternDescription: string;
+                        serialRules?: {
+                            prefixes?: string[];
+                            /** @enum {string} */
+                            checksum?: "euro";
+                            ranges?: {
+                                prefix?: string;
+                                min: number;
+                                max: number;
+                            }[];
+                        } | null;
+                        /** @enum {string} */
+                        legalTenderStatus?: "legal_tender" | "withdrawn" | "demonetized";
+                        translations?: {
+                            en?: {
+                                patternDescription?: string;
+                            };
+                            es?: {
+                                patternDescription?: string;
+                            };
+                            fr?: {
+                                patternDescription?: string;
+                            };
+                            ja?: {
+                                patternDescription?: string;
+                            };
+                            pt?: {
+                                patternDescription?: string;
+                            };
+                            si?: {
+                                patternDescription?: string;
+                            };
+                            ta?: {
+                                patternDescription?: string;
+                            };
+                            zh?: {
+                                patternDescription?: string;
+                            };
+                        };
+                        isActive?: boolean;
+                    };
+                };
+            };
+            responses: {
+                /** @description The new series */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Series"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Conflicts with an existing entry, or an unknown catalog version */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/series/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Remove a series */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Deleted */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        /** Update a series */
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        name?: string;
+                        issuedOn?: string | null;
+                        withdrawnOn?: string | null;
+                        serialFormat?: string;
+                        serialLength?: number;
+                        patternDescription?: string;
+                        serialRules?: {
+                            prefixes?: string[];
+                            /** @enum {string} */
+                            checksum?: "euro";
+                            ranges?: {
+                                prefix?: string;
+                                min: number;
+                                max: number;
+                            }[];
+                        } | null;
+                        /** @enum {string} */
+                        legalTenderStatus?: "legal_tender" | "withdrawn" | "demonetized";
+                        translations?: {
+                            en?: {
+                                patternDescription?: string;
+                            };
+                            es?: {
+                                patternDescription?: string;
+                            };
+                            fr?: {
+                                patternDescription?: string;
+                            };
+                            ja?: {
+                                patternDescription?: string;
+                            };
+                            pt?: {
+                                patternDescription?: string;
+                            };
+                            si?: {
+                                patternDescription?: string;
+                            };
+                            ta?: {
+                                patternDescription?: string;
+                            };
+                            zh?: {
+                                patternDescription?: string;
+                            };
+                        };
+                        isActive?: boolean;
+                    };
+                };
+            };
+            responses: {
+                /** @description The updated series */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Series"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Conflicts with an existing entry, or an unknown catalog version */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        trace?: never;
+    };
+    "/api/admin/flagged-serials": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List the counterfeit registry */
+        get: {
+            parameters: {
+                query?: {
+                    countryCode?: string;
+                    denomination?: string;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Registry entries */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["FlaggedSerial"][];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        /** Add a serial number to the counterfeit registry */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        countryCode: string;
+                        denomination: string;
+                        serialNumber: string;
+                        source: string;
+                        reason: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description The new entry */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["FlaggedSerial"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Conflicts with an existing entry, or an unknown catalog version */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/flagged-serials/import": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Import serial numbers into the counterfeit registry */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        entries: {
+                            countryCode: string;
+                            denomination: string;
+                            serialNumber: string;
+                            source: string;
+                            reason: string;
+                        }[];
+                    };
+                };
+            };
+            responses: {
+                /** @description What was imported, skipped and rejected */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ImportFlaggedSerialsResult"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/flagged-serials/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Remove a serial number from the counterfeit registry */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Deleted */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/tenants": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List tenants */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Tenants */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Tenant"][];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        /** Add a tenant */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        name: string;
+                        isActive?: boolean;
+                        repeatSightingThreshold?: number | null;
+                        repeatSightingWindowDays?: number | null;
+                    };
+                };
+            };
+            responses: {
+                /** @description The new tenant */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Tenant"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Conflicts with an existing entry, or an unknown catalog version */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/tenants/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        /** Update a tenant */
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        name?: string;
+                        isActive?: boolean;
+                        repeatSightingThreshold?: number | null;
+                        repeatSightingWindowDays?: number | null;
+                    };
+                };
+            };
+            responses: {
+                /** @description The updated tenant */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Tenant"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Conflicts with an existing entry, or an unknown catalog version */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        trace?: never;
+    };
+    "/api/admin/tenants/{id}/api-keys": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List a tenant's API keys */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description API keys, without the keys themselves */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ApiKey"][];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        /** Issue an API key */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        name: string;
+                        /** @enum {string} */
+                        role: "verifier" | "auditor" | "admin";
+                    };
+                };
+            };
+            responses: {
+                /** @description The key, which is not shown again */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["IssuedApiKey"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/api-keys/{id}/rotate": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Replace an API key, keeping the old one valid for a grace period */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/json": {
+                        /** @default 0 */
+                        graceSeconds?: number;
+                    };
+                };
+            };
+            responses: {
+                /** @description The replacement key, which is not shown again */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["IssuedApiKey"];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/api-keys/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Revoke an API key */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Deleted */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/abuse-events": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List throttled and suspicious requests */
+        get: {
+            parameters: {
+                query?: {
+                    kind?: "rate_limited" | "enumeration" | "invalid_api_key";
+                    from?: string | null;
+                    to?: string | null;
+                    limit?: number;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Abuse events, newest first */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AbuseEvent"][];
+                    };
+                };
+                /** @description Invalid request data */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/alerts/analyze": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Run the anomaly analysis now */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description How many alerts the run produced */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AnalyzeAlertsResult"];
+                    };
+                };
+                /** @description Missing, unknown, expired or revoked API key */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The API key's role or tenant does not allow this */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Server error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/healthz": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Check that the server is up */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The process is serving requests */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Health"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/readyz": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Check that the server can take traffic
+         * @description Checks the storage connection and that the catalog has been loaded
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Ready */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Readiness"];
+                    };
+                };
+                /** @description Storage unreachable, catalog empty, or shutting down */
+                503: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Readiness"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+}
+export type webhooks = Record<string, never>;
+export interface components {
+    schemas: {
+        Error: {
+            code: string;
+            message: string;
+            requestId?: string;
+            errors?: ({
+                code: string;
+                path: (string | number)[];
+                message: string;
+            } | string)[];
+        };
+        Country: {
+            id: number;
+            code: string;
+            name: string;
+            currency: string;
+            currencySymbol: string;
+            /** @enum {string} */
+            kind: "country" | "currency_union";
+            members: string[];
+            translations: {
+                en?: {
+                    name?: string;
+                };
+                es?: {
+                    name?: string;
+                };
+                fr?: {
+                    name?: string;
+                };
+                ja?: {
+                    name?: string;
+                };
+                pt?: {
+                    name?: string;
+                };
+                si?: {
+                    name?: string;
+                };
+                ta?: {
+                    name?: string;
+                };
+                zh?: {
+                    name?: string;
+                };
+            };
+            isActive: boolean;
+        };
+        Denomination: {
+            id: number;
+            countryId: number;
+            value: string;
+            displayName: string;
+            serialFormat: string;
+            serialLength: number;
+            patternDescription: string;
+            serialRules: {
+                prefixes?: string[];
+                /** @enum {string} */
+                checksum?: "euro";
+                ranges?: {
+                    prefix?: string;
+                    min: number;
+                    max: number;
+                }[];
+            } | null;
+            normalization: {
+                /**
+                 * @default upper
+                 * @enum {string}
+                 */
+                caseFolding: "upper" | "lower" | "none";
+                /**
+                 * @default strip
+                 * @enum {string}
+                 */
+                whitespace: "strip" | "collapse" | "none";
+                groups?: number[];
+                substitutions?: {
+                    [key: string]: string;
+                };
+            } | null;
+            translations: {
+                en?: {
+                    displayName?: string;
+                    patternDescription?: string;
+                };
+                es?: {
+                    displayName?: string;
+                    patternDescription?: string;
+                };
+                fr?: {
+                    displayName?: string;
+                    patternDescription?: string;
+                };
+                ja?: {
+                    displayName?: string;
+                    patternDescription?: string;
+                };
+                pt?: {
+                    displayName?: string;
+                    patternDescription?: string;
+                };
+                si?: {
+                    displayName?: string;
+                    patternDescription?: string;
+                };
+                ta?: {
+                    displayName?: string;
+                    patternDescription?: string;
+                };
+                zh?: {
+                    displayName?: string;
+                    patternDescription?: string;
+                };
+            };
+            isActive: boolean;
+        };
+        Series: {
+            id: number;
+            denominationId: number;
+            name: string;
+            issuedOn: string | null;
+            withdrawnOn: string | null;
+            serialFormat: string;
+            serialLength: number;
+            patternDescription: string;
+            serialRules: {
+                prefixes?: string[];
+                /** @enum {string} */
+                checksum?: "euro";
+                ranges?: {
+                    prefix?: string;
+                    min: number;
+                    max: number;
+                }[];
+            } | null;
+            /** @enum {string} */
+            legalTenderStatus: "legal_tender" | "withdrawn" | "demonetized";
+            translations: {
+                en?: {
+                    patternDescription?: string;
+                };
+                es?: {
+                    patternDescription?: string;
+                };
+                fr?: {
+                    patternDescription?: string;
+                };
+                ja?: {
+                    patternDescription?: string;
+                };
+                pt?: {
+                    patternDescription?: string;
+                };
+                si?: {
+                    patternDescription?: string;
+                };
+                ta?: {
+                    patternDescription?: string;
+                };
+                zh?: {
+                    patternDescription?: string;
+                };
+            };
+            isActive: boolean;
+        };
+        CountryResponse: {
+            id: number;
+            code: string;
+            name: string;
+            currency: string;
+            currencySymbol: string;
+            /** @enum {string} */
+            kind: "country" | "currency_union";
+            members: string[];
+            isActive: boolean;
+        };
+        DenominationResponse: {
+            id: number;
+            countryId: number;
+            value: string;
+            displayName: string;
+            serialFormat: string;
+            serialLength: number;
+            patternDescription: string;
+            serialRules: {
+                prefixes?: string[];
+                /** @enum {string} */
+                checksum?: "euro";
+                ranges?: {
+                    prefix?: string;
+                    min: number;
+                    max: number;
+                }[];
+            } | null;
+            normalization: {
+                /**
+                 * @default upper
+                 * @enum {string}
+                 */
+                caseFolding: "upper" | "lower" | "none";
+                /**
+                 * @default strip
+                 * @enum {string}
+                 */
+                whitespace: "strip" | "collapse" | "none";
+                groups?: number[];
+                substitutions?: {
+                    [key: string]: string;
+                };
+            } | null;
+            isActive: boolean;
+        };
+        SeriesResponse: {
+            id: number;
+            denominationId: number;
+            name: string;
+            issuedOn: string | null;
+            withdrawnOn: string | null;
+            serialFormat: string;
+            serialLength: number;
+            patternDescription: string;
+            serialRules: {
+                prefixes?: string[];
+                /** @enum {string} */
+                checksum?: "euro";
+                ranges?: {
+                    prefix?: string;
+                    min: number;
+                    max: number;
+                }[];
+            } | null;
+            /** @enum {string} */
+            legalTenderStatus: "legal_tender" | "withdrawn" | "demonetized";
+            isActive: boolean;
+        };
+        VerificationResult: {
+            country: string;
+            currency: string;
+            denomination: string;
+            serialNumber: string;
+            normalizedSerial: string;
+            series: {
+                name: string;
+                /** @enum {string} */
+                match: "requested" | "detected" | "closest";
+                issuedOn: string | null;
+                withdrawnOn: string | null;
+                /** @enum {string} */
+                legalTenderStatus: "legal_tender" | "withdrawn" | "demonetized";
+            } | null;
+            legalTender: boolean;
+            warnings: string[];
+            formatValid: boolean;
+            lengthValid: boolean;
+            rules: {
+                /** @enum {string} */
+                rule: "pattern" | "length" | "prefix" | "checksum" | "range";
+                passed: boolean;
+                description: string;
+            }[];
+            knownCounterfeit: boolean;
+            counterfeitReport: {
+                source: string;
+                reason: string;
+                /** Format: date-time */
+                dateAdded: string;
+            } | null;
+            repeatedSighting: boolean;
+            sightings: {
+                count: number;
+                tenants: number;
+                /** Format: date-time */
+                firstSeenAt: string | null;
+                /** Format: date-time */
+                lastSeenAt: string | null;
+            } | null;
+            isAuthentic: boolean;
+            suggestions: string[];
+            patternDescription: string;
+            /** Format: date-time */
+            timestamp: string;
+        };
+        ImageVerificationResult: {
+            country: string;
+            currency: string;
+            denomination: string;
+            serialNumber: string;
+            normalizedSerial: string;
+            series: {
+                name: string;
+                /** @enum {string} */
+                match: "requested" | "detected" | "closest";
+                issuedOn: string | null;
+                withdrawnOn: string | null;
+                /** @enum {string} */
+                legalTenderStatus: "legal_tender" | "withdrawn" | "demonetized";
+            } | null;
+            legalTender: boolean;
+            warnings: string[];
+            formatValid: boolean;
+            lengthValid: boolean;
+            rules: {
+                /** @enum {string} */
+                rule: "pattern" | "length" | "prefix" | "checksum" | "range";
+                passed: boolean;
+                description: string;
+            }[];
+            knownCounterfeit: boolean;
+            counterfeitReport: {
+                source: string;
+                reason: string;
+                /** Format: date-time */
+                dateAdded: string;
+            } | null;
+            repeatedSighting: boolean;
+            sightings: {
+                count: number;
+                tenants: number;
+                /** Format: date-time */
+                firstSeenAt: string | null;
+                /** Format: date-time */
+                lastSeenAt: string | null;
+            } | null;
+            isAuthentic: boolean;
+            suggestions: string[];
+            patternDescription: string;
+            /** Format: date-time */
+            timestamp: string;
+            extraction: {
+                text: string;
+                confidence: number;
+                candidates: {
+                    text: string;
+                    confidence: number;
+                }[];
+                readAs: string;
+                corrected: boolean;
+                serialConfidence: number;
+                alternatives: {
+                    countryCode: string;
+                    denomination: string;
+                    serialNumber: string;
+                    score: number;
+                }[];
+            };
+        };
+        ImageExtractionError: {
+            code: string;
+            message: string;
+            requestId?: string;
+            errors?: ({
+                code: string;
+                path: (string | number)[];
+                message: string;
+            } | string)[];
+            extraction?: {
+                text: string;
+                confidence: number;
+                candidates: {
+                    text: string;
+                    confidence: number;
+                }[];
+            };
+        };
+        BatchVerificationResponse: {
+            results: ({
+                country: string;
+                currency: string;
+                denomination: string;
+                serialNumber: string;
+                normalizedSerial: string;
+                series: {
+                    name: string;
+                    /** @enum {string} */
+                    match: "requested" | "detected" | "closest";
+                    issuedOn: string | null;
+                    withdrawnOn: string | null;
+                    /** @enum {string} */
+                    legalTenderStatus: "legal_tender" | "withdrawn" | "demonetized";
+                } | null;
+                legalTender: boolean;
+                warnings: string[];
+                formatValid: boolean;
+                lengthValid: boolean;
+                rules: {
+                    /** @enum {string} */
+                    rule: "pattern" | "length" | "prefix" | "checksum" | "range";
+                    passed: boolean;
+                    description: string;
+                }[];
+                knownCounterfeit: boolean;
+                counterfeitReport: {
+                    source: string;
+                    reason: string;
+                    /** Format: date-time */
+                    dateAdded: string;
+                } | null;
+                repeatedSighting: boolean;
+                sightings: {
+                    count: number;
+                    tenants: number;
+                    /** Format: date-time */
+                    firstSeenAt: string | null;
+                    /** Format: date-time */
+                    lastSeenAt: string | null;
+                } | null;
+                isAuthentic: boolean;
+                suggestions: string[];
+                patternDescription: string;
+                /** Format: date-time */
+                timestamp: string;
+                index: number;
+                duplicateInBatch: boolean;
+                inSequentialRun: boolean;
+            } | {
+                index: number;
+                countryCode: string;
+                denomination: string;
+                serialNumber: string;
+                series?: string;
+                error: string;
+            })[];
+            summary: {
+                total: number;
+                verified: number;
+                authentic: number;
+                suspicious: number;
+                knownCounterfeit: number;
+                notLegalTender: number;
+                unresolved: number;
+                duplicateSerials: number;
+                sequentialRuns: {
+                    countryCode: string;
+                    denomination: string;
+                    start: string;
+                    end: string;
+                    length: number;
+                }[];
+            };
+        };
+        OfflineUploadResponse: {
+            results: ({
+                country: string;
+                currency: string;
+                denomination: string;
+                serialNumber: string;
+                normalizedSerial: string;
+                series: {
+                    name: string;
+                    /** @enum {string} */
+                    match: "requested" | "detected" | "closest";
+                    issuedOn: string | null;
+                    withdrawnOn: string | null;
+                    /** @enum {string} */
+                    legalTenderStatus: "legal_tender" | "withdrawn" | "demonetized";
+                } | null;
+                legalTender: boolean;
+                warnings: string[];
+                formatValid: boolean;
+                lengthValid: boolean;
+                rules: {
+                    /** @enum {string} */
+                    rule: "pattern" | "length" | "prefix" | "checksum" | "range";
+                    passed: boolean;
+                    description: string;
+                }[];
+                knownCounterfeit: boolean;
+                counterfeitReport: {
+                    source: string;
+                    reason: string;
+                    /** Format: date-time */
+                    dateAdded: string;
+                } | null;
+                repeatedSighting: boolean;
+                sightings: {
+                    count: number;
+                    tenants: number;
+                    /** Format: date-time */
+                    firstSeenAt: string | null;
+                    /** Format: date-time */
+                    lastSeenAt: string | null;
+                } | null;
+                isAuthentic: boolean;
+                suggestions: string[];
+                patternDescription: string;
+                /** Format: date-time */
+                timestamp: string;
+                index: number;
+                offlineId: string;
+                /** @enum {string} */
+                status: "recorded";
+                logId: number;
+            } | {
+                index: number;
+                offlineId: string;
+                /** @enum {string} */
+                status: "duplicate" | "rejected";
+                error?: string;
+            })[];
+            summary: {
+                total: number;
+                recorded: number;
+                duplicates: number;
+                rejected: number;
+            };
+        };
+        CatalogBundle: {
+            version: number;
+            countries: {
+                id: number;
+                code: string;
+                name: string;
+                currency: string;
+                currencySymbol: string;
+                /** @enum {string} */
+                kind: "country" | "currency_union";
+                members: string[];
+                translations: {
+                    en?: {
+                        name?: string;
+                    };
+                    es?: {
+                        name?: string;
+                    };
+                    fr?: {
+                        name?: string;
+                    };
+                    ja?: {
+                        name?: string;
+                    };
+                    pt?: {
+                        name?: string;
+                    };
+                    si?: {
+                        name?: string;
+                    };
+                    ta?: {
+                        name?: string;
+                    };
+                    zh?: {
+                        name?: string;
+                    };
+                };
+                isActive: boolean;
+            }[];
+            denominations: {
+                id: number;
+                countryId: number;
+                value: string;
+                displayName: string;
+                serialFormat: string;
+                serialLength: number;
+                patternDescription: string;
+                serialRules: {
+                    prefixes?: string[];
+                    /** @enum {string} */
+                    checksum?: "euro";
+                    ranges?: {
+                        prefix?: string;
+                        min: number;
+                        max: number;
+                    }[];
+                } | null;
+                normalization: {
+                    /**
+                     * @default upper
+                     * @enum {string}
+                     */
+                    caseFolding: "upper" | "lower" | "none";
+                    /**
+                     * @default strip
+                     * @enum {string}
+                     */
+                    whitespace: "strip" | "collapse" | "none";
+                    groups?: number[];
+                    substitutions?: {
+                        [key: string]: string;
+                    };
+                } | null;
+                translations: {
+                    en?: {
+                        displayName?: string;
+                        patternDescription?: string;
+                    };
+                    es?: {
+                        displayName?: string;
+                        patternDescription?: string;
+                    };
+                    fr?: {
+                        displayName?: string;
+                        patternDescription?: string;
+                    };
+                    ja?: {
+                        displayName?: string;
+                        patternDescription?: string;
+                    };
+                    pt?: {
+                        displayName?: string;
+                        patternDescription?: string;
+                    };
+                    si?: {
+                        displayName?: string;
+                        patternDescription?: string;
+                    };
+                    ta?: {
+                        displayName?: string;
+                        patternDescription?: string;
+                    };
+                    zh?: {
+                        displayName?: string;
+                        patternDescription?: string;
+                    };
+                };
+                isActive: boolean;
+            }[];
+            series: {
+                id: number;
+                denominationId: number;
+                name: string;
+                issuedOn: string | null;
+                withdrawnOn: string | null;
+                serialFormat: string;
+                serialLength: number;
+                patternDescription: string;
+                serialRules: {
+                    prefixes?: string[];
+                    /** @enum {string} */
+                    checksum?: "euro";
+                    ranges?: {
+                        prefix?: string;
+                        min: number;
+                        max: number;
+                    }[];
+                } | null;
+                /** @enum {string} */
+                legalTenderStatus: "legal_tender" | "withdrawn" | "demonetized";
+                translations: {
+                    en?: {
+                        patternDescription?: string;
+                    };
+                    es?: {
+                        patternDescription?: string;
+                    };
+                    fr?: {
+                        patternDescription?: string;
+                    };
+                    ja?: {
+                        patternDescription?: string;
+                    };
+                    pt?: {
+                        patternDescription?: string;
+                    };
+                    si?: {
+                        patternDescription?: string;
+                    };
+                    ta?: {
+                        patternDescription?: string;
+                    };
+                    zh?: {
+                        patternDescription?: string;
+                    };
+                };
+                isActive: boolean;
+            }[];
+        };
+        CatalogChanges: {
+            version: number;
+            countries: {
+                id: number;
+                code: string;
+                name: string;
+                currency: string;
+                currencySymbol: string;
+                /** @enum {string} */
+                kind: "country" | "currency_union";
+                members: string[];
+                translations: {
+                    en?: {
+                        name?: string;
+                    };
+                    es?: {
+                        name?: string;
+                    };
+                    fr?: {
+                        name?: string;
+                    };
+                    ja?: {
+                        name?: string;
+                    };
+                    pt?: {
+                        name?: string;
+                    };
+                    si?: {
+                        name?: string;
+                    };
+                    ta?: {
+                        name?: string;
+                    };
+                    zh?: {
+                        name?: string;
+                    };
+                };
+                isActive: boolean;
+            }[];
+            denominations: {
+                id: number;
+                countryId: number;
+                value: string;
+                displayName: string;
+                serialFormat: string;
+                serialLength: number;
+                patternDescription: string;
+                serialRules: {
+                    prefixes?: string[];
+                    /** @enum {string} */
+                    checksum?: "euro";
+                    ranges?: {
+                        prefix?: string;
+                        min: number;
+                        max: number;
+                    }[];
+                } | null;
+                normalization: {
+                    /**
+                     * @default upper
+                     * @enum {string}
+                     */
+                    caseFolding: "upper" | "lower" | "none";
+                    /**
+                     * @default strip
+                     * @enum {string}
+                     */
+                    whitespace: "strip" | "collapse" | "none";
+                    groups?: number[];
+                    substitutions?: {
+                        [key: string]: string;
+                    };
+                } | null;
+                translations: {
+                    en?: {
+                        displayName?: string;
+                        patternDescription?: string;
+                    };
+                    es?: {
+                        displayName?: string;
+                        patternDescription?: string;
+                    };
+                    fr?: {
+                        displayName?: string;
+                        patternDescription?: string;
+                    };
+                    ja?: {
+                        displayName?: string;
+                        patternDescription?: string;
+                    };
+                    pt?: {
+                        displayName?: string;
+                        patternDescription?: string;
+                    };
+                    si?: {
+                        displayName?: string;
+                        patternDescription?: string;
+                    };
+                    ta?: {
+                        displayName?: string;
+                        patternDescription?: string;
+                    };
+                    zh?: {
+                        displayName?: string;
+                        patternDescription?: string;
+                    };
+                };
+                isActive: boolean;
+            }[];
+            series: {
+                id: number;
+                denominationId: number;
+                name: string;
+                issuedOn: string | null;
+                withdrawnOn: string | null;
+                serialFormat: string;
+                serialLength: number;
+                patternDescription: string;
+                serialRules: {
+                    prefixes?: string[];
+                    /** @enum {string} */
+                    checksum?: "euro";
+                    ranges?: {
+                        prefix?: string;
+                        min: number;
+                        max: number;
+                    }[];
+                } | null;
+                /** @enum {string} */
+                legalTenderStatus: "legal_tender" | "withdrawn" | "demonetized";
+                translations: {
+                    en?: {
+                        patternDescription?: string;
+                    };
+                    es?: {
+                        patternDescription?: string;
+                    };
+                    fr?: {
+                        patternDescription?: string;
+                    };
+                    ja?: {
+                        patternDescription?: string;
+                    };
+                    pt?: {
+                        patternDescription?: string;
+                    };
+                    si?: {
+                        patternDescription?: string;
+                    };
+                    ta?: {
+                        patternDescription?: string;
+                    };
+                    zh?: {
+                        patternDescription?: string;
+                    };
+                };
+                isActive: boolean;
+            }[];
+            since: number;
+        };
+        CatalogSigningKey: {
+            keyId: string;
+            /** @enum {string} */
+            algorithm: "Ed25519";
+            publicKey: string;
+        };
+        VerificationStats: {
+            totalVerified: number;
+            authentic: number;
+            formatFailures: number;
+            lengthFailures: number;
+            knownCounterfeit: number;
+            suspicious: number;
+            successRate: number;
+            /** @enum {string} */
+            interval: "day" | "week";
+            byCountry: {
+                totalVerified: number;
+                authentic: number;
+                formatFailures: number;
+                lengthFailures: number;
+                knownCounterfeit: number;
+                suspicious: number;
+                successRate: number;
+                countryCode: string;
+                country: string;
+            }[];
+            byDenomination: {
+                totalVerified: number;
+                authentic: number;
+                formatFailures: number;
+                lengthFailures: number;
+                knownCounterfeit: number;
+                suspicious: number;
+                successRate: number;
+                countryCode: string;
+                denomination: string;
+                displayName: string;
+            }[];
+            byPeriod: {
+                totalVerified: number;
+                authentic: number;
+                formatFailures: number;
+                lengthFailures: number;
+                knownCounterfeit: number;
+                suspicious: number;
+                successRate: number;
+                period: string;
+            }[];
+        };
+        HistoryItem: {
+            id: number;
+            tenantId: number | null;
+            serialNumber: string;
+            normalizedSerial: string | null;
+            isAuthentic: boolean;
+            formatValid: boolean;
+            lengthValid: boolean;
+            knownCounterfeit: boolean;
+            repeatedSighting: boolean;
+            failedRules: string[];
+            /** Format: date-time */
+            timestamp: string;
+            offlineId: string | null;
+            /** Format: date-time */
+            uploadedAt: string | null;
+            countryCode: string;
+            denomination: string;
+        };
+        VerificationHistoryPage: {
+            items: {
+                id: number;
+                tenantId: number | null;
+                serialNumber: string;
+                normalizedSerial: string | null;
+                isAuthentic: boolean;
+                formatValid: boolean;
+                lengthValid: boolean;
+                knownCounterfeit: boolean;
+                repeatedSighting: boolean;
+                failedRules: string[];
+                /** Format: date-time */
+                timestamp: string;
+                offlineId: string | null;
+                /** Format: date-time */
+                uploadedAt: string | null;
+                countryCode: string;
+                denomination: string;
+            }[];
+            nextCursor: string | null;
+        };
+        Alert: {
+            id: number;
+            fingerprint: string;
+            /** @enum {string} */
+            kind: "repeated_serial" | "suspicious_spike" | "sequential_serials";
+            /** @enum {string} */
+            severity: "low" | "medium" | "high";
+            countryId: number;
+            denominationId: number;
+            tenantIds: number[];
+            summary: string;
+            details: {
+                [key: string]: unknown;
+            };
+            /** Format: date-time */
+            firstSeenAt: string;
+            /** Format: date-time */
+            lastSeenAt: string;
+            /** Format: date-time */
+            createdAt: string;
+            logs: {
+                id: number;
+                tenantId: number | null;
+                serialNumber: string;
+                normalizedSerial: string | null;
+                isAuthentic: boolean;
+                formatValid: boolean;
+                lengthValid: boolean;
+                knownCounterfeit: boolean;
+                repeatedSighting: boolean;
+                failedRules: string[];
+                /** Format: date-time */
+                timestamp: string;
+                offlineId: string | null;
+                /** Format: date-time */
+                uploadedAt: string | null;
+                countryCode: string;
+                denomination: string;
+            }[];
+        };
+        Webhook: {
+            id: number;
+            tenantId: number | null;
+            url: string;
+            countryId: number | null;
+            denominationId: number | null;
+            suspiciousOnly: boolean;
+            burstThreshold: number | null;
+            burstWindowSeconds: number | null;
+            isActive: boolean;
+            /** Format: date-time */
+            createdAt: string;
+        };
+        CreatedWebhook: {
+            id: number;
+            tenantId: number | null;
+            url: string;
+            countryId: number | null;
+            denominationId: number | null;
+            suspiciousOnly: boolean;
+            burstThreshold: number | null;
+            burstWindowSeconds: number | null;
+            isActive: boolean;
+            /** Format: date-time */
+            createdAt: string;
+            secret: string;
+        };
+        WebhookDelivery: {
+            id: number;
+            webhookId: number;
+            /** @enum {string} */
+            event: "verification" | "suspicious_burst" | "ping";
+            payload: {
+                [key: string]: unknown;
+            };
+            /** @enum {string} */
+            status: "pending" | "delivered" | "failed";
+            attempts: number;
+            /** Format: date-time */
+            nextAttemptAt: string | null;
+            lastStatusCode: number | null;
+            lastError: string | null;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            deliveredAt: string | null;
+        };
+        FlaggedSerial: {
+            id: number;
+            countryId: number;
+            denominationId: number;
+            serialNumber: string;
+            source: string;
+            reason: string;
+            /** Format: date-time */
+            dateAdded: string;
+        };
+        ImportFlaggedSerialsResult: {
+            imported: number;
+            skipped: number;
+            rejected: {
+                index: number;
+                message: string;
+            }[];
+        };
+        Tenant: {
+            id: number;
+            name: string;
+            isActive: boolean;
+            repeatSightingThreshold: number | null;
+            repeatSightingWindowDays: number | null;
+            /** Format: date-time */
+            createdAt: string;
+        };
+        ApiKey: {
+            id: number;
+            tenantId: number;
+            name: string;
+            /** @enum {string} */
+            role: "verifier" | "auditor" | "admin";
+            keyPrefix: string;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            expiresAt: string | null;
+            /** Format: date-time */
+            revokedAt: string | null;
+        };
+        IssuedApiKey: {
+            id: number;
+            tenantId: number;
+            name: string;
+            /** @enum {string} */
+            role: "verifier" | "auditor" | "admin";
+            keyPrefix: string;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            expiresAt: string | null;
+            /** Format: date-time */
+            revokedAt: string | null;
+            key: string;
+        };
+        AbuseEvent: {
+            id: number;
+            /** @enum {string} */
+            kind: "rate_limited" | "enumeration" | "invalid_api_key";
+            clientKey: string;
+            route: string;
+            countryId: number | null;
+            denominationId: number | null;
+            serialNumber: string | null;
+            /** Format: date-time */
+            timestamp: string;
+        };
+        AnalyzeAlertsResult: {
+            alerts: number;
+        };
+        Health: {
+            /** @enum {string} */
+            status: "ok";
+            uptimeSeconds: number;
+        };
+        Readiness: {
+            /** @enum {string} */
+            status: "ready" | "not_ready";
+            draining: boolean;
+            checks: {
+                /** @enum {string} */
+                storage: "ok" | "failed";
+                /** @enum {string} */
+                catalog: "ok" | "empty" | "unknown";
+            };
+        };
+    };
+    responses: never;
+    parameters: never;
+    requestBodies: never;
+    headers: never;
+    pathItems: never;
+}
+export type $defs = Record<string, never>;
+export type operations = Record<string, never>;
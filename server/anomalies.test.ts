@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AnomalyJob, toAlertResponse, type AnomalyThresholds } from "./anomalies";
+import { loadCatalog, syncCatalog } from "./catalogSync";
+import { MemStorage } from "./memStorage";
+
+const thresholds: AnomalyThresholds = { repeatedSerial: 3, suspiciousSpike: 20, sequenceLength: 4, sequenceGap: 10 };
+const now = new Date("2026-03-02T18:00:00Z");
+
+// GB 20 verified by two tenants and anonymously on the day analysed
+async function seeded(serials: [tenantId: number | null, serial: string][]): Promise<MemStorage> {
+  const storage = new MemStorage();
+  const catalog = loadCatalog();
+  await syncCatalog(storage, { ...catalog, countries: catalog.countries.filter(country => country.code === "GB") });
+  const country = (await storage.getCountryByCode("GB"))!;
+  const denomination = (await storage.getDenomination(country.id, "20"))!;
+
+  // Offline verifications keep the time they were made
+  await storage.createOfflineVerificationLogs(serials.map(([tenantId, serial], i) => ({
+    countryId: country.id,
+    denominationId: denomination.id,
+    tenantId,
+    serialNumber: serial,
+    normalizedSerial: serial,
+    isAuthentic: true,
+    formatValid: true,
+    lengthValid: true,
+    timestamp: new Date(Date.UTC(2026, 2, 2, 9, i)),
+    offlineId: `device-${i}`,
+  })));
+  return storage;
+}
+
+async function analyse(storage: MemStorage) {
+  const job = new AnomalyJob(storage, { thresholds, lookbackDays: 1, intervalMs: 60_000 });
+  const [alert] = await job.run(now);
+  const records = await storage.getVerificationLogsByIds(alert.logIds);
+  return { alert, records: new Map(records.map(record => [record.id, record])) };
+}
+
+test("a tenant only sees the counts of its own verifications", async () => {
+  const storage = await seeded([[1, "AA01234567"], [1, "AA01234567"], [2, "AA01234567"], [null, "AA01234567"]]);
+  const { alert, records } = await analyse(storage);
+
+  const everyone = toAlertResponse(alert, records);
+  assert.equal(everyone.summary, "GB 20 serial AA01234567 verified 4 times");
+  assert.deepEqual(everyone.tenantIds, [1, 2]);
+  assert.equal(everyone.logs.length, 4);
+
+  const tenant = toAlertResponse(alert, records, 2);
+  assert.equal(tenant.summary, "GB 20 serial AA01234567 verified 1 times");
+  assert.deepEqual(tenant.details, { serialNumber: "AA01234567", suspicious: 0, verifications: 1 });
+  assert.deepEqual(tenant.tenantIds, [2]);
+  assert.equal(tenant.logs.length, 1);
+  assert.deepEqual(tenant.firstSeenAt, new Date(Date.UTC(2026, 2, 2, 9, 2)));
+  assert.deepEqual(tenant.lastSeenAt, tenant.firstSeenAt);
+});
+
+test("a tenant's share of a sequence covers its own serials", async () => {
+  const storage = await seeded([[1, "AA01234560"], [1, "AA01234565"], [2, "AA01234570"], [1, "AA01234575"]]);
+  const { alert, records } = await analyse(storage);
+
+  assert.equal(alert.kind, "sequential_serials");
+  assert.equal(toAlertResponse(alert, records).summary, "4 GB 20 serials in sequence from AA01234560 to AA01234575");
+  assert.deepEqual(toAlertResponse(alert, records, 1).details, {
+    start: "AA01234560",
+    end: "AA01234575",
+    serials: 3,
+    verifications: 3,
+  });
+});
@@ -0,0 +1,377 @@
+import type { Alert, AlertKind, AlertSeverity, InsertAlert } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { logger } from "./logger";
+import { toHistoryItem, type VerificationLogRecord } from "./history";
+import { splitSerial } from "./bundleAnalysis";
+
+// Signals that only show up across many verifications: the same serial
+// verified again and again, a pile of suspicious results for one denomination,
+// or serials close together in sequence. The logs of each UTC day are
+// analysed separately, one denomination at a time, by the storage backend so
+// that no day of logs is loaded into memory.
+
+export interface AnomalyThresholds {
+  // Verifications of one serial in a day
+  repeatedSerial: number;
+  // Suspicious results for one denomination in a day
+  suspiciousSpike: number;
+  // Distinct serials in a sequence
+  sequenceLength: number;
+  // Largest difference between neighbouring serials of a sequence
+  sequenceGap: number;
+}
+
+export interface AnomalyJobOptions {
+  thresholds: AnomalyThresholds;
+  // Days analysed by each run, today included; earlier days are left as they are
+  lookbackDays: number;
+  intervalMs: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Log ids kept per alert; the counts in its details cover every verification
+export const MAX_ALERT_LOGS = 100;
+
+// Counts behind an anomaly, over all of its verifications or one tenant's
+export interface AnomalyCounts {
+  verifications: number;
+  suspicious: number;
+  // Verifications of the denomination that day, suspicious or not;
+  // suspicious_spike only, 0 for the other kinds
+  total: number;
+  // Distinct serials, and the lowest and highest of them
+  serials: number;
+  firstSerial: string;
+  lastSerial: string;
+  knownCounterfeit: boolean;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  // The earliest MAX_ALERT_LOGS verifications
+  logIds: number[];
+}
+
+// A cluster of verifications of one denomination on one day, as found by
+// IStorage.findAnomalyClusters
+export interface AnomalyCluster {
+  kind: AlertKind;
+  countryId: number;
+  denominationId: number;
+  countryCode: string;
+  denomination: string;
+  // Tells clusters of a day and denomination apart: the serial, "all", or
+  // the series and first number of a sequence
+  key: string;
+  counts: AnomalyCounts;
+  // Each tenant's share; anonymous verifications only count towards counts
+  tenants: (AnomalyCounts & { tenantId: number })[];
+}
+
+export interface AnomalyQuery {
+  // Inclusive lower and exclusive upper bound of the day analysed
+  from: Date;
+  to: Date;
+  thresholds: AnomalyThresholds;
+}
+
+// What a tenant is shown of an alert: the summary and details computed over
+// its own verifications only
+interface TenantView {
+  summary: string;
+  details: Record<string, unknown>;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+// Low at the threshold, medium at twice and high at four times the threshold
+function severityFor(count: number, threshold: number): AlertSeverity {
+  if (count >= threshold * 4) {
+    return "high";
+  }
+  return count >= threshold * 2 ? "medium" : "low";
+}
+
+function serialOf(record: VerificationLogRecord): string {
+  return record.normalizedSerial ?? record.serialNumber;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string | number): Map<string | number, T[]> {
+  const groups = new Map<string | number, T[]>();
+  for (const item of items) {
+    const group = groups.get(key(item)) ?? [];
+    group.push(item);
+    groups.set(key(item), group);
+  }
+  return groups;
+}
+
+// Counts over verification records, for the in-memory store
+function countRecords(records: VerificationLogRecord[], serials: number, total = 0): AnomalyCounts {
+  const sorted = records.slice().sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime() || a.id - b.id);
+  const serialNumbers = sorted.map(serialOf).sort();
+  return {
+    verifications: sorted.length,
+    suspicious: sorted.filter(record => !record.isAuthentic).length,
+    total,
+    serials,
+    firstSerial: serialNumbers[0],
+    lastSerial: serialNumbers[serialNumbers.length - 1],
+    knownCounterfeit: sorted.some(record => record.knownCounterfeit),
+    firstSeenAt: sorted[0].timestamp,
+    lastSeenAt: sorted[sorted.length - 1].timestamp,
+    logIds: sorted.slice(0, MAX_ALERT_LOGS).map(record => record.id),
+  };
+}
+
+function toCluster(
+  kind: AlertKind,
+  key: string,
+  records: VerificationLogRecord[],
+  // Counts a group of the records; tenantId is undefined for the whole group
+  count: (records: VerificationLogRecord[], tenantId?: number) => AnomalyCounts,
+): AnomalyCluster {
+  const tenants: AnomalyCluster["tenants"] = [];
+  groupBy(records.filter(record => record.tenantId !== null), record => record.tenantId!).forEach((group, tenantId) => {
+    tenants.push({ tenantId: tenantId as number, ...count(group, tenantId as number) });
+  });
+  return {
+    kind,
+    countryId: records[0].countryId,
+    denominationId: records[0].denominationId,
+    countryCode: records[0].countryCode,
+    denomination: records[0].denomination,
+    key,
+    counts: count(records),
+    tenants: tenants.sort((a, b) => a.tenantId - b.tenantId),
+  };
+}
+
+// The same serial verified at least `repeatedSerial` times. Genuine notes never
+// share a serial, so this is either one note checked over and over or copies.
+function findRepeatedSerials(records: VerificationLogRecord[], thresholds: AnomalyThresholds): AnomalyCluster[] {
+  const found: AnomalyCluster[] = [];
+  groupBy(records, serialOf).forEach((group, serial) => {
+    if (group.length >= thresholds.repeatedSerial) {
+      found.push(toCluster("repeated_serial", String(serial), group, logs => countRecords(logs, 1)));
+    }
+  });
+  return found;
+}
+
+// At least `suspiciousSpike` suspicious results for the denomination
+function findSuspiciousSpike(records: VerificationLogRecord[], thresholds: AnomalyThresholds): AnomalyCluster[] {
+  const suspicious = records.filter(record => !record.isAuthentic);
+  if (suspicious.length < thresholds.suspiciousSpike) {
+    return [];
+  }
+
+  return [toCluster("suspicious_spike", "all", suspicious, (logs, tenantId) => {
+    const total = tenantId === undefined ? records : records.filter(record => record.tenantId === tenantId);
+    return countRecords(logs, new Set(logs.map(serialOf)).size, total.length);
+  })];
+}
+
+// At least `sequenceLength` distinct serials of the same series, each within
+// `sequenceGap` of the next. Unlike bundle analysis the serials need not be
+// consecutive, as notes from one print run are rarely all verified.
+function findSequences(records: VerificationLogRecord[], thresholds: AnomalyThresholds): AnomalyCluster[] {
+  const bySeries = new Map<string, Map<number, VerificationLogRecord[]>>();
+  // Input of the wrong length is more likely a typo than a serial
+  for (const record of records.filter(record => record.lengthValid)) {
+    const parts = splitSerial(serialOf(record));
+    if (!parts) {
+      continue;
+    }
+
+    const numbers = bySeries.get(parts.series) ?? new Map<number, VerificationLogRecord[]>();
+    numbers.set(parts.number, [...(numbers.get(parts.number) ?? []), record]);
+    bySeries.set(parts.series, numbers);
+  }
+
+  const found: AnomalyCluster[] = [];
+  bySeries.forEach((numbers, series) => {
+    const sorted = Array.from(numbers.keys()).sort((a, b) => a - b);
+
+    let start = 0;
+    for (let i = 1; i <= sorted.length; i++) {
+      if (i < sorted.length && sorted[i] - sorted[i - 1] <= thresholds.sequenceGap) {
+        continue;
+      }
+
+      const sequence = sorted.slice(start, i);
+      start = i;
+      if (sequence.length < thresholds.sequenceLength) {
+        continue;
+      }
+
+      const group = sequence.flatMap(number => numbers.get(number)!);
+      found.push(toCluster("sequential_serials", `${series}:${sequence[0]}`, group, logs => {
+        const distinct = new Set(logs.map(record => splitSerial(serialOf(record))!.number)).size;
+        return countRecords(logs, distinct);
+      }));
+    }
+  });
+  return found;
+}
+
+// Anomaly clusters among the verification logs of one day, found in process
+// memory; the Postgres store runs the same analysis in SQL
+export function findAnomalyClustersInLogs(records: VerificationLogRecord[], thresholds: AnomalyThresholds): AnomalyCluster[] {
+  const found: AnomalyCluster[] = [];
+  groupBy(records, record => record.denominationId).forEach(group => {
+    found.push(
+      ...findRepeatedSerials(group, thresholds),
+      ...findSuspiciousSpike(group, thresholds),
+      ...findSequences(group, thresholds),
+    );
+  });
+  return found;
+}
+
+function describe(kind: AlertKind, label: string, counts: AnomalyCounts): { summary: string; details: Record<string, unknown> } {
+  switch (kind) {
+    case "repeated_serial":
+      return {
+        summary: `${label} serial ${counts.firstSerial} verified ${counts.verifications} times`,
+        details: { serialNumber: counts.firstSerial, suspicious: counts.suspicious, verifications: counts.verifications },
+      };
+    case "suspicious_spike":
+      return {
+        summary: `${counts.suspicious} of ${counts.total} ${label} verifications were suspicious`,
+        details: { suspicious: counts.suspicious, total: counts.total, verifications: counts.verifications },
+      };
+    case "sequential_serials":
+      return {
+        summary: `${counts.serials} ${label} serials in sequence from ${counts.firstSerial} to ${counts.lastSerial}`,
+        details: {
+          start: counts.firstSerial,
+          end: counts.lastSerial,
+          serials: counts.serials,
+          verifications: counts.verifications,
+        },
+      };
+  }
+}
+
+function severityOf(cluster: AnomalyCluster, thresholds: AnomalyThresholds): AlertSeverity {
+  const { counts } = cluster;
+  switch (cluster.kind) {
+    // A serial from the counterfeit registry turning up repeatedly is always serious
+    case "repeated_serial":
+      return counts.knownCounterfeit ? "high" : severityFor(counts.verifications, thresholds.repeatedSerial);
+    case "suspicious_spike":
+      return severityFor(counts.suspicious, thresholds.suspiciousSpike);
+    case "sequential_serials":
+      return counts.knownCounterfeit ? "high" : severityFor(counts.serials, thresholds.sequenceLength);
+  }
+}
+
+// The alert for a cluster found on the given UTC day (YYYY-MM-DD). Besides
+// the counts over everyone's verifications, details.byTenant holds what each
+// tenant is shown, see toAlertResponse.
+export function toAlert(cluster: AnomalyCluster, day: string, thresholds: AnomalyThresholds): InsertAlert {
+  const label = `${cluster.countryCode} ${cluster.denomination}`;
+  const { summary, details } = describe(cluster.kind, label, cluster.counts);
+  const byTenant: Record<string, TenantView> = {};
+  cluster.tenants.forEach(share => {
+    byTenant[share.tenantId] = {
+      ...describe(cluster.kind, label, share),
+      firstSeenAt: share.firstSeenAt.toISOString(),
+      lastSeenAt: share.lastSeenAt.toISOString(),
+    };
+  });
+
+  return {
+    fingerprint: [cluster.kind, day, cluster.denominationId, cluster.key].join(":"),
+    kind: cluster.kind,
+    severity: severityOf(cluster, thresholds),
+    countryId: cluster.countryId,
+    denominationId: cluster.denominationId,
+    tenantIds: cluster.tenants.map(share => share.tenantId),
+    summary,
+    details: { ...details, byTenant },
+    logIds: cluster.counts.logIds,
+    firstSeenAt: cluster.counts.firstSeenAt,
+    lastSeenAt: cluster.counts.lastSeenAt,
+  };
+}
+
+// An alert as returned by the API, with the log rows behind it. When limited
+// to one tenant, the summary, details and times only cover that tenant's
+// verifications, and other tenants' verifications and ids are left out.
+export function toAlertResponse(
+  alert: Alert,
+  records: Map<number, VerificationLogRecord>,
+  tenantId?: number,
+) {
+  const { logIds, ...rest } = alert;
+  const logs = logIds
+    .map(id => records.get(id))
+    .filter((record): record is VerificationLogRecord =>
+      record !== undefined && (tenantId === undefined || record.tenantId === tenantId),
+    );
+  if (tenantId === undefined) {
+    return { ...rest, logs: logs.map(toHistoryItem) };
+  }
+
+  const view = (alert.details.byTenant as Record<string, TenantView> | undefined)?.[tenantId];
+  return {
+    ...rest,
+    tenantIds: [tenantId],
+    summary: view?.summary ?? "",
+    details: view?.details ?? {},
+    firstSeenAt: view ? new Date(view.firstSeenAt) : alert.firstSeenAt,
+    lastSeenAt: view ? new Date(view.lastSeenAt) : alert.lastSeenAt,
+    logs: logs.map(toHistoryItem),
+  };
+}
+
+// Looks for anomaly clusters in recent days on a timer and stores the alerts.
+// Earlier alerts of those days are updated in place as more logs come in.
+export class AnomalyJob {
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<Alert[]>;
+
+  constructor(private storage: IStorage, private options: AnomalyJobOptions) {}
+
+  start() {
+    this.timer ??= setInterval(() => {
+      this.run().catch(error => logger.error("Anomaly detection failed", { error }));
+    }, this.options.intervalMs);
+    this.timer.unref();
+  }
+
+  // Stops the timer and waits for a run in progress to finish
+  async stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await this.running?.catch(() => undefined);
+  }
+
+  // Analyses the last lookbackDays days and returns the alerts found. A run
+  // requested while another is in progress shares its result.
+  run(now = new Date()): Promise<Alert[]> {
+    if (!this.running) {
+      this.running = this.analyse(now);
+      const clear = () => {
+        this.running = undefined;
+      };
+      this.running.then(clear, clear);
+    }
+    return this.running;
+  }
+
+  private async analyse(now: Date): Promise<Alert[]> {
+    const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+    const { thresholds } = this.options;
+    const stored: Alert[] = [];
+
+    for (let day = this.options.lookbackDays - 1; day >= 0; day--) {
+      const from = new Date(today - day * DAY_MS);
+      const clusters = await this.storage.findAnomalyClusters({ from, to: new Date(from.getTime() + DAY_MS), thresholds });
+      const date = from.toISOString().slice(0, 10);
+      stored.push(...await this.storage.upsertAlerts(clusters.map(cluster => toAlert(cluster, date, thresholds))));
+    }
+    return stored;
+  }
+}
@@ -0,0 +1,119 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import express from "express";
+import { registerRoutes } from "./routes";
+import { errorHandler } from "./errors";
+
+const ADMIN_KEY = "auth-test-admin-key";
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  process.env.ADMIN_API_KEY = ADMIN_KEY;
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  app.use(errorHandler);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  baseUrl = `http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+async function call(method: string, path: string, key?: string, body?: unknown) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "content-type": "application/json", ...(key ? { "x-api-key": key } : {}) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json().catch(() => undefined) };
+}
+
+// A tenant with a verifier and an auditor key
+async function tenant(name: string) {
+  const created = await call("POST", "/api/admin/tenants", ADMIN_KEY, { name });
+  const issue = async (role: string) =>
+    (await call("POST", `/api/admin/tenants/${created.body.id}/api-keys`, ADMIN_KEY, { name: role, role })).body.key as string;
+  return { id: created.body.id as number, verifier: await issue("verifier"), auditor: await issue("auditor") };
+}
+
+function verify(key: string | undefined, serialNumber: string) {
+  return call("POST", "/api/verify", key, { countryCode: "US", denomination: "20", serialNumber });
+}
+
+test("each role only reaches its own routes", async () => {
+  const shop = await tenant("Role shop");
+
+  assert.equal((await verify(shop.verifier, "B12345678A")).status, 200);
+  assert.equal((await verify(shop.auditor, "B12345678A")).status, 403);
+  assert.equal((await verify(ADMIN_KEY, "B12345678A")).status, 200);
+
+  assert.equal((await call("GET", "/api/stats", shop.auditor)).status, 200);
+  assert.equal((await call("GET", "/api/stats", shop.verifier)).status, 403);
+  assert.equal((await call("GET", "/api/stats")).status, 401);
+  assert.equal((await call("GET", "/api/verifications", shop.verifier)).status, 403);
+
+  assert.equal((await call("GET", "/api/admin/tenants", shop.auditor)).status, 403);
+  assert.equal((await call("GET", "/api/admin/tenants", shop.verifier)).status, 403);
+  assert.equal((await call("GET", "/api/admin/tenants", "bk_unknown")).status, 401);
+});
+
+test("keys of a deactivated tenant are refused", async () => {
+  const closed = await tenant("Closed shop");
+  assert.equal((await call("PATCH", `/api/admin/tenants/${closed.id}`, ADMIN_KEY, { isActive: false })).status, 200);
+  assert.equal((await verify(closed.verifier, "B12345678A")).status, 401);
+});
+
+test("stats and history are scoped to the caller's tenant", async () => {
+  const north = await tenant("North shop");
+  const south = await tenant("South shop");
+  await verify(north.verifier, "C23456789B");
+  await verify(north.verifier, "nope");
+  await verify(south.verifier, "D34567890C");
+
+  const northStats = await call("GET", "/api/stats", north.auditor);
+  assert.equal(northStats.body.totalVerified, 2);
+  assert.equal(northStats.body.authentic, 1);
+  assert.equal((await call("GET", "/api/stats", south.auditor)).body.totalVerified, 1);
+
+  const northHistory = await call("GET", "/api/verifications", north.auditor);
+  assert.deepEqual(northHistory.body.items.map((item: { serialNumber: string }) => item.serialNumber).sort(), ["C23456789B", "nope"]);
+  assert.ok(northHistory.body.items.every((item: { tenantId: number }) => item.tenantId === north.id));
+
+  // Naming another tenant is refused, naming one's own is the default
+  assert.equal((await call("GET", `/api/stats?tenantId=${south.id}`, north.auditor)).status, 403);
+  assert.equal((await call("GET", `/api/verifications?tenantId=${south.id}`, north.auditor)).status, 403);
+  assert.equal((await call("GET", `/api/stats?tenantId=${north.id}`, north.auditor)).body.totalVerified, 2);
+
+  // Admins pick any tenant
+  assert.equal((await call("GET", `/api/stats?tenantId=${south.id}`, ADMIN_KEY)).body.totalVerified, 1);
+  const southHistory = await call("GET", `/api/verifications?tenantId=${south.id}`, ADMIN_KEY);
+  assert.deepEqual(southHistory.body.items.map((item: { serialNumber: string }) => item.serialNumber), ["D34567890C"]);
+});
+
+test("a tenant's repeat sighting threshold applies to its own verifications", async () => {
+  const strict = await tenant("Strict shop");
+  await call("PATCH", `/api/admin/tenants/${strict.id}`, ADMIN_KEY, { repeatSightingThreshold: 2 });
+
+  const first = await verify(strict.verifier, "E45678901D");
+  const second = await verify(strict.verifier, "E45678901D");
+  assert.equal(first.body.isAuthentic, true);
+  assert.equal(second.body.isAuthentic, true);
+  assert.equal(second.body.sightings.count, 1);
+
+  // Seen twice before now
+  const third = await verify(strict.verifier, "E45678901D");
+  assert.equal(third.body.repeatedSighting, true);
+  assert.equal(third.body.isAuthentic, false);
+
+  // Callers without the setting only get the sightings reported
+  const anonymous = await verify(undefined, "E45678901D");
+  assert.equal(anonymous.body.sightings.count, 3);
+  assert.equal(anonymous.body.isAuthentic, true);
+});
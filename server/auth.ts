@@ -0,0 +1,112 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import type { ApiKey, ApiKeyRole } from "@shared/schema";
+import { storage } from "./storage";
+import { ForbiddenError, UnauthorizedError } from "./errors";
+
+// Who is making a request. tenantId and keyId are null for the bootstrap
+// ADMIN_API_KEY, which is not tied to any tenant.
+export interface Principal {
+  role: ApiKeyRole;
+  tenantId: number | null;
+  keyId: number | null;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      principal?: Principal;
+    }
+  }
+}
+
+const KEY_PREFIX = "bk_";
+
+function readApiKey(req: Request): string | undefined {
+  const header = req.get("authorization");
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim();
+  }
+  return req.get("x-api-key") ?? undefined;
+}
+
+function keysMatch(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// A new random key with the parts that are stored for it
+export function generateApiKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { key, keyPrefix: key.slice(0, KEY_PREFIX.length + 8), keyHash: hashApiKey(key) };
+}
+
+// An API key as returned by the admin endpoints, without its hash
+export function toApiKeyResponse(apiKey: ApiKey) {
+  const { keyHash, ...rest } = apiKey;
+  return rest;
+}
+
+function isUsable(apiKey: ApiKey, now: Date): boolean {
+  return !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt > now);
+}
+
+// Resolves the key sent as "Authorization: Bearer <key>" or in X-API-Key to
+// the caller's principal, or undefined if the key is unknown or no longer valid
+async function resolvePrincipal(provided: string): Promise<Principal | undefined> {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (adminKey && keysMatch(provided, adminKey)) {
+    return { role: "admin", tenantId: null, keyId: null };
+  }
+
+  const apiKey = await storage.getApiKeyByHash(hashApiKey(provided));
+  if (!apiKey || !isUsable(apiKey, new Date())) {
+    return undefined;
+  }
+
+  const tenant = await storage.getTenant(apiKey.tenantId);
+  if (!tenant?.isActive) {
+    return undefined;
+  }
+  return { role: apiKey.role, tenantId: apiKey.tenantId, keyId: apiKey.id };
+}
+
+export interface RoleOptions {
+  // Lets requests without any key through as well
+  allowAnonymous?: boolean;
+  // Called when a key was sent but is unknown or no longer valid
+  onRejected?: (req: Request) => Promise<void>;
+}
+
+// Requires an API key with one of the given roles and sets req.principal
+export function requireRole(roles: ApiKeyRole[], options: RoleOptions = {}): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const provided = readApiKey(req);
+      if (!provided && options.allowAnonymous) {
+        return next();
+      }
+
+      const principal = provided ? await resolvePrincipal(provided) : undefined;
+      if (!principal) {
+        if (provided && options.onRejected) {
+          await options.onRejected(req);
+        }
+        throw new UnauthorizedError("Invalid or missing API key");
+      }
+      if (!roles.includes(principal.role)) {
+        throw new ForbiddenError("API key is not allowed to perform this action");
+      }
+
+      req.principal = principal;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,101 @@
+// Heuristics over a bundle of notes verified together. Genuine notes never share
+// a serial number, and long runs of consecutive serials are typical of a
+// counterfeit print batch rather than cash in circulation.
+
+// Shortest run of consecutive serial numbers that gets flagged
+export const MIN_SEQUENTIAL_RUN = 3;
+
+export interface BundleNote {
+  index: number;
+  // Notes are only compared within the same group, i.e. the same denomination
+  group: number;
+  serialNumber: string;
+}
+
+export interface SequentialRun {
+  group: number;
+  start: string;
+  end: string;
+  length: number;
+  indexes: number[];
+}
+
+// Indexes of every note whose serial appears more than once in its group
+export function findDuplicateSerials(notes: BundleNote[]): Set<number> {
+  const byKey = new Map<string, number[]>();
+  for (const note of notes) {
+    const key = `${note.group}:${note.serialNumber}`;
+    const indexes = byKey.get(key) ?? [];
+    indexes.push(note.index);
+    byKey.set(key, indexes);
+  }
+
+  const duplicates = new Set<number>();
+  byKey.forEach(indexes => {
+    if (indexes.length > 1) {
+      indexes.forEach(index => duplicates.add(index));
+    }
+  });
+  return duplicates;
+}
+
+// Splits a serial into the text around its last run of digits, so that
+// "AB12 345678" and "AB12 345679" are recognised as neighbours
+export function splitSerial(serialNumber: string) {
+  const match = /^(.*?)(\d+)(\D*)$/.exec(serialNumber);
+  // Longer digit runs would lose precision as a number
+  if (!match || match[2].length > 15) {
+    return undefined;
+  }
+  return {
+    series: `${match[1]}|${match[2].length}|${match[3]}`,
+    number: Number(match[2]),
+  };
+}
+
+// Runs of at least MIN_SEQUENTIAL_RUN consecutive serial numbers within a group.
+// Repeated serials count once towards a run but every occurrence is reported.
+export function findSequentialRuns(notes: BundleNote[]): SequentialRun[] {
+  const bySeries = new Map<string, { group: number; number: number; notes: BundleNote[] }[]>();
+  for (const note of notes) {
+    const parts = splitSerial(note.serialNumber);
+    if (!parts) {
+      continue;
+    }
+
+    const key = `${note.group}:${parts.series}`;
+    const entries = bySeries.get(key) ?? [];
+    const existing = entries.find(entry => entry.number === parts.number);
+    if (existing) {
+      existing.notes.push(note);
+    } else {
+      entries.push({ group: note.group, number: parts.number, notes: [note] });
+    }
+    bySeries.set(key, entries);
+  }
+
+  const runs: SequentialRun[] = [];
+  bySeries.forEach(entries => {
+    entries.sort((a, b) => a.number - b.number);
+
+    let runStart = 0;
+    for (let i = 1; i <= entries.length; i++) {
+      if (i < entries.length && entries[i].number === entries[i - 1].number + 1) {
+        continue;
+      }
+
+      const run = entries.slice(runStart, i);
+      if (run.length >= MIN_SEQUENTIAL_RUN) {
+        runs.push({
+          group: run[0].group,
+          start: run[0].notes[0].serialNumber,
+          end: run[run.length - 1].notes[0].serialNumber,
+          length: run.length,
+          indexes: run.flatMap(entry => entry.notes.map(note => note.index)).sort((a, b) => a - b),
+        });
+      }
+      runStart = i;
+    }
+  });
+  return runs;
+}
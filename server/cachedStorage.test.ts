@@ -0,0 +1,94 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import express from "express";
+import { CachedStorage } from "./cachedStorage";
+import { loadCatalog, syncCatalog } from "./catalogSync";
+import { MemStorage } from "./memStorage";
+import { registerRoutes } from "./routes";
+import { errorHandler } from "./errors";
+
+const ADMIN_KEY = "cache-test-admin-key";
+
+async function cached(ttlMs: number) {
+  const inner = new MemStorage();
+  const catalog = loadCatalog();
+  await syncCatalog(inner, { ...catalog, countries: catalog.countries.filter(country => country.code === "GB") });
+  return { inner, storage: new CachedStorage(inner, ttlMs) };
+}
+
+test("writes through the cache are seen at once and change the ETag", async () => {
+  const { storage } = await cached(60_000);
+  const country = (await storage.getCountryByCode("GB"))!;
+  const etag = await storage.catalogETag();
+  assert.equal(await storage.catalogETag(), etag);
+
+  await storage.updateCountry(country.id, { name: "Great Britain" });
+  assert.equal((await storage.getCountryByCode("GB"))?.name, "Great Britain");
+  assert.notEqual(await storage.catalogETag(), etag);
+});
+
+test("writes that bypass the cache are seen once it expires or is invalidated", async () => {
+  const { inner, storage } = await cached(60_000);
+  const country = (await storage.getCountryByCode("GB"))!;
+  await inner.updateCountry(country.id, { name: "Great Britain" });
+  assert.equal((await storage.getCountryByCode("GB"))?.name, country.name);
+
+  storage.invalidate();
+  assert.equal((await storage.getCountryByCode("GB"))?.name, "Great Britain");
+
+  const expiring = await cached(0);
+  await expiring.inner.updateCountry(country.id, { name: "Great Britain" });
+  assert.equal((await expiring.storage.getCountryByCode("GB"))?.name, "Great Britain");
+});
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  process.env.ADMIN_API_KEY = ADMIN_KEY;
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  app.use(errorHandler);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  baseUrl = `http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+// fetch adds Cache-Control: no-cache to a conditional request, which would skip the check
+function countries(headers: Record<string, string> = {}) {
+  return fetch(`${baseUrl}/api/countries`, { headers: { "cache-control": "max-age=0", ...headers } });
+}
+
+test("catalog routes answer 304 until the catalog changes", async () => {
+  const first = await countries();
+  assert.equal(first.status, 200);
+  assert.equal(first.headers.get("cache-control"), "public, max-age=300");
+  const etag = first.headers.get("etag")!;
+  assert.match(etag, /-en"$/);
+
+  assert.equal((await countries({ "if-none-match": etag })).status, 304);
+  // Translated responses have an ETag of their own
+  const spanish = await countries({ "if-none-match": etag, "accept-language": "es" });
+  assert.equal(spanish.status, 200);
+  assert.match(spanish.headers.get("etag")!, /-es"$/);
+
+  const updated = await fetch(`${baseUrl}/api/admin/countries/GB`, {
+    method: "PATCH",
+    headers: { "content-type": "application/json", "x-api-key": ADMIN_KEY },
+    body: JSON.stringify({ name: "Great Britain" }),
+  });
+  assert.equal(updated.status, 200);
+
+  const changed = await countries({ "if-none-match": etag });
+  assert.equal(changed.status, 200);
+  assert.notEqual(changed.headers.get("etag"), etag);
+  const body: { code: string; name: string }[] = await changed.json();
+  assert.equal(body.find(country => country.code === "GB")?.name, "Great Britain");
+});
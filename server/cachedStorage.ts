@@ -0,0 +1,390 @@
+import { createHash } from "crypto";
+import type {
+  AbuseEvent,
+  Alert,
+  ApiKey,
+  BanknoteSeries,
+  Country,
+  Denomination,
+  FlaggedSerial,
+  InsertAbuseEvent,
+  InsertAlert,
+  InsertApiKey,
+  InsertBanknoteSeries,
+  InsertCountry,
+  InsertDenomination,
+  InsertFlaggedSerial,
+  InsertOfflineVerificationLog,
+  InsertTenant,
+  InsertVerificationLog,
+  Tenant,
+  UpdateApiKey,
+  UpdateBanknoteSeries,
+  UpdateCountry,
+  UpdateDenomination,
+  UpdateTenant,
+  InsertWebhook,
+  InsertWebhookDelivery,
+  UpdateWebhook,
+  UpdateWebhookDelivery,
+  VerificationLog,
+  Webhook,
+  WebhookDelivery,
+} from "@shared/schema";
+import type {
+  AbuseEventFilter,
+  AlertFilter,
+  CatalogChangeSet,
+  CatalogQueryOptions,
+  FlaggedSerialFilter,
+  IStorage,
+  SerialSightings,
+  WebhookDeliveryFilter,
+  WebhookFilter,
+} from "./storage";
+import type { VerificationStats, VerificationStatsFilter } from "./stats";
+import type { VerificationLogQuery, VerificationLogRecord } from "./history";
+import type { AnomalyCluster, AnomalyQuery } from "./anomalies";
+import { clearCompiledSerialFormats, compileSerialFormat } from "./serialRules";
+import { resolveCountryCode } from "./countryCodes";
+
+// Everything in the catalog, including inactive entries, indexed for lookups
+interface CatalogSnapshot {
+  // Read before the entries, so they are at least as new as this version
+  version: number;
+  countries: Country[];
+  countriesByCode: Map<string, Country>;
+  denominations: Denomination[];
+  denominationsById: Map<number, Denomination>;
+  series: BanknoteSeries[];
+  seriesById: Map<number, BanknoteSeries>;
+  // Hash of the whole catalog, used as the ETag of the catalog routes
+  etag: string;
+  loadedAt: number;
+}
+
+function isVisible(entry: { isActive: boolean }, options: CatalogQueryOptions = {}): boolean {
+  return options.includeInactive || entry.isActive;
+}
+
+// Read-through cache for countries, denominations and series in front of
+// another IStorage. Catalog writes made through it drop the cached copy; writes
+// by other processes (e.g. the catalog sync command) are picked up once
+// ttlMs has passed. Everything else is passed straight through.
+export class CachedStorage implements IStorage {
+  private snapshot?: Promise<CatalogSnapshot>;
+  // Bumped on every invalidation so a load that started earlier is not kept
+  private generation = 0;
+
+  constructor(readonly inner: IStorage, private ttlMs: number) {}
+
+  invalidate() {
+    this.generation++;
+    this.snapshot = undefined;
+  }
+
+  // ETag for responses built from the catalog; changes whenever any entry does
+  async catalogETag(): Promise<string> {
+    return (await this.catalog()).etag;
+  }
+
+  private async catalog(): Promise<CatalogSnapshot> {
+    const cached = this.snapshot && await this.snapshot;
+    if (cached && Date.now() - cached.loadedAt < this.ttlMs) {
+      return cached;
+    }
+
+    if (!this.snapshot || cached) {
+      const generation = this.generation;
+      const loading = this.load();
+      this.snapshot = loading;
+      loading.then(
+        () => undefined,
+        () => {
+          // Do not keep a failed load around; the next request retries
+          if (this.generation === generation && this.snapshot === loading) {
+            this.snapshot = undefined;
+          }
+        },
+      );
+    }
+    return await this.snapshot;
+  }
+
+  private async load(): Promise<CatalogSnapshot> {
+    const byId = (a: { id: number }, b: { id: number }) => a.id - b.id;
+    const version = await this.inner.getCatalogVersion();
+    const countries = (await this.inner.getCountries({ includeInactive: true })).sort(byId);
+    const denominations = (await this.inner.getDenominations({ includeInactive: true })).sort(byId);
+    const series = (await this.inner.getSeries({ includeInactive: true })).sort(byId);
+
+    clearCompiledSerialFormats();
+    denominations.forEach(denomination => compileSerialFormat(denomination.serialFormat));
+    series.forEach(entry => compileSerialFormat(entry.serialFormat));
+
+    const etag = createHash("sha1")
+      .update(JSON.stringify({ countries, denominations, series }))
+      .digest("base64url");
+
+    return {
+      version,
+      countries,
+      countriesByCode: new Map(countries.map(country => [country.code, country])),
+      denominations,
+      denominationsById: new Map(denominations.map(denomination => [denomination.id, denomination])),
+      series,
+      seriesById: new Map(series.map(entry => [entry.id, entry])),
+      etag: `"${etag}"`,
+      loadedAt: Date.now(),
+    };
+  }
+
+  // Runs a catalog write and drops the cached catalog afterwards
+  private async write<T>(operation: Promise<T>): Promise<T> {
+    try {
+      return await operation;
+    } finally {
+      this.invalidate();
+    }
+  }
+
+  async getCountries(options?: CatalogQueryOptions): Promise<Country[]> {
+    return (await this.catalog()).countries.filter(country => isVisible(country, options));
+  }
+
+  async getCountryByCode(code: string): Promise<Country | undefined> {
+    return (await this.catalog()).countriesByCode.get(code.toUpperCase());
+  }
+
+  async resolveCountry(code: string): Promise<Country | undefined> {
+    const catalog = await this.catalog();
+    return catalog.countriesByCode.get(code.toUpperCase()) ?? resolveCountryCode(catalog.countries, code);
+  }
+
+  createCountry(country: InsertCountry): Promise<Country> {
+    return this.write(this.inner.createCountry(country));
+  }
+
+  updateCountry(id: number, update: UpdateCountry): Promise<Country | undefined> {
+    return this.write(this.inner.updateCountry(id, update));
+  }
+
+  async getDenominations(options?: CatalogQueryOptions): Promise<Denomination[]> {
+    return (await this.catalog()).denominations.filter(denomination => isVisible(denomination, options));
+  }
+
+  async getDenominationsByCountry(countryId: number, options?: CatalogQueryOptions): Promise<Denomination[]> {
+    return (await this.catalog()).denominations.filter(
+      denomination => denomination.countryId === countryId && isVisible(denomination, options),
+    );
+  }
+
+  async getDenomination(countryId: number, value: string): Promise<Denomination | undefined> {
+    return (await this.catalog()).denominations.find(
+      denomination => denomination.countryId === countryId && denomination.value === value,
+    );
+  }
+
+  async getDenominationById(id: number): Promise<Denomination | undefined> {
+    return (await this.catalog()).denominationsById.get(id);
+  }
+
+  createDenomination(denomination: InsertDenomination): Promise<Denomination> {
+    return this.write(this.inner.createDenomination(denomination));
+  }
+
+  updateDenomination(id: number, update: UpdateDenomination): Promise<Denomination | undefined> {
+    return this.write(this.inner.updateDenomination(id, update));
+  }
+
+  async getSeries(options?: CatalogQueryOptions): Promise<BanknoteSeries[]> {
+    return (await this.catalog()).series.filter(entry => isVisible(entry, options));
+  }
+
+  async getSeriesByDenomination(denominationId: number, options?: CatalogQueryOptions): Promise<BanknoteSeries[]> {
+    return (await this.catalog()).series.filter(
+      entry => entry.denominationId === denominationId && isVisible(entry, options),
+    );
+  }
+
+  async getSeriesById(id: number): Promise<BanknoteSeries | undefined> {
+    return (await this.catalog()).seriesById.get(id);
+  }
+
+  createSeries(series: InsertBanknoteSeries): Promise<BanknoteSeries> {
+    return this.write(this.inner.createSeries(series));
+  }
+
+  updateSeries(id: number, update: UpdateBanknoteSeries): Promise<BanknoteSeries | undefined> {
+    return this.write(this.inner.updateSeries(id, update));
+  }
+
+  async getCatalogVersion(): Promise<number> {
+    return (await this.catalog()).version;
+  }
+
+  getCatalogChanges(since: number): Promise<CatalogChangeSet> {
+    return this.inner.getCatalogChanges(since);
+  }
+
+  getAppliedCatalogVersion(): Promise<number | undefined> {
+    return this.inner.getAppliedCatalogVersion();
+  }
+
+  recordCatalogSync(version: number): Promise<void> {
+    return this.inner.recordCatalogSync(version);
+  }
+
+  createVerificationLog(log: InsertVerificationLog): Promise<VerificationLog> {
+    return this.inner.createVerificationLog(log);
+  }
+
+  createVerificationLogs(logs: InsertVerificationLog[]): Promise<VerificationLog[]> {
+    return this.inner.createVerificationLogs(logs);
+  }
+
+  createOfflineVerificationLogs(logs: InsertOfflineVerificationLog[]): Promise<VerificationLog[]> {
+    return this.inner.createOfflineVerificationLogs(logs);
+  }
+
+  getVerificationStats(filter?: VerificationStatsFilter): Promise<VerificationStats> {
+    return this.inner.getVerificationStats(filter);
+  }
+
+  getVerificationLogs(query: VerificationLogQuery): Promise<VerificationLogRecord[]> {
+    return this.inner.getVerificationLogs(query);
+  }
+
+  getVerificationLogsByIds(ids: number[]): Promise<VerificationLogRecord[]> {
+    return this.inner.getVerificationLogsByIds(ids);
+  }
+
+  getSerialSightings(denominationId: number, normalizedSerial: string, since?: Date): Promise<SerialSightings> {
+    return this.inner.getSerialSightings(denominationId, normalizedSerial, since);
+  }
+
+  getFlaggedSerials(filter?: FlaggedSerialFilter): Promise<FlaggedSerial[]> {
+    return this.inner.getFlaggedSerials(filter);
+  }
+
+  getFlaggedSerial(denominationId: number, serialNumber: string): Promise<FlaggedSerial | undefined> {
+    return this.inner.getFlaggedSerial(denominationId, serialNumber);
+  }
+
+  findFlaggedSerials(denominationId: number, serialNumbers: string[]): Promise<FlaggedSerial[]> {
+    return this.inner.findFlaggedSerials(denominationId, serialNumbers);
+  }
+
+  createFlaggedSerials(entries: InsertFlaggedSerial[]): Promise<FlaggedSerial[]> {
+    return this.inner.createFlaggedSerials(entries);
+  }
+
+  deleteFlaggedSerial(id: number): Promise<boolean> {
+    return this.inner.deleteFlaggedSerial(id);
+  }
+
+  getTenants(): Promise<Tenant[]> {
+    return this.inner.getTenants();
+  }
+
+  getTenant(id: number): Promise<Tenant | undefined> {
+    return this.inner.getTenant(id);
+  }
+
+  getTenantByName(name: string): Promise<Tenant | undefined> {
+    return this.inner.getTenantByName(name);
+  }
+
+  createTenant(tenant: InsertTenant): Promise<Tenant> {
+    return this.inner.createTenant(tenant);
+  }
+
+  updateTenant(id: number, update: UpdateTenant): Promise<Tenant | undefined> {
+    return this.inner.updateTenant(id, update);
+  }
+
+  getApiKeysByTenant(tenantId: number): Promise<ApiKey[]> {
+    return this.inner.getApiKeysByTenant(tenantId);
+  }
+
+  getApiKeyById(id: number): Promise<ApiKey | undefined> {
+    return this.inner.getApiKeyById(id);
+  }
+
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return this.inner.getApiKeyByHash(keyHash);
+  }
+
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
+    return this.inner.createApiKey(apiKey);
+  }
+
+  updateApiKey(id: number, update: UpdateApiKey): Promise<ApiKey | undefined> {
+    return this.inner.updateApiKey(id, update);
+  }
+
+  createAbuseEvent(event: InsertAbuseEvent): Promise<AbuseEvent> {
+    return this.inner.createAbuseEvent(event);
+  }
+
+  getAbuseEvents(filter: AbuseEventFilter): Promise<AbuseEvent[]> {
+    return this.inner.getAbuseEvents(filter);
+  }
+
+  getWebhooks(filter?: WebhookFilter): Promise<Webhook[]> {
+    return this.inner.getWebhooks(filter);
+  }
+
+  getWebhook(id: number): Promise<Webhook | undefined> {
+    return this.inner.getWebhook(id);
+  }
+
+  createWebhook(webhook: InsertWebhook): Promise<Webhook> {
+    return this.inner.createWebhook(webhook);
+  }
+
+  updateWebhook(id: number, update: UpdateWebhook): Promise<Webhook | undefined> {
+    return this.inner.updateWebhook(id, update);
+  }
+
+  createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    return this.inner.createWebhookDeliveries(deliveries);
+  }
+
+  updateWebhookDelivery(id: number, update: UpdateWebhookDelivery): Promise<WebhookDelivery | undefined> {
+    return this.inner.updateWebhookDelivery(id, update);
+  }
+
+  getWebhookDeliveries(filter: WebhookDeliveryFilter): Promise<WebhookDelivery[]> {
+    return this.inner.getWebhookDeliveries(filter);
+  }
+
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return this.inner.getDueWebhookDeliveries(now, limit);
+  }
+
+  findAnomalyClusters(query: AnomalyQuery): Promise<AnomalyCluster[]> {
+    return this.inner.findAnomalyClusters(query);
+  }
+
+  upsertAlerts(alerts: InsertAlert[]): Promise<Alert[]> {
+    return this.inner.upsertAlerts(alerts);
+  }
+
+  getAlerts(filter: AlertFilter): Promise<Alert[]> {
+    return this.inner.getAlerts(filter);
+  }
+
+  // Seeding goes through this wrapper so the catalog writes invalidate the cache
+  async seedInitialData(): Promise<void> {
+    await this.write(this.inner.seedInitialData());
+  }
+
+  ping(): Promise<void> {
+    return this.inner.ping();
+  }
+
+  close(): Promise<void> {
+    return this.inner.close();
+  }
+}
@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createPublicKey, generateKeyPairSync, verify } from "crypto";
+import { gunzipSync } from "zlib";
+import { CatalogBundler, createCatalogSigner, type CatalogSigner, type SignedDocument } from "./catalogBundle";
+import { loadCatalog, syncCatalog } from "./catalogSync";
+import { MemStorage } from "./memStorage";
+
+const { privateKey } = generateKeyPairSync("ed25519");
+const pem = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+
+async function bundler() {
+  const storage = new MemStorage();
+  const catalog = loadCatalog();
+  await syncCatalog(storage, { ...catalog, countries: catalog.countries.filter(country => country.code === "GB") });
+  return { storage, bundler: new CatalogBundler(storage, createCatalogSigner(pem)) };
+}
+
+// Checks a document the way a device does, with the public key it was shipped
+function signatureValid(signer: CatalogSigner, body: Buffer, signature: string): boolean {
+  return verify(null, body, createPublicKey(signer.publicKey), Buffer.from(signature, "base64"));
+}
+
+function parse(document: SignedDocument) {
+  return JSON.parse(document.body.toString());
+}
+
+test("the bundle is signed over its uncompressed body", async () => {
+  const { bundler: catalog } = await bundler();
+  const { version, document } = await catalog.bundle();
+
+  assert.ok(signatureValid(catalog.signer, document.body, document.signature));
+  assert.deepEqual(gunzipSync(document.compressed), document.body);
+  assert.equal(parse(document).version, version);
+  assert.deepEqual(parse(document).countries.map((country: { code: string }) => country.code), ["GB"]);
+
+  // Any change to the body breaks the signature
+  const tampered = Buffer.from(document.body.toString().replace("GB", "GR"));
+  assert.equal(signatureValid(catalog.signer, tampered, document.signature), false);
+  // So does a signature made with another key
+  const other = createCatalogSigner(generateKeyPairSync("ed25519").privateKey.export({ type: "pkcs8", format: "pem" }).toString());
+  assert.equal(signatureValid(other, document.body, document.signature), false);
+});
+
+test("the signing key is read from PEM with escaped line breaks", () => {
+  const signer = createCatalogSigner(pem);
+  assert.equal(createCatalogSigner(pem.replace(/\n/g, "\\n")).keyId, signer.keyId);
+  assert.match(signer.keyId, /^[0-9a-f]{16}$/);
+
+  const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+  assert.throws(() => createCatalogSigner(rsa), /must be an Ed25519 private key/);
+});
+
+test("the bundle is rebuilt only when the catalog version changes", async () => {
+  const { storage, bundler: catalog } = await bundler();
+  const first = await catalog.bundle();
+  assert.equal((await catalog.bundle()).document, first.document);
+
+  const country = (await storage.getCountryByCode("GB"))!;
+  await storage.updateCountry(country.id, { name: "Great Britain" });
+  const second = await catalog.bundle();
+  assert.ok(second.version > first.version);
+  assert.equal(parse(second.document).countries[0].name, "Great Britain");
+});
+
+test("changes since a version list the entries written after it, signed", async () => {
+  const { storage, bundler: catalog } = await bundler();
+  const { version } = await catalog.bundle();
+
+  const none = (await catalog.changes(version))!;
+  assert.equal(none.version, version);
+  assert.deepEqual(parse(none.document), { since: version, version, countries: [], denominations: [], series: [] });
+
+  const country = (await storage.getCountryByCode("GB"))!;
+  await storage.updateCountry(country.id, { isActive: false });
+  const changes = (await catalog.changes(version))!;
+  assert.ok(signatureValid(catalog.signer, changes.document.body, changes.document.signature));
+  // Retired entries are included, so devices can drop them
+  assert.deepEqual(parse(changes.document).countries.map((entry: { code: string; isActive: boolean }) => [entry.code, entry.isActive]), [["GB", false]]);
+});
+
+test("a version the server has not reached has no changes", async () => {
+  const { bundler: catalog } = await bundler();
+  const { version } = await catalog.bundle();
+  assert.equal(await catalog.changes(version + 1), undefined);
+});
@@ -0,0 +1,119 @@
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, sign, type KeyObject } from "crypto";
+import type { Request, Response } from "express";
+import { promisify } from "util";
+import { gzip } from "zlib";
+import type { CatalogBundle, CatalogChanges } from "@shared/api";
+import type { IStorage } from "./storage";
+import { logger } from "./logger";
+
+// Catalog documents for clients that verify notes offline: the whole catalog
+// as a bundle, and the entries changed since a catalog version. Both are
+// served gzip-compressed and signed with Ed25519, the signature covering the
+// uncompressed JSON body, so a device can check a copy it stored earlier.
+//
+// CATALOG_SIGNING_KEY holds the Ed25519 private key as PEM. Without it a
+// temporary key is generated, which changes with every restart.
+
+const gzipAsync = promisify(gzip);
+
+export interface CatalogSigner {
+  // First 16 hex digits of the SHA-256 of the public key
+  keyId: string;
+  // SPKI PEM, for clients to pin
+  publicKey: string;
+  sign(body: Buffer): string;
+}
+
+export function createCatalogSigner(pem = process.env.CATALOG_SIGNING_KEY): CatalogSigner {
+  let privateKey: KeyObject;
+  if (pem) {
+    privateKey = createPrivateKey(pem.replace(/\\n/g, "\n"));
+    if (privateKey.asymmetricKeyType !== "ed25519") {
+      throw new Error("CATALOG_SIGNING_KEY must be an Ed25519 private key");
+    }
+  } else {
+    privateKey = generateKeyPairSync("ed25519").privateKey;
+    logger.warn("CATALOG_SIGNING_KEY is not set; catalog documents are signed with a temporary key");
+  }
+
+  const publicKey = createPublicKey(privateKey);
+  return {
+    keyId: createHash("sha256").update(publicKey.export({ type: "spki", format: "der" })).digest("hex").slice(0, 16),
+    publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+    sign: body => sign(null, body, privateKey).toString("base64"),
+  };
+}
+
+// A document ready to send: its JSON body, a gzip-compressed copy and the
+// base64 signature of the body
+export interface SignedDocument {
+  body: Buffer;
+  compressed: Buffer;
+  signature: string;
+}
+
+async function signDocument(signer: CatalogSigner, document: CatalogBundle | CatalogChanges): Promise<SignedDocument> {
+  const body = Buffer.from(JSON.stringify(document));
+  return { body, compressed: await gzipAsync(body), signature: signer.sign(body) };
+}
+
+// Builds the catalog documents; the bundle is built once per catalog version
+export class CatalogBundler {
+  private cached?: { version: number; document: Promise<SignedDocument> };
+
+  constructor(private storage: IStorage, readonly signer: CatalogSigner) {}
+
+  // Active countries with their active denominations and series
+  async bundle(): Promise<{ version: number; document: SignedDocument }> {
+    const version = await this.storage.getCatalogVersion();
+    if (this.cached?.version !== version) {
+      const document = this.buildBundle(version);
+      this.cached = { version, document };
+      // Do not keep a failed build around; the next request retries
+      document.catch(() => {
+        if (this.cached?.document === document) {
+          this.cached = undefined;
+        }
+      });
+    }
+    return { version, document: await this.cached.document };
+  }
+
+  // Entries changed after `since`, retired ones included; undefined when the
+  // client claims a version this server has not reached, e.g. after a reset
+  async changes(since: number): Promise<{ version: number; document: SignedDocument } | undefined> {
+    const changes = await this.storage.getCatalogChanges(since);
+    if (since > changes.version) {
+      return undefined;
+    }
+    return { version: changes.version, document: await signDocument(this.signer, { since, ...changes }) };
+  }
+
+  private async buildBundle(version: number): Promise<SignedDocument> {
+    const countries = await this.storage.getCountries();
+    const countryIds = new Set(countries.map(country => country.id));
+    const denominations = (await this.storage.getDenominations())
+      .filter(denomination => countryIds.has(denomination.countryId));
+    const denominationIds = new Set(denominations.map(denomination => denomination.id));
+    const series = (await this.storage.getSeries())
+      .filter(entry => denominationIds.has(entry.denominationId));
+
+    return signDocument(this.signer, { version, countries, denominations, series });
+  }
+}
+
+// Sends a signed document, compressed when the client accepts gzip
+export function sendSignedDocument(req: Request, res: Response, signer: CatalogSigner, document: SignedDocument) {
+  res.set({
+    "Content-Type": "application/json; charset=utf-8",
+    "X-Catalog-Key-Id": signer.keyId,
+    "X-Catalog-Signature": document.signature,
+    Vary: "Accept-Encoding",
+  });
+  if (req.acceptsEncodings("gzip")) {
+    res.set("Content-Encoding", "gzip");
+    res.send(document.compressed);
+  } else {
+    res.send(document.body);
+  }
+}
@@ -0,0 +1,121 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { loadCatalog, syncCatalog, type Catalog } from "./catalogSync";
+import { MemStorage } from "./memStorage";
+
+// GB alone: denominations with series, enough to exercise every level
+function gbCatalog(): Catalog {
+  const catalog = loadCatalog();
+  return { ...catalog, countries: catalog.countries.filter(country => country.code === "GB") };
+}
+
+async function seeded(catalog: Catalog): Promise<MemStorage> {
+  const storage = new MemStorage();
+  await syncCatalog(storage, catalog);
+  return storage;
+}
+
+async function findGb20(storage: MemStorage) {
+  const country = (await storage.getCountryByCode("GB"))!;
+  const denomination = (await storage.getDenominationsByCountry(country.id, { includeInactive: true }))
+    .find(entry => entry.value === "20")!;
+  const series = await storage.getSeriesByDenomination(denomination.id, { includeInactive: true });
+  return { country, denomination, series };
+}
+
+test("syncing twice is a no-op", async () => {
+  const catalog = gbCatalog();
+  const storage = await seeded(catalog);
+
+  const result = await syncCatalog(storage, catalog);
+  assert.deepEqual(result.changes, []);
+});
+
+test("reactivates entries retired by an admin that are still in the catalog", async () => {
+  const catalog = gbCatalog();
+  const storage = await seeded(catalog);
+  const { country, denomination, series } = await findGb20(storage);
+  await storage.updateCountry(country.id, { isActive: false });
+  await storage.updateDenomination(denomination.id, { isActive: false });
+  await storage.updateSeries(series[0].id, { isActive: false });
+
+  const result = await syncCatalog(storage, catalog);
+
+  assert.deepEqual(
+    result.changes.map(change => [change.entity, change.key, change.action, change.fields?.isActive]),
+    [
+      ["country", "GB", "updated", { from: false, to: true }],
+      ["denomination", "GB 20", "updated", { from: false, to: true }],
+      ["series", `GB 20 ${series[0].name}`, "updated", { from: false, to: true }],
+    ],
+  );
+  const after = await findGb20(storage);
+  assert.equal(after.country.isActive, true);
+  assert.equal(after.denomination.isActive, true);
+  assert.ok(after.series.every(entry => entry.isActive));
+});
+
+test("reactivates a pruned denomination that comes back to the catalog", async () => {
+  const catalog = gbCatalog();
+  const storage = await seeded(catalog);
+  const [gb] = catalog.countries;
+  const without20: Catalog = {
+    ...catalog,
+    countries: [{ ...gb, denominations: gb.denominations.filter(entry => entry.value !== "20") }],
+  };
+
+  const pruned = await syncCatalog(storage, without20, { prune: true });
+  assert.ok(pruned.changes.some(change => change.key === "GB 20" && change.action === "retired"));
+  assert.equal((await findGb20(storage)).denomination.isActive, false);
+
+  const restored = await syncCatalog(storage, catalog);
+  assert.ok(restored.changes.some(change => change.key === "GB 20" && change.action === "updated"));
+  assert.equal((await findGb20(storage)).denomination.isActive, true);
+});
+
+test("a dry run reports the reactivation without applying it", async () => {
+  const catalog = gbCatalog();
+  const storage = await seeded(catalog);
+  const { denomination } = await findGb20(storage);
+  await storage.updateDenomination(denomination.id, { isActive: false });
+
+  const result = await syncCatalog(storage, catalog, { dryRun: true });
+  assert.deepEqual(result.changes.map(change => change.key), ["GB 20"]);
+  assert.equal((await findGb20(storage)).denomination.isActive, false);
+});
+
+test("renames South Africa stored under its former code, which no longer resolves", async () => {
+  const catalog = loadCatalog();
+  const za = catalog.countries.find(country => country.code === "ZA")!;
+  const storage = await seeded({ ...catalog, countries: [{ ...za, code: "SA" }] });
+
+  const result = await syncCatalog(storage, { ...catalog, countries: [za] });
+
+  assert.ok(result.changes.some(change => change.key === "ZA" && change.fields?.code));
+  assert.equal((await storage.getCountries({ includeInactive: true })).length, 1);
+  assert.equal((await storage.resolveCountry("ZA"))?.code, "ZA");
+  assert.equal(await storage.resolveCountry("SA"), undefined);
+});
+
+test("refuses a catalog older than the one applied unless forced", async () => {
+  const catalog = gbCatalog();
+  const storage = await seeded(catalog);
+  assert.equal(await storage.getAppliedCatalogVersion(), catalog.version);
+
+  const older: Catalog = { ...catalog, version: catalog.version - 1 };
+  await assert.rejects(syncCatalog(storage, older), /older than the applied version/);
+  await assert.rejects(syncCatalog(storage, older, { dryRun: true }), /older than the applied version/);
+
+  const forced = await syncCatalog(storage, older, { force: true });
+  assert.equal(forced.previousVersion, catalog.version);
+  assert.equal(await storage.getAppliedCatalogVersion(), older.version);
+});
+
+test("a dry run does not record its version", async () => {
+  const catalog = gbCatalog();
+  const storage = await seeded(catalog);
+
+  const result = await syncCatalog(storage, { ...catalog, version: catalog.version + 1 }, { dryRun: true });
+  assert.equal(result.previousVersion, catalog.version);
+  assert.equal(await storage.getAppliedCatalogVersion(), catalog.version);
+});
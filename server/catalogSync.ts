@@ -0,0 +1,371 @@
+import { z } from "zod";
+import {
+  COUNTRY_KINDS,
+  LEGAL_TENDER_STATUSES,
+  SUPPORTED_LOCALES,
+  serialNormalizationSchema,
+  serialRulesSchema,
+  translationsSchema,
+  type CatalogEntity,
+  type Translations,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { validateSerialFormat } from "./serialFormat";
+import { LEGACY_COUNTRY_CODES, isIsoCountryCode } from "./countryCodes";
+import catalogData from "./catalog/catalog.json";
+
+// The catalog of countries, denominations and series lives in
+// server/catalog/catalog.json. Bump its version with every change; syncing
+// upserts countries by code, denominations by (country, value) and series by
+// (denomination, name), so running it again is a no-op. A stored country under
+// a former code ("UK", "SA") is renamed to the code replacing it ("GB", "ZA").
+// The version applied is stored, and a file older than it is refused unless
+// forced, e.g. when an old checkout is synced by mistake.
+
+// Codes countries were stored under before catalog version 3: the legacy codes
+// still accepted from clients, and South Africa's "SA", which is not accepted
+// any more because it is Saudi Arabia's ISO code
+const FORMER_COUNTRY_CODES: Readonly<Record<string, string>> = { ...LEGACY_COUNTRY_CODES, SA: "ZA" };
+
+const serialSpecSchema = z.object({
+  serialFormat: z.string().min(1),
+  serialLength: z.number().int().positive(),
+  patternDescription: z.string().min(1),
+  serialRules: serialRulesSchema.optional(),
+  translations: translationsSchema(["patternDescription"]).optional(),
+});
+
+const catalogSeriesSchema = serialSpecSchema.extend({
+  name: z.string().min(1).max(100),
+  issuedOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  withdrawnOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  legalTenderStatus: z.enum(LEGAL_TENDER_STATUSES).default("legal_tender"),
+});
+
+// Serial settings given on a country apply to each of its denominations
+// unless the denomination overrides them
+const catalogSerialDefaultsSchema = serialSpecSchema.partial().extend({
+  normalization: serialNormalizationSchema.optional(),
+});
+
+const catalogDenominationSchema = catalogSerialDefaultsSchema.extend({
+  value: z.string().min(1),
+  displayName: z.string().min(1),
+  translations: translationsSchema(["displayName", "patternDescription"]).optional(),
+  series: z.array(catalogSeriesSchema).optional(),
+});
+
+const catalogCountrySchema = z.object({
+  code: z.string().regex(/^[A-Z]{2}$/),
+  name: z.string().min(1),
+  currency: z.string().regex(/^[A-Z]{3}$/),
+  currencySymbol: z.string().min(1).max(5),
+  kind: z.enum(COUNTRY_KINDS).default("country"),
+  members: z.array(z.string().regex(/^[A-Z]{2}$/)).default([]),
+  translations: translationsSchema(["name"]).optional(),
+  serial: catalogSerialDefaultsSchema.optional(),
+  denominations: z.array(catalogDenominationSchema),
+});
+
+export const catalogSchema = z.object({
+  version: z.number().int().positive(),
+  countries: z.array(catalogCountrySchema),
+});
+
+export type Catalog = z.infer<typeof catalogSchema>;
+
+// Parses and checks the bundled catalog file; throws listing every problem found
+export function loadCatalog(): Catalog {
+  const catalog = catalogSchema.parse(catalogData);
+
+  const problems: string[] = [];
+  for (const country of catalog.countries) {
+    if (country.kind === "country" && !isIsoCountryCode(country.code)) {
+      problems.push(`${country.code}: not an ISO 3166-1 alpha-2 code`);
+    }
+    if (country.kind === "currency_union" && country.members.length === 0) {
+      problems.push(`${country.code}: a currency union needs members`);
+    }
+    country.members.filter(member => !isIsoCountryCode(member))
+      .forEach(member => problems.push(`${country.code}: member ${member} is not an ISO 3166-1 alpha-2 code`));
+    for (const denomination of country.denominations) {
+      const spec = { ...country.serial, ...denomination };
+      const label = `${country.code} ${denomination.value}`;
+      if (spec.serialFormat === undefined || spec.serialLength === undefined || spec.patternDescription === undefined) {
+        problems.push(`${label}: serialFormat, serialLength and patternDescription are required`);
+        continue;
+      }
+      validateSerialFormat(spec.serialFormat, spec.serialLength)
+        .forEach(error => problems.push(`${label}: ${error}`));
+      for (const series of denomination.series ?? []) {
+        validateSerialFormat(series.serialFormat, series.serialLength)
+          .forEach(error => problems.push(`${label} ${series.name}: ${error}`));
+      }
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid catalog:\n${problems.join("\n")}`);
+  }
+  return catalog;
+}
+
+export interface CatalogChange {
+  entity: CatalogEntity;
+  // e.g. "GB", "GB 20" or "GB 20 Series G (polymer)"
+  key: string;
+  // "retired" entries were missing from the catalog and pruned; "unlisted"
+  // ones are missing too but were left alone
+  action: "created" | "updated" | "retired" | "unlisted";
+  fields?: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface CatalogSyncResult {
+  version: number;
+  // Version applied by the previous sync, undefined before the first
+  previousVersion?: number;
+  dryRun: boolean;
+  changes: CatalogChange[];
+  unchanged: number;
+}
+
+export interface CatalogSyncOptions {
+  // Report the diff without writing anything
+  dryRun?: boolean;
+  // Retire countries, denominations and series that are not in the catalog
+  prune?: boolean;
+  // Apply a catalog older than the one applied last
+  force?: boolean;
+}
+
+// JSON with sorted keys, so values read back from jsonb compare equal
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value).sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// Fields of `wanted` whose value differs from `current`
+function diffFields<T extends Record<string, unknown>>(current: Record<string, unknown>, wanted: T): Partial<T> {
+  const changed: Partial<T> = {};
+  for (const key of Object.keys(wanted) as (keyof T & string)[]) {
+    if (stableStringify(current[key]) !== stableStringify(wanted[key])) {
+      changed[key] = wanted[key];
+    }
+  }
+  return changed;
+}
+
+function describeFields(current: Record<string, unknown>, changed: Record<string, unknown>) {
+  const fields: Record<string, { from: unknown; to: unknown }> = {};
+  for (const key of Object.keys(changed)) {
+    fields[key] = { from: current[key] ?? null, to: changed[key] };
+  }
+  return fields;
+}
+
+// A denomination's own translations, plus those of the country's pattern
+// description when the denomination uses the country's pattern
+function denominationTranslations(
+  defaults: Translations<"patternDescription"> | undefined,
+  denomination: z.infer<typeof catalogDenominationSchema>,
+): Translations<"displayName" | "patternDescription"> {
+  const inherited = denomination.patternDescription === undefined ? defaults ?? {} : {};
+  const own = denomination.translations ?? {};
+  const merged: Translations<"displayName" | "patternDescription"> = {};
+  for (const locale of SUPPORTED_LOCALES) {
+    const fields = { ...inherited[locale], ...own[locale] };
+    if (Object.keys(fields).length > 0) {
+      merged[locale] = fields;
+    }
+  }
+  return merged;
+}
+
+// Brings the stored catalog in line with the given catalog and reports what changed
+export async function syncCatalog(
+  storage: IStorage,
+  catalog: Catalog,
+  options: CatalogSyncOptions = {},
+): Promise<CatalogSyncResult> {
+  const dryRun = options.dryRun ?? false;
+  const previousVersion = await storage.getAppliedCatalogVersion();
+  if (previousVersion !== undefined && catalog.version < previousVersion && !options.force) {
+    throw new Error(`Catalog version ${catalog.version} is older than the applied version ${previousVersion}; use --force to apply it anyway`);
+  }
+  const result: CatalogSyncResult = { version: catalog.version, previousVersion, dryRun, changes: [], unchanged: 0 };
+  const record = (change: CatalogChange) => result.changes.push(change);
+
+  // Handles an entry missing from the catalog: retired with prune, reported either way
+  const retire = async (entity: CatalogEntity, key: string, isActive: boolean, apply: () => Promise<unknown>) => {
+    if (!isActive) {
+      return;
+    }
+    if (options.prune) {
+      if (!dryRun) {
+        await apply();
+      }
+      record({ entity, key, action: "retired" });
+    } else {
+      record({ entity, key, action: "unlisted" });
+    }
+  };
+
+  const existingCountries = await storage.getCountries({ includeInactive: true });
+  const listedCodes = new Set(catalog.countries.map(entry => entry.code));
+  const matchedCountryIds = new Set<number>();
+  for (const entry of catalog.countries) {
+    const { serial, denominations: denominationEntries, ...countryEntry } = entry;
+    // Entries in the catalog are active, even if they were retired before
+    const countryFields = { ...countryEntry, translations: countryEntry.translations ?? {}, isActive: true };
+
+    let country = existingCountries.find(existing => existing.code === entry.code)
+      ?? existingCountries.find(existing => FORMER_COUNTRY_CODES[existing.code] === entry.code && !listedCodes.has(existing.code));
+    if (country) {
+      matchedCountryIds.add(country.id);
+    }
+    if (!country) {
+      record({ entity: "country", key: entry.code, action: "created" });
+      if (!dryRun) {
+        country = await storage.createCountry(countryFields);
+      }
+    } else {
+      const changed = diffFields(country, countryFields);
+      if (Object.keys(changed).length > 0) {
+        record({ entity: "country", key: entry.code, action: "updated", fields: describeFields(country, changed) });
+        if (!dryRun) {
+          await storage.updateCountry(country.id, changed);
+        }
+      } else {
+        result.unchanged++;
+      }
+    }
+
+    const existingDenominations = country
+      ? await storage.getDenominationsByCountry(country.id, { includeInactive: true })
+      : [];
+    for (const denominationEntry of denominationEntries) {
+      const { series: seriesEntries, ...denominationSpec } = denominationEntry;
+      const key = `${entry.code} ${denominationEntry.value}`;
+      const denominationFields = {
+        displayName: denominationSpec.displayName,
+        serialFormat: denominationSpec.serialFormat ?? serial!.serialFormat!,
+        serialLength: denominationSpec.serialLength ?? serial!.serialLength!,
+        patternDescription: denominationSpec.patternDescription ?? serial!.patternDescription!,
+        serialRules: denominationSpec.serialRules ?? serial?.serialRules ?? null,
+        normalization: denominationSpec.normalization ?? serial?.normalization ?? null,
+        translations: denominationTranslations(serial?.translations, denominationSpec),
+        isActive: true,
+      };
+
+      let denomination = existingDenominations.find(existing => existing.value === denominationEntry.value);
+      if (!denomination) {
+        record({ entity: "denomination", key, action: "created" });
+        if (!dryRun) {
+          denomination = await storage.createDenomination({
+            countryId: country!.id,
+            value: denominationEntry.value,
+            ...denominationFields,
+          });
+        }
+      } else {
+        const changed = diffFields(denomination, denominationFields);
+        if (Object.keys(changed).length > 0) {
+          record({ entity: "denomination", key, action: "updated", fields: describeFields(denomination, changed) });
+          if (!dryRun) {
+            await storage.updateDenomination(denomination.id, changed);
+          }
+        } else {
+          result.unchanged++;
+        }
+      }
+
+      const existingSeries = denomination
+        ? await storage.getSeriesByDenomination(denomination.id, { includeInactive: true })
+        : [];
+      for (const seriesEntry of seriesEntries ?? []) {
+        const seriesKey = `${key} ${seriesEntry.name}`;
+        const seriesFields = {
+          issuedOn: seriesEntry.issuedOn ?? null,
+          withdrawnOn: seriesEntry.withdrawnOn ?? null,
+          serialFormat: seriesEntry.serialFormat,
+          serialLength: seriesEntry.serialLength,
+          patternDescription: seriesEntry.patternDescription,
+          serialRules: seriesEntry.serialRules ?? null,
+          legalTenderStatus: seriesEntry.legalTenderStatus,
+          translations: seriesEntry.translations ?? {},
+          isActive: true,
+        };
+
+        const series = existingSeries.find(existing => existing.name === seriesEntry.name);
+        if (!series) {
+          record({ entity: "series", key: seriesKey, action: "created" });
+          if (!dryRun) {
+            await storage.createSeries({ denominationId: denomination!.id, name: seriesEntry.name, ...seriesFields });
+          }
+        } else {
+          const changed = diffFields(series, seriesFields);
+          if (Object.keys(changed).length > 0) {
+            record({ entity: "series", key: seriesKey, action: "updated", fields: describeFields(series, changed) });
+            if (!dryRun) {
+              await storage.updateSeries(series.id, changed);
+            }
+          } else {
+            result.unchanged++;
+          }
+        }
+      }
+
+      for (const series of existingSeries) {
+        if (!seriesEntries?.some(seriesEntry => seriesEntry.name === series.name)) {
+          await retire("series", `${key} ${series.name}`, series.isActive, () => storage.updateSeries(series.id, { isActive: false }));
+        }
+      }
+    }
+
+    for (const denomination of existingDenominations) {
+      if (!denominationEntries.some(denominationEntry => denominationEntry.value === denomination.value)) {
+        await retire("denomination", `${entry.code} ${denomination.value}`, denomination.isActive,
+          () => storage.updateDenomination(denomination.id, { isActive: false }));
+      }
+    }
+  }
+
+  for (const country of existingCountries) {
+    if (!matchedCountryIds.has(country.id)) {
+      await retire("country", country.code, country.isActive, () => storage.updateCountry(country.id, { isActive: false }));
+    }
+  }
+
+  if (!dryRun && catalog.version !== previousVersion) {
+    await storage.recordCatalogSync(catalog.version);
+  }
+  return result;
+}
+
+// Human-readable report of a sync, one line per change
+export function formatCatalogSync(result: CatalogSyncResult): string {
+  const previous = result.previousVersion !== undefined && result.previousVersion !== result.version
+    ? ` (was ${result.previousVersion})`
+    : "";
+  const lines = [`Catalog version ${result.version}${previous}${result.dryRun ? " (dry run, nothing written)" : ""}`];
+  const symbols = { created: "+", updated: "~", retired: "-", unlisted: "?" };
+  for (const change of result.changes) {
+    lines.push(`${symbols[change.action]} ${change.entity} ${change.key}`);
+    for (const [field, { from, to }] of Object.entries(change.fields ?? {})) {
+      lines.push(`    ${field}: ${stableStringify(from)} -> ${stableStringify(to)}`);
+    }
+  }
+
+  const count = (action: CatalogChange["action"]) => result.changes.filter(change => change.action === action).length;
+  lines.push(`${count("created")} created, ${count("updated")} updated, ${count("retired")} retired, ${result.unchanged} unchanged`);
+  if (count("unlisted") > 0) {
+    lines.push(`${count("unlisted")} stored entries are not in the catalog; run with --prune to retire them`);
+  }
+  return lines.join("\n");
+}
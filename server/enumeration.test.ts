@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { EnumerationDetector } from "./enumeration";
+
+const options = { threshold: 4, span: 10, windowMs: 60_000 };
+
+test("flags a client walking through serials of one series", () => {
+  const detector = new EnumerationDetector(options);
+  assert.equal(detector.record("client", 1, "AB00000100"), false);
+  assert.equal(detector.record("client", 1, "AB00000103"), false);
+  assert.equal(detector.record("client", 1, "AB00000105"), false);
+  assert.equal(detector.record("client", 1, "AB00000110"), true);
+});
+
+test("does not flag serials far apart, repeated or of other series", () => {
+  const detector = new EnumerationDetector(options);
+  // Too far apart to be a walk
+  for (const serial of ["AB00000100", "AB00000200", "AB00000300", "AB00000400"]) {
+    assert.equal(detector.record("spread", 1, serial), false);
+  }
+  // The same note checked again counts once
+  for (let i = 0; i < 4; i++) {
+    assert.equal(detector.record("repeat", 1, "AB00000100"), false);
+  }
+  // Close numbers, but across prefixes and denominations
+  assert.equal(detector.record("mixed", 1, "AB00000100"), false);
+  assert.equal(detector.record("mixed", 1, "AC00000101"), false);
+  assert.equal(detector.record("mixed", 2, "AB00000102"), false);
+  assert.equal(detector.record("mixed", 1, "AD00000103"), false);
+});
+
+test("counts serials per client", () => {
+  const detector = new EnumerationDetector(options);
+  for (let i = 0; i < 4; i++) {
+    assert.equal(detector.record(`client-${i}`, 1, `AB0000010${i}`), false);
+  }
+});
@@ -0,0 +1,72 @@
+import { splitSerial } from "./bundleAnalysis";
+
+// Detects clients walking through a range of serial numbers one request at a
+// time, e.g. a script probing which serials are registered. Bundles verified
+// through /api/verify/batch are expected to be sequential and are not tracked.
+
+export interface EnumerationOptions {
+  // Distinct serials within `span` of each other that mark a client as enumerating
+  threshold: number;
+  span: number;
+  windowMs: number;
+}
+
+interface SerialSighting {
+  at: number;
+  // Denomination and the non-numeric parts of the serial, see splitSerial
+  series: string;
+  number: number;
+}
+
+export class EnumerationDetector {
+  private sightings = new Map<string, SerialSighting[]>();
+  private lastPrune = Date.now();
+
+  constructor(private options: EnumerationOptions) {}
+
+  // Records a serial checked by a client and reports whether the client's
+  // recent serials of the same series now look like an enumeration
+  record(client: string, denominationId: number, serialNumber: string): boolean {
+    const parts = splitSerial(serialNumber);
+    if (!parts) {
+      return false;
+    }
+
+    const now = Date.now();
+    this.prune(now);
+
+    const series = `${denominationId}:${parts.series}`;
+    const recent = (this.sightings.get(client) ?? []).filter(sighting =>
+      now - sighting.at < this.options.windowMs &&
+      !(sighting.series === series && sighting.number === parts.number),
+    );
+    recent.push({ at: now, series, number: parts.number });
+    // Only the latest sightings are needed to find a cluster of `threshold` serials
+    this.sightings.set(client, recent.slice(-this.options.threshold * 4));
+
+    const numbers = recent
+      .filter(sighting => sighting.series === series)
+      .map(sighting => sighting.number)
+      .sort((a, b) => a - b);
+    for (let i = 0; i + this.options.threshold <= numbers.length; i++) {
+      if (numbers[i + this.options.threshold - 1] - numbers[i] <= this.options.span) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Forgets clients whose sightings have all expired
+  private prune(now: number) {
+    if (now - this.lastPrune < this.options.windowMs) {
+      return;
+    }
+
+    this.lastPrune = now;
+    this.sightings.forEach((sightings, client) => {
+      if (sightings.every(sighting => now - sighting.at >= this.options.windowMs)) {
+        this.sightings.delete(client);
+      }
+    });
+  }
+}
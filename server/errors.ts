@@ -0,0 +1,158 @@
+import type { NextFunction, Request, Response } from "express";
+import { ZodError, type ZodIssue } from "zod";
+import type { ErrorResponse } from "@shared/api";
+import { isMessage, localizeIssue, translate, type MessageParams } from "./i18n";
+import { logger } from "./logger";
+
+// Errors thrown by route handlers and middleware. errorHandler turns them into
+// the JSON error body every route answers with: a machine-readable code, the
+// message in the caller's language, and the request id to quote when
+// reporting a problem. Anything that is not an ApiError is a 500.
+
+export interface ApiErrorOptions {
+  // Overrides the code of the error class, e.g. "image_unreadable"
+  code?: string;
+  // Values for the placeholders of a message from messages.ts
+  params?: MessageParams;
+  // Extra fields of the response body
+  details?: Record<string, unknown>;
+}
+
+export class ApiError extends Error {
+  readonly code: string;
+  readonly params?: MessageParams;
+  readonly details?: Record<string, unknown>;
+
+  constructor(readonly status: number, defaultCode: string, message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = options.code ?? defaultCode;
+    this.params = options.params;
+    this.details = options.details;
+  }
+}
+
+// 400; errors lists the failed validation issues, or plain strings for
+// problems found outside a schema, such as an unusable serial format
+export class ValidationError extends ApiError {
+  constructor(
+    message = "Invalid request data",
+    readonly errors: (ZodIssue | string)[] = [],
+    options?: ApiErrorOptions,
+  ) {
+    super(400, "invalid_request", message, options);
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(401, "unauthorized", message, options);
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(403, "forbidden", message, options);
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(404, "not_found", message, options);
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(409, "conflict", message, options);
+  }
+}
+
+export class PayloadTooLargeError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(413, "payload_too_large", message, options);
+  }
+}
+
+export class UnsupportedMediaTypeError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(415, "unsupported_media_type", message, options);
+  }
+}
+
+// 422: the request was well-formed but its content could not be processed
+export class UnprocessableError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(422, "unprocessable", message, options);
+  }
+}
+
+// 429; the rate limiter sets Retry-After before throwing this
+export class RateLimitedError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(429, "rate_limited", message, options);
+  }
+}
+
+// Errors from body-parser carry a status and a type
+function isBodyParserError(error: unknown): error is Error & { status: number; type: string } {
+  return error instanceof Error && typeof (error as { status?: unknown }).status === "number"
+    && typeof (error as { type?: unknown }).type === "string";
+}
+
+function toApiError(error: unknown): ApiError | undefined {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (error instanceof ZodError) {
+    return new ValidationError("Invalid request data", error.errors);
+  }
+  if (isBodyParserError(error) && error.status < 500) {
+    if (error.type === "entity.too.large") {
+      return new PayloadTooLargeError("Request body too large");
+    }
+    return new ValidationError(error.type === "entity.parse.failed" ? "Malformed JSON body" : error.message);
+  }
+  return undefined;
+}
+
+function translated(req: Request, message: string, params?: MessageParams): string {
+  return isMessage(message) ? translate(req.locale, message, params) : message;
+}
+
+// Last middleware of the app: answers with the error body, and logs errors
+// that are not the client's fault along with their stack
+export function errorHandler(error: unknown, req: Request, res: Response, next: NextFunction) {
+  const log = req.log ?? logger;
+
+  // Once streaming has started the status line is gone; cut the response short instead
+  if (res.headersSent) {
+    log.error("Response aborted", { method: req.method, path: req.path, error });
+    res.destroy();
+    return;
+  }
+
+  const apiError = toApiError(error);
+  const body: ErrorResponse = apiError
+    ? {
+        ...apiError.details,
+        code: apiError.code,
+        message: translated(req, apiError.message, apiError.params),
+        requestId: req.requestId,
+      }
+    : {
+        code: "internal_error",
+        message: translated(req, "Internal server error"),
+        requestId: req.requestId,
+      };
+
+  if (apiError instanceof ValidationError && apiError.errors.length > 0) {
+    // Issues are sent with every field Zod gives them, e.g. `expected` and `received`
+    body.errors = apiError.errors.map(issue => (typeof issue === "string" ? issue : { ...localizeIssue(issue, req.locale) }));
+  }
+  if (!apiError) {
+    log.error("Unhandled error", { method: req.method, path: req.path, error });
+  }
+
+  res.status(apiError?.status ?? 500).json(body);
+}
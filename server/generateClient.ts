@@ -0,0 +1,62 @@
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
+import openapiTS, { astToString } from "openapi-typescript";
+import ts from "typescript";
+import { buildOpenApiDocument } from "./openapi";
+
+// Writes the OpenAPI document and the types generated from it into
+// packages/api-client. Run after changing a route or a schema in shared/api.ts.
+//
+//   npm run openapi:generate -- [--check]
+//
+// --check writes nothing and fails when the committed files are out of date.
+
+const PACKAGE_DIR = path.resolve(import.meta.dirname, "..", "packages", "api-client");
+
+// Uploads are typed as Blob rather than the string the spec format implies
+const BLOB = ts.factory.createTypeReferenceNode("Blob");
+
+const HEADER = "// Generated by `npm run openapi:generate` from server/openapi.ts; do not edit.\n\n";
+
+async function readIfExists(file: string): Promise<string | undefined> {
+  try {
+    return await readFile(file, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+(async () => {
+  const check = process.argv.slice(2).includes("--check");
+  const document = buildOpenApiDocument();
+
+  const files: Record<string, string> = {
+    "openapi.json": `${JSON.stringify(document, null, 2)}\n`,
+    "src/schema.ts": HEADER + astToString(await openapiTS(JSON.parse(JSON.stringify(document)), {
+      transform: schema => (schema.format === "binary" ? BLOB : undefined),
+    })),
+  };
+
+  const stale: string[] = [];
+  for (const [name, content] of Object.entries(files)) {
+    const file = path.join(PACKAGE_DIR, name);
+    if ((await readIfExists(file)) === content) {
+      continue;
+    }
+
+    stale.push(name);
+    if (!check) {
+      await writeFile(file, content);
+    }
+  }
+
+  if (check && stale.length > 0) {
+    console.error(`Out of date: ${stale.join(", ")}; run npm run openapi:generate`);
+    process.exit(1);
+  }
+  console.log(stale.length > 0 && !check ? `Updated ${stale.join(", ")}` : "API client is up to date");
+  process.exit(0);
+})().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,138 @@
+import type { Response } from "express";
+import type { VerificationLog } from "@shared/schema";
+import type { HistoryItem } from "@shared/api";
+
+export type HistorySort = "newest" | "oldest";
+
+// Position after the last row of a page; rows are ordered by (timestamp, id)
+export interface HistoryCursor {
+  timestamp: Date;
+  id: number;
+}
+
+export interface VerificationLogQuery {
+  tenantId?: number;
+  countryId?: number;
+  denominationId?: number;
+  isAuthentic?: boolean;
+  serialPrefix?: string;
+  // Inclusive lower and exclusive upper bound on the verification timestamp
+  from?: Date;
+  to?: Date;
+  sort: HistorySort;
+  limit: number;
+  cursor?: HistoryCursor;
+}
+
+// A log row with the catalog codes needed to read it without further lookups
+export type VerificationLogRecord = VerificationLog & {
+  countryCode: string;
+  denomination: string;
+};
+
+export function encodeCursor(record: VerificationLogRecord): string {
+  return Buffer.from(JSON.stringify({ t: record.timestamp.toISOString(), id: record.id })).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): HistoryCursor | undefined {
+  try {
+    const { t, id } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    const timestamp = new Date(t);
+    if (typeof id !== "number" || Number.isNaN(timestamp.getTime())) {
+      return undefined;
+    }
+    return { timestamp, id };
+  } catch {
+    return undefined;
+  }
+}
+
+// Whether a record comes after the cursor in the requested sort order
+export function isAfterCursor(record: VerificationLog, cursor: HistoryCursor, sort: HistorySort): boolean {
+  const diff = record.timestamp.getTime() - cursor.timestamp.getTime() || record.id - cursor.id;
+  return sort === "newest" ? diff < 0 : diff > 0;
+}
+
+export function compareRecords(a: VerificationLog, b: VerificationLog, sort: HistorySort): number {
+  const diff = a.timestamp.getTime() - b.timestamp.getTime() || a.id - b.id;
+  return sort === "newest" ? -diff : diff;
+}
+
+export function toHistoryItem(record: VerificationLogRecord): HistoryItem {
+  return {
+    id: record.id,
+    timestamp: record.timestamp.toISOString(),
+    tenantId: record.tenantId,
+    countryCode: record.countryCode,
+    denomination: record.denomination,
+    serialNumber: record.serialNumber,
+    normalizedSerial: record.normalizedSerial,
+    isAuthentic: record.isAuthentic,
+    formatValid: record.formatValid,
+    lengthValid: record.lengthValid,
+    knownCounterfeit: record.knownCounterfeit,
+    repeatedSighting: record.repeatedSighting,
+    failedRules: record.failedRules,
+    offlineId: record.offlineId,
+    uploadedAt: record.uploadedAt?.toISOString() ?? null,
+  };
+}
+
+const CSV_COLUMNS: (keyof HistoryItem)[] = [
+  "id",
+  "timestamp",
+  "tenantId",
+  "countryCode",
+  "denomination",
+  "serialNumber",
+  "normalizedSerial",
+  "isAuthentic",
+  "formatValid",
+  "lengthValid",
+  "knownCounterfeit",
+  "repeatedSighting",
+  "failedRules",
+  "offlineId",
+  "uploadedAt",
+];
+
+function csvField(value: string | number | boolean | string[] | null): string {
+  let text = Array.isArray(value) ? value.join(";") : String(value ?? "");
+  // Serials are user input; keep spreadsheets from evaluating them as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export type ExportFormat = "csv" | "ndjson";
+
+export function exportHeader(format: ExportFormat): string {
+  return format === "csv" ? `${CSV_COLUMNS.join(",")}\n` : "";
+}
+
+export function exportLine(record: VerificationLogRecord, format: ExportFormat): string {
+  const item = toHistoryItem(record);
+  if (format === "ndjson") {
+    return `${JSON.stringify(item)}\n`;
+  }
+  return `${CSV_COLUMNS.map(column => csvField(item[column])).join(",")}\n`;
+}
+
+// Writes a chunk, waiting for the socket to drain when its buffer is full
+export async function writeChunk(res: Response, chunk: string): Promise<void> {
+  if (!res.write(chunk)) {
+    await new Promise<void>((resolve, reject) => {
+      const onDrain = () => {
+        res.off("close", onClose);
+        resolve();
+      };
+      const onClose = () => {
+        res.off("drain", onDrain);
+        reject(new Error("Client closed the connection"));
+      };
+      res.once("drain", onDrain);
+      res.once("close", onClose);
+    });
+  }
+}
@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { negotiateLocale, translate } from "./i18n";
+
+test("a supported lang parameter wins over Accept-Language", () => {
+  assert.equal(negotiateLocale("fr", "ja"), "fr");
+  assert.equal(negotiateLocale("pt-BR", undefined), "pt");
+  // Anything else falls through to the header
+  assert.equal(negotiateLocale("de", "ja"), "ja");
+  assert.equal(negotiateLocale(["fr"], "ja"), "ja");
+});
+
+test("Accept-Language ranges are tried from the highest quality down", () => {
+  assert.equal(negotiateLocale(undefined, "de;q=0.9, es;q=0.8, fr;q=0.5"), "es");
+  assert.equal(negotiateLocale(undefined, "fr;q=0.5, ja"), "ja");
+  // Equal qualities keep the order they were sent in
+  assert.equal(negotiateLocale(undefined, "ta, si"), "ta");
+  // Regional tags and scripts use their base language
+  assert.equal(negotiateLocale(undefined, "zh-Hant-TW"), "zh");
+});
+
+test("wildcards, q=0 and unsupported languages fall back to English", () => {
+  assert.equal(negotiateLocale(undefined, undefined), "en");
+  assert.equal(negotiateLocale(undefined, ""), "en");
+  assert.equal(negotiateLocale(undefined, "*"), "en");
+  assert.equal(negotiateLocale(undefined, "es;q=0, de"), "en");
+  assert.equal(negotiateLocale(undefined, "es;q=0, *;q=0.5, fr;q=0.1"), "fr");
+});
+
+test("messages are translated with their placeholders filled in", () => {
+  assert.equal(translate("es", "Series not found"), "Serie no encontrada");
+  assert.equal(translate(undefined, "Series not found"), "Series not found");
+  assert.equal(translate("en", "{count} characters", { count: 11 }), "11 characters");
+});
@@ -0,0 +1,187 @@
+import type { NextFunction, Request, Response } from "express";
+import type { ZodIssue } from "zod";
+import {
+  SUPPORTED_LOCALES,
+  type BanknoteSeries,
+  type Country,
+  type Denomination,
+  type Locale,
+  type Translations,
+} from "@shared/schema";
+import type { CountryResponse, DenominationResponse, SeriesResponse } from "@shared/api";
+import { MESSAGES, type Message } from "./messages";
+
+// Language of the public API responses: picked per request from the `lang`
+// query parameter or the Accept-Language header, English when neither names a
+// supported language. Catalog entries carry their own translations; everything
+// else the API says is looked up in messages.ts.
+
+export type { Message };
+
+declare global {
+  namespace Express {
+    interface Request {
+      locale?: Locale;
+    }
+  }
+}
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export type MessageParams = Record<string, string | number>;
+
+// A message to be translated once the response language is known
+export interface LocalizedMessage {
+  message: Message;
+  params?: MessageParams;
+}
+
+// "pt-BR" and "zh-Hant-TW" are served in Portuguese and Chinese
+function matchLocale(tag: string): Locale | undefined {
+  const primary = tag.trim().toLowerCase().split("-")[0];
+  return SUPPORTED_LOCALES.find(locale => locale === primary);
+}
+
+// A supported `lang` wins, then the Accept-Language ranges from the highest
+// quality down; wildcards and ranges with q=0 are skipped
+export function negotiateLocale(lang: unknown, acceptLanguage: string | undefined): Locale {
+  if (typeof lang === "string") {
+    const requested = matchLocale(lang);
+    if (requested) {
+      return requested;
+    }
+  }
+
+  const ranges = (acceptLanguage ?? "")
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.split(";").map(piece => piece.trim());
+      const quality = params.find(param => param.startsWith("q="));
+      return { tag, quality: quality ? Number(quality.slice(2)) : 1, index };
+    })
+    .filter(range => range.tag && range.tag !== "*" && range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const range of ranges) {
+    const locale = matchLocale(range.tag);
+    if (locale) {
+      return locale;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+// Sets req.locale, and tells caches that responses differ by language
+export function resolveLocale(req: Request, res: Response, next: NextFunction) {
+  req.locale = negotiateLocale(req.query.lang, req.get("accept-language"));
+  res.set("Content-Language", req.locale);
+  res.vary("Accept-Language");
+  next();
+}
+
+export function isMessage(text: string): text is Message {
+  return Object.prototype.hasOwnProperty.call(MESSAGES, text);
+}
+
+// The message in the locale, with its placeholders filled in
+export function translate(locale: Locale | undefined, message: Message, params: MessageParams = {}): string {
+  const translations: Partial<Record<Locale, string>> = MESSAGES[message];
+  const text = (locale && translations[locale]) || message;
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder,
+  );
+}
+
+// The translation of a catalog field, or its stored English text
+export function localize<Field extends string>(
+  translations: Translations<Field>,
+  locale: Locale | undefined,
+  field: Field,
+  fallback: string,
+): string {
+  return (locale && translations[locale]?.[field]) || fallback;
+}
+
+// Catalog entries as returned by the public API: translated fields in place
+// of the English ones, without the translations themselves
+export function toCountryResponse(country: Country, locale: Locale | undefined): CountryResponse {
+  const { translations, ...rest } = country;
+  return { ...rest, name: localize(translations, locale, "name", country.name) };
+}
+
+export function toDenominationResponse(denomination: Denomination, locale: Locale | undefined): DenominationResponse {
+  const { translations, ...rest } = denomination;
+  return {
+    ...rest,
+    displayName: localize(translations, locale, "displayName", denomination.displayName),
+    patternDescription: localize(translations, locale, "patternDescription", denomination.patternDescription),
+  };
+}
+
+export function toSeriesResponse(series: BanknoteSeries, locale: Locale | undefined): SeriesResponse {
+  const { translations, ...rest } = series;
+  return {
+    ...rest,
+    patternDescription: localize(translations, locale, "patternDescription", series.patternDescription),
+  };
+}
+
+function boundMessage(issue: Extract<ZodIssue, { code: "too_small" | "too_big" }>): LocalizedMessage | undefined {
+  const count = Number(issue.code === "too_small" ? issue.minimum : issue.maximum);
+  const atLeast = issue.code === "too_small";
+  switch (issue.type) {
+    case "string":
+      if (issue.exact) {
+        return { message: "Must be exactly {count} characters long", params: { count } };
+      }
+      return {
+        message: atLeast ? "Must be at least {count} characters long" : "Must be at most {count} characters long",
+        params: { count },
+      };
+    case "array":
+      return {
+        message: atLeast ? "Must contain at least {count} items" : "Must contain at most {count} items",
+        params: { count },
+      };
+    case "number":
+      if (issue.inclusive) {
+        return { message: atLeast ? "Must be at least {count}" : "Must be at most {count}", params: { count } };
+      }
+      return { message: atLeast ? "Must be greater than {count}" : "Must be less than {count}", params: { count } };
+    default:
+      return undefined;
+  }
+}
+
+// Zod's English text for the issues the public request schemas produce.
+// Messages given in a schema are translated when messages.ts knows them.
+function issueMessage(issue: ZodIssue): LocalizedMessage | undefined {
+  switch (issue.code) {
+    case "invalid_type":
+      return issue.received === "undefined"
+        ? { message: "Required" }
+        : { message: "Expected {expected}, received {received}", params: { expected: issue.expected, received: issue.received } };
+    case "too_small":
+    case "too_big":
+      return boundMessage(issue);
+    case "invalid_enum_value":
+      return { message: "Expected one of {options}", params: { options: issue.options.join(", ") } };
+    case "invalid_date":
+      return { message: "Invalid date" };
+    case "invalid_union":
+      return { message: "Invalid input" };
+    default:
+      return isMessage(issue.message) ? { message: issue.message } : undefined;
+  }
+}
+
+// A validation issue with its message in the locale; the issue code and path
+// are left as they are for clients that handle errors programmatically
+export function localizeIssue(issue: ZodIssue, locale: Locale | undefined): ZodIssue {
+  if (!locale || locale === DEFAULT_LOCALE) {
+    return issue;
+  }
+
+  const localized = issueMessage(issue);
+  return localized ? { ...issue, message: translate(locale, localized.message, localized.params) } : issue;
+}
@@ -1,51 +1,33 @@
-import express, { type Request, Response, NextFunction } from "express";
+import express from "express";
 import { registerRoutes } from "./routes";
-import { setupVite, serveStatic, log } from "./vite";
+import { setupVite, serveStatic } from "./vite";
+import { errorHandler } from "./errors";
+import { logger, requestLogger } from "./logger";
+import { positiveIntFromEnv } from "./rateLimit";
+import { storage } from "./storage";
+import { closeConnectionsWhenDraining, handleShutdown, onShutdown } from "./shutdown";
 
 const app = express();
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
-
-app.use((req, res, next) => {
-  const start = Date.now();
-  const path = req.path;
-  let capturedJsonResponse: Record<string, any> | undefined = undefined;
-
-  const originalResJson = res.json;
-  res.json = function (bodyJson, ...args) {
-    capturedJsonResponse = bodyJson;
-    return originalResJson.apply(res, [bodyJson, ...args]);
-  };
 
-  res.on("finish", () => {
-    const duration = Date.now() - start;
-    if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
+// Behind a load balancer (e.g. on Render) req.ip must come from X-Forwarded-For
+// for the per-client rate limits to work; set this to the number of proxies
+const trustedProxies = Number(process.env.TRUST_PROXY_HOPS ?? 0);
+if (trustedProxies > 0) {
+  app.set("trust proxy", trustedProxies);
+}
 
-      if (logLine.length > 80) {
-        logLine = logLine.slice(0, 79) + "…";
-      }
+// Request ids and structured request logs; first, so every response carries an id
+app.use(requestLogger);
+app.use(closeConnectionsWhenDraining);
 
-      log(logLine);
-    }
-  });
-
-  next();
-});
+app.use(express.json());
+app.use(express.urlencoded({ extended: false }));
 
 (async () => {
   const server = await registerRoutes(app);
 
-  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
-    const status = err.status || err.statusCode || 500;
-    const message = err.message || "Internal Server Error";
-
-    res.status(status).json({ message });
-    throw err;
-  });
+  // Turns errors from any route into the JSON error body and logs unexpected ones
+  app.use(errorHandler);
 
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
@@ -56,15 +38,24 @@ app.use((req, res, next) => {
     serveStatic(app);
   }
 
-  // ALWAYS serve the app on port 5000
-  // this serves both the API and the client.
-  // It is the only port that is not firewalled.
-  const port = 5000;
+  // Closed last, once the background jobs registered by registerRoutes are done with it
+  onShutdown("storage", () => storage.close());
+  handleShutdown(server, {
+    delayMs: positiveIntFromEnv("SHUTDOWN_DELAY_SECONDS", 0) * 1000,
+    timeoutMs: positiveIntFromEnv("SHUTDOWN_TIMEOUT_SECONDS", 25) * 1000,
+  });
+
+  // Serves both the API and the client; PORT and HOST are usually set by the host
+  const port = positiveIntFromEnv("PORT", 5000);
+  const host = process.env.HOST || "0.0.0.0";
   server.listen({
     port,
-    host: "0.0.0.0",
+    host,
     reusePort: true,
   }, () => {
-    log(`serving on port ${port}`);
+    logger.info("Server listening", { port, host });
   });
-})();
+})().catch(error => {
+  logger.error("Server failed to start", { error });
+  process.exit(1);
+});
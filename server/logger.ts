@@ -0,0 +1,114 @@
+import { randomUUID } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+
+// Structured logs: one JSON object per line, with the level, the message and
+// any fields passed along. LOG_LEVEL (debug, info, warn, error) sets the
+// lowest level written; info by default.
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export type LogFields = Record<string, unknown>;
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+      log?: Logger;
+    }
+  }
+}
+
+function levelFromEnv(): LogLevel {
+  const level = process.env.LOG_LEVEL?.toLowerCase();
+  return LOG_LEVELS.find(candidate => candidate === level) ?? "info";
+}
+
+// Errors do not survive JSON.stringify; their name, message and stack do
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+export class Logger {
+  constructor(private bindings: LogFields = {}, private level: LogLevel = levelFromEnv()) {}
+
+  // A logger that adds the given fields to every line, e.g. a request id
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...fields }, this.level);
+  }
+
+  debug(message: string, fields?: LogFields) {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.write("error", message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level)) {
+      return;
+    }
+
+    const entry: LogFields = { time: new Date().toISOString(), level, message, ...this.bindings };
+    Object.keys(fields).forEach(key => {
+      entry[key] = serialize(fields[key]);
+    });
+    const line = `${JSON.stringify(entry)}\n`;
+    if (level === "error") {
+      process.stderr.write(line);
+    } else {
+      process.stdout.write(line);
+    }
+  }
+}
+
+export const logger = new Logger();
+
+// Request ids supplied by a proxy or client are kept when they look sane
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Gives each request an id, returned in X-Request-Id and added to its log
+// lines, and logs every API request once it completes
+export function requestLogger(req: Request, res: Response, next: NextFunction) {
+  const start = Date.now();
+  const supplied = req.get("x-request-id");
+  req.requestId = supplied && REQUEST_ID_PATTERN.test(supplied) ? supplied : randomUUID();
+  req.log = logger.child({ requestId: req.requestId });
+  res.set("X-Request-Id", req.requestId);
+
+  res.on("finish", () => {
+    if (!req.originalUrl.startsWith("/api")) {
+      return;
+    }
+
+    const fields = {
+      method: req.method,
+      path: req.path,
+      status: res.statusCode,
+      durationMs: Date.now() - start,
+      tenantId: req.principal?.tenantId ?? undefined,
+    };
+    if (res.statusCode >= 500) {
+      req.log!.error("Request failed", fields);
+    } else if (res.statusCode >= 400) {
+      req.log!.warn("Request rejected", fields);
+    } else {
+      req.log!.info("Request completed", fields);
+    }
+  });
+
+  next();
+}
@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { InsertOfflineVerificationLog } from "@shared/schema";
+import { MemStorage } from "./memStorage";
+
+function offlineLog(tenantId: number | null, offlineId: string): InsertOfflineVerificationLog {
+  return {
+    countryId: 1,
+    denominationId: 1,
+    tenantId,
+    serialNumber: "AB12345678",
+    isAuthentic: true,
+    formatValid: true,
+    lengthValid: true,
+    offlineId,
+    timestamp: new Date("2026-03-01T09:30:00Z"),
+  };
+}
+
+test("offline ids are unique per tenant", async () => {
+  const storage = new MemStorage();
+  const offlineId = "7d3f6c1e-1b7a-4f57-9a55-3f0f5c1d2e90";
+
+  const first = await storage.createOfflineVerificationLogs([offlineLog(1, offlineId)]);
+  const second = await storage.createOfflineVerificationLogs([offlineLog(2, offlineId)]);
+  assert.equal(first.length, 1);
+  assert.equal(second.length, 1);
+  assert.notEqual(first[0].id, second[0].id);
+
+  // Uploading again is a no-op for each tenant, and for anonymous uploads
+  assert.deepEqual(await storage.createOfflineVerificationLogs([offlineLog(1, offlineId), offlineLog(2, offlineId)]), []);
+  assert.equal((await storage.createOfflineVerificationLogs([offlineLog(null, offlineId)])).length, 1);
+  assert.deepEqual(await storage.createOfflineVerificationLogs([offlineLog(null, offlineId)]), []);
+});
+
+test("sightings count the tenants and the window asked for", async () => {
+  const storage = new MemStorage();
+  const at = (tenantId: number | null, offlineId: string, timestamp: string) =>
+    ({ ...offlineLog(tenantId, offlineId), normalizedSerial: "AB12345678", timestamp: new Date(timestamp) });
+  await storage.createOfflineVerificationLogs([
+    at(1, "a", "2026-01-01T09:00:00Z"),
+    at(1, "b", "2026-03-01T09:00:00Z"),
+    at(2, "c", "2026-03-02T09:00:00Z"),
+    at(null, "d", "2026-03-03T09:00:00Z"),
+  ]);
+
+  // Anonymous verifications are counted, but not as a tenant
+  assert.deepEqual(await storage.getSerialSightings(1, "AB12345678"), {
+    count: 4,
+    tenants: 2,
+    firstSeenAt: new Date("2026-01-01T09:00:00Z"),
+    lastSeenAt: new Date("2026-03-03T09:00:00Z"),
+  });
+  assert.deepEqual(await storage.getSerialSightings(1, "AB12345678", new Date("2026-03-02T00:00:00Z")), {
+    count: 2,
+    tenants: 1,
+    firstSeenAt: new Date("2026-03-02T09:00:00Z"),
+    lastSeenAt: new Date("2026-03-03T09:00:00Z"),
+  });
+  assert.equal((await storage.getSerialSightings(2, "AB12345678")).count, 0);
+});
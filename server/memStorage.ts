@@ -0,0 +1,690 @@
+import {
+  type Country,
+  type Denomination,
+  type BanknoteSeries,
+  type CatalogEntity,
+  type VerificationLog,
+  type FlaggedSerial,
+  type AbuseEvent,
+  type Tenant,
+  type ApiKey,
+  type InsertCountry,
+  type InsertDenomination,
+  type UpdateCountry,
+  type UpdateDenomination,
+  type InsertBanknoteSeries,
+  type UpdateBanknoteSeries,
+  type InsertVerificationLog,
+  type InsertOfflineVerificationLog,
+  type InsertFlaggedSerial,
+  type InsertAbuseEvent,
+  type InsertTenant,
+  type UpdateTenant,
+  type InsertApiKey,
+  type UpdateApiKey,
+  type Webhook,
+  type WebhookDelivery,
+  type InsertWebhook,
+  type UpdateWebhook,
+  type InsertWebhookDelivery,
+  type UpdateWebhookDelivery,
+  type Alert,
+  type InsertAlert
+} from "@shared/schema";
+import type {
+  AbuseEventFilter,
+  AlertFilter,
+  CatalogChangeSet,
+  CatalogQueryOptions,
+  FlaggedSerialFilter,
+  IStorage,
+  SerialSightings,
+  WebhookDeliveryFilter,
+  WebhookFilter,
+} from "./storage";
+import {
+  periodStart,
+  summarizeTally,
+  type VerificationStats,
+  type VerificationStatsFilter,
+  type VerificationTally,
+} from "./stats";
+import {
+  compareRecords,
+  isAfterCursor,
+  type VerificationLogQuery,
+  type VerificationLogRecord,
+} from "./history";
+import { seedInitialData } from "./seed";
+import { resolveCountryCode } from "./countryCodes";
+import { findAnomalyClustersInLogs, type AnomalyCluster, type AnomalyQuery } from "./anomalies";
+
+// In-memory IStorage used for local development and offline integration tests.
+// Data lives for the lifetime of the process only.
+export class MemStorage implements IStorage {
+  private countries = new Map<number, Country>();
+  private denominations = new Map<number, Denomination>();
+  private series = new Map<number, BanknoteSeries>();
+  // The catalog version is the number of changes recorded
+  private catalogChanges: { entity: CatalogEntity; entityId: number }[] = [];
+  private catalogSyncs: number[] = [];
+  private verificationLogs = new Map<number, VerificationLog>();
+  private flaggedSerials = new Map<number, FlaggedSerial>();
+  private abuseEvents = new Map<number, AbuseEvent>();
+  private tenants = new Map<number, Tenant>();
+  private apiKeys = new Map<number, ApiKey>();
+  private webhooks = new Map<number, Webhook>();
+  private webhookDeliveries = new Map<number, WebhookDelivery>();
+  private alerts = new Map<number, Alert>();
+  private nextId = {
+    country: 1,
+    denomination: 1,
+    series: 1,
+    verificationLog: 1,
+    flaggedSerial: 1,
+    abuseEvent: 1,
+    tenant: 1,
+    apiKey: 1,
+    webhook: 1,
+    webhookDelivery: 1,
+    alert: 1,
+  };
+
+  async getCountries(options: CatalogQueryOptions = {}): Promise<Country[]> {
+    return Array.from(this.countries.values()).filter(
+      country => options.includeInactive || country.isActive,
+    );
+  }
+
+  async getCountryByCode(code: string): Promise<Country | undefined> {
+    return Array.from(this.countries.values()).find(country => country.code === code.toUpperCase());
+  }
+
+  async resolveCountry(code: string): Promise<Country | undefined> {
+    return resolveCountryCode(Array.from(this.countries.values()), code);
+  }
+
+  async createCountry(insertCountry: InsertCountry): Promise<Country> {
+    if (await this.getCountryByCode(insertCountry.code)) {
+      throw new Error(`Country with code "${insertCountry.code}" already exists`);
+    }
+
+    const country: Country = {
+      ...insertCountry,
+      kind: insertCountry.kind ?? "country",
+      members: insertCountry.members ?? [],
+      translations: insertCountry.translations ?? {},
+      isActive: insertCountry.isActive ?? true,
+      id: this.nextId.country++,
+    };
+    this.countries.set(country.id, country);
+    this.catalogChanges.push({ entity: "country", entityId: country.id });
+    return country;
+  }
+
+  async updateCountry(id: number, update: UpdateCountry): Promise<Country | undefined> {
+    const existing = this.countries.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const country: Country = { ...existing, ...update };
+    this.countries.set(id, country);
+    this.catalogChanges.push({ entity: "country", entityId: country.id });
+    return country;
+  }
+
+  async getDenominations(options: CatalogQueryOptions = {}): Promise<Denomination[]> {
+    return Array.from(this.denominations.values()).filter(
+      denomination => options.includeInactive || denomination.isActive,
+    );
+  }
+
+  async getDenominationsByCountry(countryId: number, options: CatalogQueryOptions = {}): Promise<Denomination[]> {
+    return Array.from(this.denominations.values()).filter(
+      denomination =>
+        denomination.countryId === countryId && (options.includeInactive || denomination.isActive),
+    );
+  }
+
+  async getDenomination(countryId: number, value: string): Promise<Denomination | undefined> {
+    return Array.from(this.denominations.values()).find(
+      denomination => denomination.countryId === countryId && denomination.value === value,
+    );
+  }
+
+  async getDenominationById(id: number): Promise<Denomination | undefined> {
+    return this.denominations.get(id);
+  }
+
+  async createDenomination(insertDenomination: InsertDenomination): Promise<Denomination> {
+    const denomination: Denomination = {
+      ...insertDenomination,
+      serialRules: insertDenomination.serialRules ?? null,
+      normalization: insertDenomination.normalization ?? null,
+      translations: insertDenomination.translations ?? {},
+      isActive: insertDenomination.isActive ?? true,
+      id: this.nextId.denomination++,
+    };
+    this.denominations.set(denomination.id, denomination);
+    this.catalogChanges.push({ entity: "denomination", entityId: denomination.id });
+    return denomination;
+  }
+
+  async updateDenomination(id: number, update: UpdateDenomination): Promise<Denomination | undefined> {
+    const existing = this.denominations.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const denomination: Denomination = { ...existing, ...update };
+    this.denominations.set(id, denomination);
+    this.catalogChanges.push({ entity: "denomination", entityId: denomination.id });
+    return denomination;
+  }
+
+  async getSeries(options: CatalogQueryOptions = {}): Promise<BanknoteSeries[]> {
+    return Array.from(this.series.values()).filter(series => options.includeInactive || series.isActive);
+  }
+
+  async getSeriesByDenomination(denominationId: number, options: CatalogQueryOptions = {}): Promise<BanknoteSeries[]> {
+    return Array.from(this.series.values()).filter(
+      series => series.denominationId === denominationId && (options.includeInactive || series.isActive),
+    );
+  }
+
+  async getSeriesById(id: number): Promise<BanknoteSeries | undefined> {
+    return this.series.get(id);
+  }
+
+  async createSeries(insertSeries: InsertBanknoteSeries): Promise<BanknoteSeries> {
+    const series: BanknoteSeries = {
+      ...insertSeries,
+      issuedOn: insertSeries.issuedOn ?? null,
+      withdrawnOn: insertSeries.withdrawnOn ?? null,
+      serialRules: insertSeries.serialRules ?? null,
+      legalTenderStatus: insertSeries.legalTenderStatus ?? "legal_tender",
+      translations: insertSeries.translations ?? {},
+      isActive: insertSeries.isActive ?? true,
+      id: this.nextId.series++,
+    };
+    this.series.set(series.id, series);
+    this.catalogChanges.push({ entity: "series", entityId: series.id });
+    return series;
+  }
+
+  async updateSeries(id: number, update: UpdateBanknoteSeries): Promise<BanknoteSeries | undefined> {
+    const existing = this.series.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const series: BanknoteSeries = { ...existing, ...update };
+    this.series.set(id, series);
+    this.catalogChanges.push({ entity: "series", entityId: series.id });
+    return series;
+  }
+
+  async getCatalogVersion(): Promise<number> {
+    return this.catalogChanges.length;
+  }
+
+  async getCatalogChanges(since: number): Promise<CatalogChangeSet> {
+    const changed = this.catalogChanges.slice(since);
+    const idsOf = (entity: CatalogEntity) =>
+      new Set(changed.filter(change => change.entity === entity).map(change => change.entityId));
+    const [countryIds, denominationIds, seriesIds] = [idsOf("country"), idsOf("denomination"), idsOf("series")];
+    return {
+      version: this.catalogChanges.length,
+      countries: Array.from(this.countries.values()).filter(country => countryIds.has(country.id)),
+      denominations: Array.from(this.denominations.values()).filter(denomination => denominationIds.has(denomination.id)),
+      series: Array.from(this.series.values()).filter(series => seriesIds.has(series.id)),
+    };
+  }
+
+  async getAppliedCatalogVersion(): Promise<number | undefined> {
+    return this.catalogSyncs[this.catalogSyncs.length - 1];
+  }
+
+  async recordCatalogSync(version: number): Promise<void> {
+    this.catalogSyncs.push(version);
+  }
+
+  async createVerificationLog(insertLog: InsertVerificationLog): Promise<VerificationLog> {
+    const log: VerificationLog = {
+      ...insertLog,
+      knownCounterfeit: insertLog.knownCounterfeit ?? false,
+      repeatedSighting: insertLog.repeatedSighting ?? false,
+      seriesId: insertLog.seriesId ?? null,
+      tenantId: insertLog.tenantId ?? null,
+      normalizedSerial: insertLog.normalizedSerial ?? null,
+      failedRules: insertLog.failedRules ?? [],
+      offlineId: insertLog.offlineId ?? null,
+      uploadedAt: insertLog.uploadedAt ?? null,
+      id: this.nextId.verificationLog++,
+      timestamp: new Date(),
+    };
+    this.verificationLogs.set(log.id, log);
+    return log;
+  }
+
+  async createVerificationLogs(insertLogs: InsertVerificationLog[]): Promise<VerificationLog[]> {
+    const logs: VerificationLog[] = [];
+    for (const insertLog of insertLogs) {
+      logs.push(await this.createVerificationLog(insertLog));
+    }
+    return logs;
+  }
+
+  async createOfflineVerificationLogs(insertLogs: InsertOfflineVerificationLog[]): Promise<VerificationLog[]> {
+    // Offline ids are unique per tenant, as in the Postgres store
+    const keyOf = (log: { tenantId?: number | null; offlineId: string | null }) => `${log.tenantId ?? ""}:${log.offlineId}`;
+    const stored = new Set(Array.from(this.verificationLogs.values()).map(keyOf));
+    const logs: VerificationLog[] = [];
+    for (const insertLog of insertLogs) {
+      if (stored.has(keyOf(insertLog))) {
+        continue;
+      }
+
+      const log = { ...(await this.createVerificationLog(insertLog)), timestamp: insertLog.timestamp };
+      this.verificationLogs.set(log.id, log);
+      stored.add(keyOf(log));
+      logs.push(log);
+    }
+    return logs;
+  }
+
+  async getVerificationStats(filter: VerificationStatsFilter = {}): Promise<VerificationStats> {
+    const interval = filter.interval ?? "day";
+    const logs = Array.from(this.verificationLogs.values()).filter(log =>
+      (filter.tenantId === undefined || log.tenantId === filter.tenantId) &&
+      (filter.countryId === undefined || log.countryId === filter.countryId) &&
+      (filter.denominationId === undefined || log.denominationId === filter.denominationId) &&
+      (!filter.from || log.timestamp >= filter.from) &&
+      (!filter.to || log.timestamp < filter.to),
+    );
+
+    const tallyBy = (key: (log: VerificationLog) => string | number) => {
+      const groups = new Map<string | number, VerificationTally>();
+      for (const log of logs) {
+        const tally = groups.get(key(log)) ?? emptyTally();
+        addToTally(tally, log);
+        groups.set(key(log), tally);
+      }
+      return Array.from(groups.entries()).sort((a, b) => b[1].totalVerified - a[1].totalVerified);
+    };
+
+    const totals = emptyTally();
+    logs.forEach(log => addToTally(totals, log));
+
+    return {
+      ...summarizeTally(totals),
+      interval,
+      byCountry: tallyBy(log => log.countryId).map(([countryId, tally]) => {
+        const country = this.countries.get(countryId as number);
+        return { countryCode: country?.code ?? "", country: country?.name ?? "", ...summarizeTally(tally) };
+      }),
+      byDenomination: tallyBy(log => log.denominationId).map(([denominationId, tally]) => {
+        const denomination = this.denominations.get(denominationId as number);
+        const country = denomination && this.countries.get(denomination.countryId);
+        return {
+          countryCode: country?.code ?? "",
+          denomination: denomination?.value ?? "",
+          displayName: denomination?.displayName ?? "",
+          ...summarizeTally(tally),
+        };
+      }),
+      byPeriod: tallyBy(log => periodStart(log.timestamp, interval))
+        .sort((a, b) => String(a[0]).localeCompare(String(b[0])))
+        .map(([period, tally]) => ({ period: period as string, ...summarizeTally(tally) })),
+    };
+  }
+
+  async getVerificationLogs(query: VerificationLogQuery): Promise<VerificationLogRecord[]> {
+    return Array.from(this.verificationLogs.values())
+      .filter(log =>
+        (query.tenantId === undefined || log.tenantId === query.tenantId) &&
+        (query.countryId === undefined || log.countryId === query.countryId) &&
+        (query.denominationId === undefined || log.denominationId === query.denominationId) &&
+        (query.isAuthentic === undefined || log.isAuthentic === query.isAuthentic) &&
+        (!query.serialPrefix || log.serialNumber.startsWith(query.serialPrefix)) &&
+        (!query.from || log.timestamp >= query.from) &&
+        (!query.to || log.timestamp < query.to) &&
+        (!query.cursor || isAfterCursor(log, query.cursor, query.sort)),
+      )
+      .sort((a, b) => compareRecords(a, b, query.sort))
+      .slice(0, query.limit)
+      .map(log => this.toRecord(log));
+  }
+
+  async getVerificationLogsByIds(ids: number[]): Promise<VerificationLogRecord[]> {
+    return Array.from(new Set(ids))
+      .sort((a, b) => a - b)
+      .map(id => this.verificationLogs.get(id))
+      .filter((log): log is VerificationLog => log !== undefined)
+      .map(log => this.toRecord(log));
+  }
+
+  async getSerialSightings(denominationId: number, normalizedSerial: string, since?: Date): Promise<SerialSightings> {
+    const logs = Array.from(this.verificationLogs.values()).filter(log =>
+      log.denominationId === denominationId &&
+      log.normalizedSerial === normalizedSerial &&
+      (!since || log.timestamp >= since),
+    );
+    const tenants = new Set(logs.map(log => log.tenantId).filter(tenantId => tenantId !== null));
+    const times = logs.map(log => log.timestamp.getTime());
+
+    return {
+      count: logs.length,
+      tenants: tenants.size,
+      firstSeenAt: logs.length > 0 ? new Date(Math.min(...times)) : null,
+      lastSeenAt: logs.length > 0 ? new Date(Math.max(...times)) : null,
+    };
+  }
+
+  private toRecord(log: VerificationLog): VerificationLogRecord {
+    return {
+      ...log,
+      countryCode: this.countries.get(log.countryId)?.code ?? "",
+      denomination: this.denominations.get(log.denominationId)?.value ?? "",
+    };
+  }
+
+  async getFlaggedSerials(filter: FlaggedSerialFilter = {}): Promise<FlaggedSerial[]> {
+    return Array.from(this.flaggedSerials.values())
+      .filter(entry =>
+        (filter.countryId === undefined || entry.countryId === filter.countryId) &&
+        (filter.denominationId === undefined || entry.denominationId === filter.denominationId),
+      )
+      .sort((a, b) => b.dateAdded.getTime() - a.dateAdded.getTime());
+  }
+
+  async getFlaggedSerial(denominationId: number, serialNumber: string): Promise<FlaggedSerial | undefined> {
+    return Array.from(this.flaggedSerials.values()).find(
+      entry => entry.denominationId === denominationId && entry.serialNumber === serialNumber,
+    );
+  }
+
+  async findFlaggedSerials(denominationId: number, serialNumbers: string[]): Promise<FlaggedSerial[]> {
+    const wanted = new Set(serialNumbers);
+    return Array.from(this.flaggedSerials.values()).filter(
+      entry => entry.denominationId === denominationId && wanted.has(entry.serialNumber),
+    );
+  }
+
+  async createFlaggedSerials(entries: InsertFlaggedSerial[]): Promise<FlaggedSerial[]> {
+    const created: FlaggedSerial[] = [];
+    for (const insertEntry of entries) {
+      if (await this.getFlaggedSerial(insertEntry.denominationId, insertEntry.serialNumber)) {
+        continue;
+      }
+
+      const entry: FlaggedSerial = {
+        ...insertEntry,
+        id: this.nextId.flaggedSerial++,
+        dateAdded: new Date(),
+      };
+      this.flaggedSerials.set(entry.id, entry);
+      created.push(entry);
+    }
+    return created;
+  }
+
+  async deleteFlaggedSerial(id: number): Promise<boolean> {
+    return this.flaggedSerials.delete(id);
+  }
+
+  async getTenants(): Promise<Tenant[]> {
+    return Array.from(this.tenants.values());
+  }
+
+  async getTenant(id: number): Promise<Tenant | undefined> {
+    return this.tenants.get(id);
+  }
+
+  async getTenantByName(name: string): Promise<Tenant | undefined> {
+    return Array.from(this.tenants.values()).find(tenant => tenant.name === name);
+  }
+
+  async createTenant(insertTenant: InsertTenant): Promise<Tenant> {
+    if (await this.getTenantByName(insertTenant.name)) {
+      throw new Error(`Tenant "${insertTenant.name}" already exists`);
+    }
+
+    const tenant: Tenant = {
+      ...insertTenant,
+      isActive: insertTenant.isActive ?? true,
+      repeatSightingThreshold: insertTenant.repeatSightingThreshold ?? null,
+      repeatSightingWindowDays: insertTenant.repeatSightingWindowDays ?? null,
+      id: this.nextId.tenant++,
+      createdAt: new Date(),
+    };
+    this.tenants.set(tenant.id, tenant);
+    return tenant;
+  }
+
+  async updateTenant(id: number, update: UpdateTenant): Promise<Tenant | undefined> {
+    const existing = this.tenants.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const tenant: Tenant = { ...existing, ...update };
+    this.tenants.set(id, tenant);
+    return tenant;
+  }
+
+  async getApiKeysByTenant(tenantId: number): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values()).filter(apiKey => apiKey.tenantId === tenantId);
+  }
+
+  async getApiKeyById(id: number): Promise<ApiKey | undefined> {
+    return this.apiKeys.get(id);
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find(apiKey => apiKey.keyHash === keyHash);
+  }
+
+  async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
+    const apiKey: ApiKey = {
+      ...insertApiKey,
+      expiresAt: insertApiKey.expiresAt ?? null,
+      revokedAt: insertApiKey.revokedAt ?? null,
+      id: this.nextId.apiKey++,
+      createdAt: new Date(),
+    };
+    this.apiKeys.set(apiKey.id, apiKey);
+    return apiKey;
+  }
+
+  async updateApiKey(id: number, update: UpdateApiKey): Promise<ApiKey | undefined> {
+    const existing = this.apiKeys.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const apiKey: ApiKey = { ...existing, ...update };
+    this.apiKeys.set(id, apiKey);
+    return apiKey;
+  }
+
+  async createAbuseEvent(insertEvent: InsertAbuseEvent): Promise<AbuseEvent> {
+    const event: AbuseEvent = {
+      ...insertEvent,
+      countryId: insertEvent.countryId ?? null,
+      denominationId: insertEvent.denominationId ?? null,
+      serialNumber: insertEvent.serialNumber ?? null,
+      id: this.nextId.abuseEvent++,
+      timestamp: new Date(),
+    };
+    this.abuseEvents.set(event.id, event);
+    return event;
+  }
+
+  async getAbuseEvents(filter: AbuseEventFilter): Promise<AbuseEvent[]> {
+    return Array.from(this.abuseEvents.values())
+      .filter(event =>
+        (!filter.kind || event.kind === filter.kind) &&
+        (!filter.from || event.timestamp >= filter.from) &&
+        (!filter.to || event.timestamp < filter.to),
+      )
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime() || b.id - a.id)
+      .slice(0, filter.limit);
+  }
+
+  async getWebhooks(filter: WebhookFilter = {}): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values()).filter(webhook =>
+      (filter.tenantId === undefined || webhook.tenantId === filter.tenantId) &&
+      (!filter.activeOnly || webhook.isActive),
+    );
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    return this.webhooks.get(id);
+  }
+
+  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
+    const webhook: Webhook = {
+      ...insertWebhook,
+      tenantId: insertWebhook.tenantId ?? null,
+      countryId: insertWebhook.countryId ?? null,
+      denominationId: insertWebhook.denominationId ?? null,
+      suspiciousOnly: insertWebhook.suspiciousOnly ?? true,
+      burstThreshold: insertWebhook.burstThreshold ?? null,
+      burstWindowSeconds: insertWebhook.burstWindowSeconds ?? null,
+      isActive: insertWebhook.isActive ?? true,
+      id: this.nextId.webhook++,
+      createdAt: new Date(),
+    };
+    this.webhooks.set(webhook.id, webhook);
+    return webhook;
+  }
+
+  async updateWebhook(id: number, update: UpdateWebhook): Promise<Webhook | undefined> {
+    const existing = this.webhooks.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const webhook: Webhook = { ...existing, ...update };
+    this.webhooks.set(id, webhook);
+    return webhook;
+  }
+
+  async createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    return deliveries.map(insertDelivery => {
+      const delivery: WebhookDelivery = {
+        ...insertDelivery,
+        status: insertDelivery.status ?? "pending",
+        attempts: insertDelivery.attempts ?? 0,
+        nextAttemptAt: insertDelivery.nextAttemptAt ?? null,
+        lastStatusCode: insertDelivery.lastStatusCode ?? null,
+        lastError: insertDelivery.lastError ?? null,
+        deliveredAt: insertDelivery.deliveredAt ?? null,
+        id: this.nextId.webhookDelivery++,
+        createdAt: new Date(),
+      };
+      this.webhookDeliveries.set(delivery.id, delivery);
+      return delivery;
+    });
+  }
+
+  async updateWebhookDelivery(id: number, update: UpdateWebhookDelivery): Promise<WebhookDelivery | undefined> {
+    const existing = this.webhookDeliveries.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const delivery: WebhookDelivery = { ...existing, ...update };
+    this.webhookDeliveries.set(id, delivery);
+    return delivery;
+  }
+
+  async getWebhookDeliveries(filter: WebhookDeliveryFilter): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery =>
+        delivery.webhookId === filter.webhookId &&
+        (!filter.status || delivery.status === filter.status),
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, filter.limit);
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.status === "pending" && delivery.nextAttemptAt !== null && delivery.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime() || a.id - b.id)
+      .slice(0, limit);
+  }
+
+  async findAnomalyClusters(query: AnomalyQuery): Promise<AnomalyCluster[]> {
+    const records = Array.from(this.verificationLogs.values())
+      .filter(log => log.timestamp >= query.from && log.timestamp < query.to)
+      .map(log => this.toRecord(log));
+    return findAnomalyClustersInLogs(records, query.thresholds);
+  }
+
+  async upsertAlerts(insertAlerts: InsertAlert[]): Promise<Alert[]> {
+    const existing = new Map<string, Alert>();
+    this.alerts.forEach(alert => existing.set(alert.fingerprint, alert));
+
+    return insertAlerts.map(insertAlert => {
+      const previous = existing.get(insertAlert.fingerprint);
+      const alert: Alert = {
+        ...insertAlert,
+        tenantIds: insertAlert.tenantIds ?? [],
+        details: insertAlert.details ?? {},
+        id: previous?.id ?? this.nextId.alert++,
+        createdAt: previous?.createdAt ?? new Date(),
+      };
+      this.alerts.set(alert.id, alert);
+      existing.set(alert.fingerprint, alert);
+      return alert;
+    });
+  }
+
+  async getAlerts(filter: AlertFilter): Promise<Alert[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert =>
+        (filter.tenantId === undefined || alert.tenantIds.includes(filter.tenantId)) &&
+        (!filter.kind || alert.kind === filter.kind) &&
+        (!filter.severity || alert.severity === filter.severity) &&
+        (filter.countryId === undefined || alert.countryId === filter.countryId) &&
+        (filter.denominationId === undefined || alert.denominationId === filter.denominationId) &&
+        (!filter.from || alert.lastSeenAt >= filter.from) &&
+        (!filter.to || alert.lastSeenAt < filter.to),
+      )
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime() || b.id - a.id)
+      .slice(0, filter.limit);
+  }
+
+  async seedInitialData(): Promise<void> {
+    await seedInitialData(this);
+  }
+
+  // Nothing to reach or release in process memory
+  async ping(): Promise<void> {}
+
+  async close(): Promise<void> {}
+}
+
+function emptyTally(): VerificationTally {
+  return { totalVerified: 0, authentic: 0, formatFailures: 0, lengthFailures: 0, knownCounterfeit: 0 };
+}
+
+function addToTally(tally: VerificationTally, log: VerificationLog) {
+  tally.totalVerified++;
+  if (log.isAuthentic) {
+    tally.authentic++;
+  }
+  if (!log.formatValid) {
+    tally.formatFailures++;
+  }
+  if (!log.lengthValid) {
+    tally.lengthFailures++;
+  }
+  if (log.knownCounterfeit) {
+    tally.knownCounterfeit++;
+  }
+}
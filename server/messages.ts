@@ -0,0 +1,400 @@
+import type { Locale } from "@shared/schema";
+
+// Translations of the messages the public API sends, keyed by their English
+// text. "{name}" placeholders are filled in by translate() in i18n.ts and must
+// be kept as they are; messages missing from a language fall back to English.
+
+type MessageTranslations = Partial<Record<Exclude<Locale, "en">, string>>;
+
+export const MESSAGES = {
+  // Route errors
+  "Invalid request data": {
+    es: "Datos de solicitud no válidos",
+    fr: "Données de requête invalides",
+    ja: "リクエストデータが無効です",
+    pt: "Dados da solicitação inválidos",
+    si: "ඉල්ලීමේ දත්ත වලංගු නැත",
+    ta: "கோரிக்கை தரவு தவறானது",
+    zh: "请求数据无效",
+  },
+  "Country not found": {
+    es: "País no encontrado",
+    fr: "Pays introuvable",
+    ja: "国が見つかりません",
+    pt: "País não encontrado",
+    si: "රට හමු නොවීය",
+    ta: "நாடு கண்டுபிடிக்கப்படவில்லை",
+    zh: "未找到国家/地区",
+  },
+  "Denomination not found": {
+    es: "Denominación no encontrada",
+    fr: "Coupure introuvable",
+    ja: "額面が見つかりません",
+    pt: "Valor de cédula não encontrado",
+    si: "නෝට්ටු වර්ගය හමු නොවීය",
+    ta: "நோட்டு மதிப்பு கண்டுபிடிக்கப்படவில்லை",
+    zh: "未找到面额",
+  },
+  "Series not found": {
+    es: "Serie no encontrada",
+    fr: "Série introuvable",
+    ja: "シリーズが見つかりません",
+    pt: "Série não encontrada",
+    si: "ශ්‍රේණිය හමු නොවීය",
+    ta: "வரிசை கண்டுபிடிக்கப்படவில்லை",
+    zh: "未找到系列",
+  },
+  "Country or denomination not found": {
+    es: "País o denominación no encontrados",
+    fr: "Pays ou coupure introuvable",
+    ja: "国または額面が見つかりません",
+    pt: "País ou valor de cédula não encontrado",
+    si: "රට හෝ නෝට්ටු වර්ගය හමු නොවීය",
+    ta: "நாடு அல்லது நோட்டு மதிப்பு கண்டுபிடிக்கப்படவில்லை",
+    zh: "未找到国家/地区或面额",
+  },
+  "Internal server error": {
+    es: "Error interno del servidor",
+    fr: "Erreur interne du serveur",
+    ja: "サーバー内部エラー",
+    pt: "Erro interno do servidor",
+    si: "අභ්‍යන්තර සේවාදායක දෝෂයකි",
+    ta: "சேவையக உள் பிழை",
+    zh: "服务器内部错误",
+  },
+  "Malformed JSON body": {
+    es: "El cuerpo JSON está mal formado",
+    fr: "Corps JSON mal formé",
+    ja: "JSON 本文の形式が正しくありません",
+    pt: "Corpo JSON malformado",
+    si: "JSON අන්තර්ගතය වැරදි ආකෘතියකින් යුක්තයි",
+    ta: "JSON உள்ளடக்கம் தவறான வடிவில் உள்ளது",
+    zh: "JSON 请求体格式错误",
+  },
+  "Request body too large": {
+    es: "El cuerpo de la solicitud es demasiado grande",
+    fr: "Corps de la requête trop volumineux",
+    ja: "リクエスト本文が大きすぎます",
+    pt: "Corpo da solicitação grande demais",
+    si: "ඉල්ලීමේ අන්තර්ගතය ඉතා විශාලයි",
+    ta: "கோரிக்கை உள்ளடக்கம் மிகப் பெரியது",
+    zh: "请求体过大",
+  },
+  "Route not found": {
+    es: "Ruta no encontrada",
+    fr: "Route introuvable",
+    ja: "ルートが見つかりません",
+    pt: "Rota não encontrada",
+    si: "මාර්ගය හමු නොවීය",
+    ta: "பாதை கண்டுபிடிக்கப்படவில்லை",
+    zh: "未找到路由",
+  },
+
+  "Send the photo as multipart/form-data in the \"image\" field": {
+    es: "Envíe la foto como multipart/form-data en el campo \"image\"",
+    fr: "Envoyez la photo en multipart/form-data dans le champ \"image\"",
+    ja: "写真は multipart/form-data の \"image\" フィールドで送信してください",
+    pt: "Envie a foto como multipart/form-data no campo \"image\"",
+    si: "ඡායාරූපය multipart/form-data ලෙස \"image\" ක්ෂේත්‍රයේ යවන්න",
+    ta: "புகைப்படத்தை multipart/form-data ஆக \"image\" புலத்தில் அனுப்பவும்",
+    zh: "请以 multipart/form-data 格式在 \"image\" 字段中发送照片",
+  },
+  "Unsupported image type; use one of {types}": {
+    es: "Tipo de imagen no compatible; use uno de estos: {types}",
+    fr: "Type d'image non pris en charge ; utilisez l'un des types suivants : {types}",
+    ja: "対応していない画像形式です。次のいずれかを使用してください: {types}",
+    pt: "Tipo de imagem não suportado; use um destes: {types}",
+    si: "සහාය නොදක්වන රූප වර්ගයකි; මේවායින් එකක් භාවිත කරන්න: {types}",
+    ta: "ஆதரிக்கப்படாத பட வகை; இவற்றில் ஒன்றைப் பயன்படுத்தவும்: {types}",
+    zh: "不支持的图片类型；请使用以下类型之一：{types}",
+  },
+  "File too large": {
+    es: "El archivo es demasiado grande",
+    fr: "Le fichier est trop volumineux",
+    ja: "ファイルが大きすぎます",
+    pt: "O arquivo é grande demais",
+    si: "ගොනුව ඉතා විශාලයි",
+    ta: "கோப்பு மிகப் பெரியது",
+    zh: "文件过大",
+  },
+  "Could not read the image": {
+    es: "No se pudo leer la imagen",
+    fr: "Impossible de lire l'image",
+    ja: "画像を読み取れませんでした",
+    pt: "Não foi possível ler a imagem",
+    si: "රූපය කියවීමට නොහැකි විය",
+    ta: "படத்தைப் படிக்க முடியவில்லை",
+    zh: "无法读取图片",
+  },
+  "No serial number matching a known format was found in the image": {
+    es: "No se encontró en la imagen ningún número de serie con un formato conocido",
+    fr: "Aucun numéro de série au format connu n'a été trouvé dans l'image",
+    ja: "画像から既知の形式に一致する記番号が見つかりませんでした",
+    pt: "Nenhum número de série em um formato conhecido foi encontrado na imagem",
+    si: "දන්නා ආකෘතියකට ගැළපෙන අනුක්‍රමික අංකයක් රූපයේ හමු නොවීය",
+    ta: "அறியப்பட்ட வடிவத்துடன் பொருந்தும் வரிசை எண் படத்தில் கண்டுபிடிக்கப்படவில்லை",
+    zh: "未在图片中找到符合已知格式的冠字号码",
+  },
+  "Verification time is in the future": {
+    es: "La hora de la verificación está en el futuro",
+    fr: "L'heure de la vérification est dans le futur",
+    ja: "検証日時が未来になっています",
+    pt: "O horário da verificação está no futuro",
+    si: "සත්‍යාපන වේලාව අනාගතයේ ය",
+    ta: "சரிபார்ப்பு நேரம் எதிர்காலத்தில் உள்ளது",
+    zh: "验证时间晚于当前时间",
+  },
+  "Unknown catalog version; download the catalog bundle again": {
+    es: "Versión del catálogo desconocida; vuelva a descargar el paquete del catálogo",
+    fr: "Version du catalogue inconnue ; téléchargez à nouveau le paquet du catalogue",
+    ja: "不明なカタログバージョンです。カタログバンドルを再度ダウンロードしてください",
+    pt: "Versão do catálogo desconhecida; baixe o pacote do catálogo novamente",
+    si: "නොදන්නා නාමාවලි අනුවාදයකි; නාමාවලි පැකේජය නැවත බාගන්න",
+    ta: "அறியப்படாத பட்டியல் பதிப்பு; பட்டியல் தொகுப்பை மீண்டும் பதிவிறக்கவும்",
+    zh: "目录版本未知；请重新下载目录包",
+  },
+
+  // Authentication and rate limits
+  "Invalid or missing API key": {
+    es: "Clave de API no válida o ausente",
+    fr: "Clé d'API invalide ou manquante",
+    ja: "API キーが無効か、指定されていません",
+    pt: "Chave de API inválida ou ausente",
+    si: "API යතුර වලංගු නැත හෝ ලබා දී නැත",
+    ta: "API விசை தவறானது அல்லது வழங்கப்படவில்லை",
+    zh: "API 密钥无效或缺失",
+  },
+  "API key is not allowed to perform this action": {
+    es: "La clave de API no tiene permiso para realizar esta acción",
+    fr: "La clé d'API n'est pas autorisée à effectuer cette action",
+    ja: "この API キーではこの操作を実行できません",
+    pt: "A chave de API não tem permissão para realizar esta ação",
+    si: "මෙම ක්‍රියාව සිදු කිරීමට API යතුරට අවසර නැත",
+    ta: "இந்தச் செயலைச் செய்ய API விசைக்கு அனுமதி இல்லை",
+    zh: "该 API 密钥无权执行此操作",
+  },
+  "Too many requests, please try again later": {
+    es: "Demasiadas solicitudes; inténtelo de nuevo más tarde",
+    fr: "Trop de requêtes, veuillez réessayer plus tard",
+    ja: "リクエストが多すぎます。しばらくしてからもう一度お試しください",
+    pt: "Muitas solicitações; tente novamente mais tarde",
+    si: "ඉල්ලීම් ඕනෑවට වඩා වැඩියි; කරුණාකර පසුව නැවත උත්සාහ කරන්න",
+    ta: "அதிகமான கோரிக்கைகள்; பின்னர் மீண்டும் முயற்சிக்கவும்",
+    zh: "请求过多，请稍后再试",
+  },
+
+  // Verification warnings
+  "{series} notes have been demonetized and have no monetary value": {
+    es: "Los billetes de {series} han sido desmonetizados y no tienen valor monetario",
+    fr: "Les billets {series} ont été démonétisés et n'ont plus aucune valeur",
+    ja: "{series} の紙幣は廃貨となっており、貨幣価値はありません",
+    pt: "As cédulas da {series} foram desmonetizadas e não têm valor monetário",
+    si: "{series} නෝට්ටු අවලංගු කර ඇති අතර ඒවාට මුදල් වටිනාකමක් නැත",
+    ta: "{series} நோட்டுகள் செல்லாதவையாக அறிவிக்கப்பட்டுள்ளன, அவற்றுக்குப் பண மதிப்பு இல்லை",
+    zh: "{series}纸币已被废止，不具有货币价值",
+  },
+  "{series} notes have been withdrawn and are no longer legal tender; they can usually still be exchanged at the issuing bank": {
+    es: "Los billetes de {series} han sido retirados y ya no son de curso legal; normalmente aún pueden canjearse en el banco emisor",
+    fr: "Les billets {series} ont été retirés et n'ont plus cours légal ; ils peuvent généralement encore être échangés auprès de la banque émettrice",
+    ja: "{series} の紙幣は回収済みで、法定通貨ではなくなりました。通常は発行銀行で引き換えできます",
+    pt: "As cédulas da {series} foram recolhidas e não têm mais curso legal; normalmente ainda podem ser trocadas no banco emissor",
+    si: "{series} නෝට්ටු සංසරණයෙන් ඉවත් කර ඇති අතර තවදුරටත් නීත්‍යානුකූල මුදල් නොවේ; සාමාන්‍යයෙන් ඒවා නිකුත් කළ බැංකුවෙන් තවමත් මාරු කර ගත හැක",
+    ta: "{series} நோட்டுகள் திரும்பப் பெறப்பட்டுவிட்டன, இனி சட்டப்பூர்வ நாணயம் அல்ல; பொதுவாக வெளியிட்ட வங்கியில் இன்னும் மாற்றிக்கொள்ளலாம்",
+    zh: "{series}纸币已被收回，不再是法定货币；通常仍可在发行银行兑换",
+  },
+  "{series} notes have been withdrawn and are no longer legal tender since {date}; they can usually still be exchanged at the issuing bank": {
+    es: "Los billetes de {series} fueron retirados y no son de curso legal desde el {date}; normalmente aún pueden canjearse en el banco emisor",
+    fr: "Les billets {series} ont été retirés et n'ont plus cours légal depuis le {date} ; ils peuvent généralement encore être échangés auprès de la banque émettrice",
+    ja: "{series} の紙幣は回収済みで、{date} から法定通貨ではなくなりました。通常は発行銀行で引き換えできます",
+    pt: "As cédulas da {series} foram recolhidas e não têm curso legal desde {date}; normalmente ainda podem ser trocadas no banco emissor",
+    si: "{series} නෝට්ටු සංසරණයෙන් ඉවත් කර ඇති අතර {date} සිට නීත්‍යානුකූල මුදල් නොවේ; සාමාන්‍යයෙන් ඒවා නිකුත් කළ බැංකුවෙන් තවමත් මාරු කර ගත හැක",
+    ta: "{series} நோட்டுகள் திரும்பப் பெறப்பட்டுவிட்டன, {date} முதல் சட்டப்பூர்வ நாணயம் அல்ல; பொதுவாக வெளியிட்ட வங்கியில் இன்னும் மாற்றிக்கொள்ளலாம்",
+    zh: "{series}纸币已被收回，自 {date} 起不再是法定货币；通常仍可在发行银行兑换",
+  },
+  "{series} notes will be withdrawn on {date}": {
+    es: "Los billetes de {series} serán retirados el {date}",
+    fr: "Les billets {series} seront retirés le {date}",
+    ja: "{series} の紙幣は {date} に回収されます",
+    pt: "As cédulas da {series} serão recolhidas em {date}",
+    si: "{series} නෝට්ටු {date} දින සංසරණයෙන් ඉවත් කෙරේ",
+    ta: "{series} நோட்டுகள் {date} அன்று திரும்பப் பெறப்படும்",
+    zh: "{series}纸币将于 {date} 收回",
+  },
+  "This serial number has already been verified {count} times": {
+    es: "Este número de serie ya se ha verificado {count} veces",
+    fr: "Ce numéro de série a déjà été vérifié {count} fois",
+    ja: "この記番号はすでに {count} 回検証されています",
+    pt: "Este número de série já foi verificado {count} vezes",
+    si: "මෙම අනුක්‍රමික අංකය දැනටමත් {count} වරක් සත්‍යාපනය කර ඇත",
+    ta: "இந்த வரிசை எண் ஏற்கனவே {count} முறை சரிபார்க்கப்பட்டுள்ளது",
+    zh: "该冠字号码已被验证 {count} 次",
+  },
+
+  // Serial rule descriptions
+  "{count} characters": {
+    es: "{count} caracteres",
+    fr: "{count} caractères",
+    ja: "{count} 文字",
+    pt: "{count} caracteres",
+    si: "අක්ෂර {count}",
+    ta: "{count} எழுத்துகள்",
+    zh: "{count} 个字符",
+  },
+  "Starts with one of {prefixes}": {
+    es: "Empieza por uno de: {prefixes}",
+    fr: "Commence par l'un des préfixes : {prefixes}",
+    ja: "{prefixes} のいずれかで始まる",
+    pt: "Começa com um destes: {prefixes}",
+    si: "{prefixes} යන ඒවායින් එකකින් ආරම්භ වේ",
+    ta: "{prefixes} இவற்றில் ஒன்றில் தொடங்குகிறது",
+    zh: "以 {prefixes} 之一开头",
+  },
+  "Euro check digit": {
+    es: "Dígito de control del euro",
+    fr: "Chiffre de contrôle de l'euro",
+    ja: "ユーロのチェックディジット",
+    pt: "Dígito verificador do euro",
+    si: "යුරෝ පරීක්ෂණ අංකය",
+    ta: "யூரோ சரிபார்ப்பு இலக்கம்",
+    zh: "欧元校验位",
+  },
+
+  // Validation errors, see localizeIssue()
+  "Required": {
+    es: "Obligatorio",
+    fr: "Obligatoire",
+    ja: "必須です",
+    pt: "Obrigatório",
+    si: "අනිවාර්යයි",
+    ta: "கட்டாயம்",
+    zh: "必填",
+  },
+  "Expected {expected}, received {received}": {
+    es: "Se esperaba {expected}, se recibió {received}",
+    fr: "{expected} attendu, {received} reçu",
+    ja: "{expected} を期待しましたが、{received} を受け取りました",
+    pt: "Esperado {expected}, recebido {received}",
+    si: "{expected} බලාපොරොත්තු විය, ලැබුණේ {received}",
+    ta: "{expected} எதிர்பார்க்கப்பட்டது, {received} பெறப்பட்டது",
+    zh: "应为 {expected}，实际收到 {received}",
+  },
+  "Must be at least {count} characters long": {
+    es: "Debe tener al menos {count} caracteres",
+    fr: "Doit contenir au moins {count} caractères",
+    ja: "{count} 文字以上で入力してください",
+    pt: "Deve ter pelo menos {count} caracteres",
+    si: "අවම වශයෙන් අක්ෂර {count}ක් තිබිය යුතුය",
+    ta: "குறைந்தது {count} எழுத்துகள் இருக்க வேண்டும்",
+    zh: "长度至少为 {count} 个字符",
+  },
+  "Must be at most {count} characters long": {
+    es: "Debe tener como máximo {count} caracteres",
+    fr: "Doit contenir au plus {count} caractères",
+    ja: "{count} 文字以内で入力してください",
+    pt: "Deve ter no máximo {count} caracteres",
+    si: "උපරිම වශයෙන් අක්ෂර {count}ක් තිබිය යුතුය",
+    ta: "அதிகபட்சம் {count} எழுத்துகள் இருக்கலாம்",
+    zh: "长度最多为 {count} 个字符",
+  },
+  "Must be exactly {count} characters long": {
+    es: "Debe tener exactamente {count} caracteres",
+    fr: "Doit contenir exactement {count} caractères",
+    ja: "ちょうど {count} 文字で入力してください",
+    pt: "Deve ter exatamente {count} caracteres",
+    si: "හරියටම අක්ෂර {count}ක් තිබිය යුතුය",
+    ta: "சரியாக {count} எழுத்துகள் இருக்க வேண்டும்",
+    zh: "长度必须为 {count} 个字符",
+  },
+  "Must contain at least {count} items": {
+    es: "Debe contener al menos {count} elementos",
+    fr: "Doit contenir au moins {count} éléments",
+    ja: "{count} 件以上指定してください",
+    pt: "Deve conter pelo menos {count} itens",
+    si: "අවම වශයෙන් අයිතම {count}ක් තිබිය යුතුය",
+    ta: "குறைந்தது {count} உருப்படிகள் இருக்க வேண்டும்",
+    zh: "至少包含 {count} 项",
+  },
+  "Must contain at most {count} items": {
+    es: "Debe contener como máximo {count} elementos",
+    fr: "Doit contenir au plus {count} éléments",
+    ja: "{count} 件以内で指定してください",
+    pt: "Deve conter no máximo {count} itens",
+    si: "උපරිම වශයෙන් අයිතම {count}ක් තිබිය හැක",
+    ta: "அதிகபட்சம் {count} உருப்படிகள் இருக்கலாம்",
+    zh: "最多包含 {count} 项",
+  },
+  "Must be at least {count}": {
+    es: "Debe ser como mínimo {count}",
+    fr: "Doit être supérieur ou égal à {count}",
+    ja: "{count} 以上にしてください",
+    pt: "Deve ser no mínimo {count}",
+    si: "අවම වශයෙන් {count} විය යුතුය",
+    ta: "குறைந்தது {count} ஆக இருக்க வேண்டும்",
+    zh: "必须大于或等于 {count}",
+  },
+  "Must be at most {count}": {
+    es: "Debe ser como máximo {count}",
+    fr: "Doit être inférieur ou égal à {count}",
+    ja: "{count} 以下にしてください",
+    pt: "Deve ser no máximo {count}",
+    si: "උපරිම වශයෙන් {count} විය යුතුය",
+    ta: "அதிகபட்சம் {count} ஆக இருக்க வேண்டும்",
+    zh: "必须小于或等于 {count}",
+  },
+  "Must be greater than {count}": {
+    es: "Debe ser mayor que {count}",
+    fr: "Doit être supérieur à {count}",
+    ja: "{count} より大きい値にしてください",
+    pt: "Deve ser maior que {count}",
+    si: "{count}ට වඩා වැඩි විය යුතුය",
+    ta: "{count} ஐ விட அதிகமாக இருக்க வேண்டும்",
+    zh: "必须大于 {count}",
+  },
+  "Must be less than {count}": {
+    es: "Debe ser menor que {count}",
+    fr: "Doit être inférieur à {count}",
+    ja: "{count} より小さい値にしてください",
+    pt: "Deve ser menor que {count}",
+    si: "{count}ට වඩා අඩු විය යුතුය",
+    ta: "{count} ஐ விட குறைவாக இருக்க வேண்டும்",
+    zh: "必须小于 {count}",
+  },
+  "Expected one of {options}": {
+    es: "Se esperaba uno de: {options}",
+    fr: "Valeur attendue parmi : {options}",
+    ja: "{options} のいずれかを指定してください",
+    pt: "Esperado um destes: {options}",
+    si: "{options} යන ඒවායින් එකක් බලාපොරොත්තු විය",
+    ta: "{options} இவற்றில் ஒன்று எதிர்பார்க்கப்பட்டது",
+    zh: "应为以下之一：{options}",
+  },
+  "Invalid input": {
+    es: "Entrada no válida",
+    fr: "Saisie invalide",
+    ja: "入力が無効です",
+    pt: "Entrada inválida",
+    si: "ආදානය වලංගු නැත",
+    ta: "உள்ளீடு தவறானது",
+    zh: "输入无效",
+  },
+  "Invalid date": {
+    es: "Fecha no válida",
+    fr: "Date invalide",
+    ja: "日付が無効です",
+    pt: "Data inválida",
+    si: "දිනය වලංගු නැත",
+    ta: "தேதி தவறானது",
+    zh: "日期无效",
+  },
+  "denomination requires countryCode": {
+    es: "denomination requiere countryCode",
+    fr: "denomination nécessite countryCode",
+    ja: "denomination を指定する場合は countryCode が必要です",
+    pt: "denomination exige countryCode",
+    si: "denomination සඳහා countryCode අවශ්‍යයි",
+    ta: "denomination க்கு countryCode தேவை",
+    zh: "指定 denomination 时必须提供 countryCode",
+  },
+} satisfies Record<string, MessageTranslations>;
+
+export type Message = keyof typeof MESSAGES;
@@ -0,0 +1,33 @@
+import { DatabaseStorage, storage } from "./storage";
+import { formatMigrations, runMigrations } from "./migrations";
+
+// Brings the database schema up to date and fills an empty catalog from
+// server/catalog/catalog.json. Run it before starting a new release; the
+// server does not change the schema or seed Postgres itself.
+//
+//   npm run db:migrate -- [--baseline]
+//
+// --baseline records the migrations as applied without running them, once,
+// for a database created before there were migrations.
+(async () => {
+  const args = process.argv.slice(2);
+
+  if (!(storage.inner instanceof DatabaseStorage)) {
+    console.error("Migrations run against Postgres; set DATABASE_URL or STORAGE_DRIVER=postgres");
+    process.exit(1);
+  }
+
+  const { db } = await import("./db");
+  const result = await runMigrations(db, { baseline: args.includes("--baseline") });
+  console.log(formatMigrations(result));
+
+  await storage.seedInitialData();
+  const countries = await storage.getCountries({ includeInactive: true });
+  console.log(`Catalog: ${countries.length} countries`);
+
+  await storage.close();
+  process.exit(0);
+})().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
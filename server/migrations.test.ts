@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { readMigrationFiles } from "drizzle-orm/migrator";
+import { formatMigrations, MIGRATIONS_FOLDER, runMigrations } from "./migrations";
+
+type Database = Parameters<typeof runMigrations>[0];
+
+const dialect = new PgDialect();
+const migrations = readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER });
+const tags = JSON.parse(fs.readFileSync(path.join(MIGRATIONS_FOLDER, "meta", "_journal.json"), "utf8"))
+  .entries.map((entry: { tag: string }) => entry.tag);
+
+// Answers the queries the baseline makes: which tables exist, the latest
+// recorded migration, and the statements recording the history
+function database(tables: string[], history: { hash: string; createdAt: number }[] = []) {
+  const existing = new Set(tables);
+  const execute = async (query: SQL) => {
+    const { sql, params } = dialect.sqlToQuery(query);
+    if (sql.includes("to_regclass")) {
+      return { rows: [{ exists: existing.has(String(params[0])) }] };
+    }
+    if (sql.includes("max(created_at)")) {
+      return { rows: [{ createdAt: history.length > 0 ? Math.max(...history.map(entry => entry.createdAt)) : null }] };
+    }
+    if (sql.includes("create table")) {
+      existing.add("drizzle.__drizzle_migrations");
+    }
+    if (sql.includes("insert into")) {
+      history.push({ hash: String(params[0]), createdAt: Number(params[1]) });
+    }
+    return { rows: [] };
+  };
+  return { db: { execute } as unknown as Database, history };
+}
+
+test("a database with tables but no migration history is refused", async () => {
+  const { db, history } = database(["public.countries"]);
+  await assert.rejects(runMigrations(db), /has tables but no migration history/);
+  assert.deepEqual(history, []);
+});
+
+test("a baseline records every migration as applied without running it", async () => {
+  const { db, history } = database(["public.countries"]);
+  const result = await runMigrations(db, { baseline: true });
+
+  assert.deepEqual(result, { applied: [], baselined: tags });
+  assert.deepEqual(history, migrations.map(migration => ({ hash: migration.hash, createdAt: migration.folderMillis })));
+  assert.equal(formatMigrations(result), tags.map((tag: string) => `Recorded as applied: ${tag}`).join("\n"));
+});
+
+test("a baseline is refused once there is a migration history", async () => {
+  const { db } = database(
+    ["public.countries", "drizzle.__drizzle_migrations"],
+    [{ hash: migrations[0].hash, createdAt: migrations[0].folderMillis }],
+  );
+  await assert.rejects(runMigrations(db, { baseline: true }), /only for a database that has tables but no migration history/);
+});
+
+test("every migration in the journal has its SQL file", () => {
+  assert.equal(migrations.length, tags.length);
+  for (const tag of tags) {
+    assert.ok(fs.existsSync(path.join(MIGRATIONS_FOLDER, `${tag}.sql`)), `${tag}.sql is missing`);
+  }
+  assert.equal(formatMigrations({ applied: [], baselined: [] }), "The database is up to date");
+});
@@ -0,0 +1,119 @@
+import fs from "fs";
+import path from "path";
+import { sql } from "drizzle-orm";
+import { readMigrationFiles } from "drizzle-orm/migrator";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+
+// Versioned schema migrations. The SQL files in migrations/ are generated from
+// shared/schema.ts with `npm run db:generate` and applied in order by
+// `npm run db:migrate`, which records each one in drizzle.__drizzle_migrations.
+
+type Database = typeof import("./db").db;
+
+export const MIGRATIONS_FOLDER = path.resolve(import.meta.dirname, "..", "migrations");
+
+// Where drizzle's migrator records the applied migrations
+const MIGRATIONS_SCHEMA = "drizzle";
+const MIGRATIONS_TABLE = "__drizzle_migrations";
+
+export interface MigrationOptions {
+  // Record every migration as applied without running it
+  baseline?: boolean;
+}
+
+export interface MigrationResult {
+  // Tags of the migrations run, e.g. "0000_initial"
+  applied: string[];
+  // Tags of the migrations recorded as applied by a baseline
+  baselined: string[];
+}
+
+interface JournalEntry {
+  when: number;
+  tag: string;
+}
+
+function readJournal(): JournalEntry[] {
+  const journal = JSON.parse(fs.readFileSync(path.join(MIGRATIONS_FOLDER, "meta", "_journal.json"), "utf8"));
+  return journal.entries;
+}
+
+async function tableExists(db: Database, name: string): Promise<boolean> {
+  const { rows } = await db.execute(sql`select to_regclass(${name}) is not null as "exists"`);
+  return Boolean(rows[0]?.exists);
+}
+
+// Creation time of the latest applied migration; undefined when none has been
+async function lastAppliedAt(db: Database): Promise<number | undefined> {
+  if (!await tableExists(db, `${MIGRATIONS_SCHEMA}.${MIGRATIONS_TABLE}`)) {
+    return undefined;
+  }
+  const { rows } = await db.execute(sql`
+    select max(created_at) as "createdAt"
+    from ${sql.identifier(MIGRATIONS_SCHEMA)}.${sql.identifier(MIGRATIONS_TABLE)}
+  `);
+  return rows[0]?.createdAt == null ? undefined : Number(rows[0].createdAt);
+}
+
+// Records the migrations the way drizzle's migrator does, without running them
+async function recordBaseline(db: Database) {
+  await db.execute(sql`create schema if not exists ${sql.identifier(MIGRATIONS_SCHEMA)}`);
+  await db.execute(sql`
+    create table if not exists ${sql.identifier(MIGRATIONS_SCHEMA)}.${sql.identifier(MIGRATIONS_TABLE)} (
+      id serial primary key,
+      hash text not null,
+      created_at bigint
+    )
+  `);
+  for (const migration of readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER })) {
+    await db.execute(sql`
+      insert into ${sql.identifier(MIGRATIONS_SCHEMA)}.${sql.identifier(MIGRATIONS_TABLE)} (hash, created_at)
+      values (${migration.hash}, ${migration.folderMillis})
+    `);
+  }
+}
+
+// Applies the migrations not applied yet, in one transaction.
+//
+// A database created before there were migrations (with drizzle-kit push)
+// already has the tables, so the first migration would fail on it. Such a
+// database is refused unless `baseline` is set, which records the migrations
+// as applied instead; bring its schema up to date with shared/schema.ts first.
+export async function runMigrations(db: Database, options: MigrationOptions = {}): Promise<MigrationResult> {
+  const journal = readJournal();
+  const lastApplied = await lastAppliedAt(db);
+
+  if (lastApplied === undefined && await tableExists(db, "public.countries")) {
+    if (!options.baseline) {
+      throw new Error(
+        "The database has tables but no migration history. Bring its schema up to date "
+        + "with shared/schema.ts, then run npm run db:migrate -- --baseline",
+      );
+    }
+    await recordBaseline(db);
+    return { applied: [], baselined: journal.map(entry => entry.tag) };
+  }
+  if (options.baseline) {
+    throw new Error("--baseline is only for a database that has tables but no migration history");
+  }
+
+  await migrate(db, {
+    migrationsFolder: MIGRATIONS_FOLDER,
+    migrationsSchema: MIGRATIONS_SCHEMA,
+    migrationsTable: MIGRATIONS_TABLE,
+  });
+  return {
+    applied: journal.filter(entry => lastApplied === undefined || entry.when > lastApplied).map(entry => entry.tag),
+    baselined: [],
+  };
+}
+
+export function formatMigrations(result: MigrationResult): string {
+  if (result.baselined.length > 0) {
+    return result.baselined.map(tag => `Recorded as applied: ${tag}`).join("\n");
+  }
+  if (result.applied.length === 0) {
+    return "The database is up to date";
+  }
+  return result.applied.map(tag => `Applied: ${tag}`).join("\n");
+}
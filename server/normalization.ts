@@ -0,0 +1,131 @@
+import type { Denomination, SerialNormalization } from "@shared/schema";
+import { compileSerialFormat, evaluateSerialRules, type SerialSpec } from "./serialRules";
+
+// Most serials have no spaces, so whitespace is stripped unless the format itself expects some
+function defaultNormalization(spec: SerialSpec): SerialNormalization {
+  const expectsWhitespace = /\\s| /.test(spec.serialFormat);
+  return { caseFolding: "upper", whitespace: expectsWhitespace ? "collapse" : "strip" };
+}
+
+// Canonicalises a serial as typed by the user according to the denomination's
+// settings. Without any, the format of `spec` decides, which is the series the
+// serial is checked against when the denomination has series.
+export function normalizeSerial(denomination: Denomination, serialNumber: string, spec: SerialSpec = denomination): string {
+  const normalization = denomination.normalization ?? defaultNormalization(spec);
+  let serial = serialNumber;
+
+  if (normalization.caseFolding === "upper") {
+    serial = serial.toUpperCase();
+  } else if (normalization.caseFolding === "lower") {
+    serial = serial.toLowerCase();
+  }
+
+  if (normalization.substitutions) {
+    const substitutions = normalization.substitutions;
+    serial = serial.split("").map(char => substitutions[char] ?? char).join("");
+  }
+
+  if (normalization.whitespace === "strip") {
+    serial = serial.replace(/\s+/g, "");
+    if (normalization.groups) {
+      // Insert from the right so earlier positions are not shifted
+      const positions = normalization.groups.filter(position => position < serial.length).sort((a, b) => b - a);
+      for (const position of positions) {
+        serial = `${serial.slice(0, position)} ${serial.slice(position)}`;
+      }
+    }
+  } else if (normalization.whitespace === "collapse") {
+    serial = serial.trim().replace(/\s+/g, " ");
+  }
+
+  return serial;
+}
+
+// Characters that are easily mistaken for one another when reading or typing a note
+const LOOKALIKES: Record<string, string[]> = {
+  O: ["0"],
+  Q: ["0", "O"],
+  D: ["0"],
+  "0": ["O", "D"],
+  I: ["1"],
+  L: ["1"],
+  "1": ["I", "L"],
+  Z: ["2"],
+  "2": ["Z"],
+  S: ["5"],
+  "5": ["S"],
+  B: ["8"],
+  "8": ["B"],
+  G: ["6"],
+  "6": ["G"],
+};
+
+// Upper bound on the number of "did you mean" candidates returned
+const MAX_SUGGESTIONS = 5;
+
+function passesAllRules(spec: SerialSpec, serial: string): boolean {
+  return evaluateSerialRules(spec, serial).every(result => result.passed);
+}
+
+// Variants of a normalised serial one, or failing that two if allowed,
+// lookalike substitutions away that satisfy `accept`
+function lookalikeVariants(
+  normalizedSerial: string,
+  accept: (serial: string) => boolean,
+  maxSubstitutions: 1 | 2,
+): string[] {
+  const chars = normalizedSerial.split("");
+  const positions = chars
+    .map((char, index) => ({ index, alternatives: LOOKALIKES[char] ?? [] }))
+    .filter(position => position.alternatives.length > 0);
+
+  const variants: string[] = [];
+  const consider = (candidate: string[]) => {
+    const serial = candidate.join("");
+    if (!variants.includes(serial) && accept(serial)) {
+      variants.push(serial);
+    }
+  };
+
+  for (const position of positions) {
+    for (const alternative of position.alternatives) {
+      const candidate = chars.slice();
+      candidate[position.index] = alternative;
+      consider(candidate);
+    }
+  }
+
+  // Only reach for two substitutions when a single one does not help
+  if (variants.length === 0 && maxSubstitutions === 2) {
+    for (let i = 0; i < positions.length && variants.length < MAX_SUGGESTIONS; i++) {
+      for (let j = i + 1; j < positions.length; j++) {
+        for (const first of positions[i].alternatives) {
+          for (const second of positions[j].alternatives) {
+            const candidate = chars.slice();
+            candidate[positions[i].index] = first;
+            candidate[positions[j].index] = second;
+            consider(candidate);
+          }
+        }
+      }
+    }
+  }
+
+  return variants.slice(0, MAX_SUGGESTIONS);
+}
+
+// Serials one or two lookalike substitutions away from the given normalised
+// serial that would pass every rule of the denomination or series
+export function suggestSerials(spec: SerialSpec, normalizedSerial: string): string[] {
+  return lookalikeVariants(normalizedSerial, serial => passesAllRules(spec, serial), 2);
+}
+
+// Reading of a serial taken from an image that fits the serialFormat, where
+// OCR confused letters and digits, e.g. "AAO1 123456" for "AA01 123456".
+// Only the format is checked, so a serial with e.g. a bad check digit is not
+// "corrected" into one that passes, and only one character is replaced since
+// with two, stray text fits the formats of unrelated notes too often.
+export function correctToFormat(spec: SerialSpec, normalizedSerial: string): string | undefined {
+  const pattern = compileSerialFormat(spec.serialFormat);
+  return lookalikeVariants(normalizedSerial, serial => pattern.test(serial), 1)[0];
+}
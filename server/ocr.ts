@@ -0,0 +1,127 @@
+import { createWorker, OEM, PSM, type Worker } from "tesseract.js";
+import eng from "@tesseract.js-data/eng";
+
+// Text recognition for photos of notes, using Tesseract compiled to
+// WebAssembly. The engine and the English model ship as npm packages, so
+// nothing is downloaded at runtime and recognition runs on the CPU.
+
+export interface OcrWord {
+  text: string;
+  // 0 to 1, as reported by the engine
+  confidence: number;
+}
+
+export interface OcrLine {
+  text: string;
+  confidence: number;
+  words: OcrWord[];
+}
+
+export interface OcrResult {
+  text: string;
+  confidence: number;
+  lines: OcrLine[];
+}
+
+// A string from the image that might be a serial number
+export interface SerialCandidate {
+  text: string;
+  // Confidence of the least certain word it was built from
+  confidence: number;
+}
+
+// Serials are printed as at most a few groups, e.g. "AA01 123456" or "B 03456781 C"
+const MAX_WORDS_PER_SERIAL = 4;
+const MIN_SERIAL_CHARS = 6;
+const MAX_SERIAL_CHARS = 20;
+
+let worker: Promise<Worker> | undefined;
+
+// One engine per process, started on first use; recognition jobs are queued on it
+function getWorker(): Promise<Worker> {
+  if (!worker) {
+    worker = (async () => {
+      const created = await createWorker(eng.code, OEM.LSTM_ONLY, {
+        langPath: eng.langPath,
+        gzip: eng.gzip,
+        // The model is read from node_modules; do not copy it into the working directory
+        cacheMethod: "none",
+        // Failed jobs reject their promise; without a handler the worker
+        // also throws the error, taking the process down
+        errorHandler: () => undefined,
+      });
+      // Notes are mostly empty space with short pieces of text scattered around
+      await created.setParameters({ tessedit_pageseg_mode: PSM.SPARSE_TEXT });
+      return created;
+    })();
+    worker.catch(() => {
+      worker = undefined;
+    });
+  }
+  return worker;
+}
+
+// Terminates the engine, if it was started; used on shutdown
+export async function stopOcr(): Promise<void> {
+  const current = worker;
+  worker = undefined;
+  const started = await current?.catch(() => undefined);
+  await started?.terminate();
+}
+
+function toConfidence(value: number): number {
+  return Math.round(value) / 100;
+}
+
+// Recognizes the text in an image (PNG, JPEG, WebP or BMP)
+export async function recognizeText(image: Buffer): Promise<OcrResult> {
+  const { data } = await (await getWorker()).recognize(image, {}, { text: true, blocks: true });
+
+  const lines: OcrLine[] = [];
+  for (const block of data.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        lines.push({
+          text: line.text.trim(),
+          confidence: toConfidence(line.confidence),
+          words: line.words.map(word => ({ text: word.text, confidence: toConfidence(word.confidence) })),
+        });
+      }
+    }
+  }
+  return { text: data.text.trim(), confidence: toConfidence(data.confidence), lines };
+}
+
+// Every run of adjacent words on a line that is long enough to be a serial.
+// Punctuation picked up from the note's design is dropped; the spacing
+// between words is kept for denominations whose serials contain spaces.
+export function extractSerialCandidates(result: OcrResult): SerialCandidate[] {
+  const candidates = new Map<string, number>();
+
+  for (const line of result.lines) {
+    const words = line.words
+      .map(word => ({ text: word.text.replace(/[^A-Za-z0-9]/g, ""), confidence: word.confidence }))
+      .filter(word => word.text.length > 0);
+
+    for (let start = 0; start < words.length; start++) {
+      for (let end = start + 1; end <= Math.min(words.length, start + MAX_WORDS_PER_SERIAL); end++) {
+        const run = words.slice(start, end);
+        const text = run.map(word => word.text).join(" ");
+        const length = text.replace(/ /g, "").length;
+        if (length > MAX_SERIAL_CHARS) {
+          break;
+        }
+        if (length < MIN_SERIAL_CHARS || !/\d/.test(text)) {
+          continue;
+        }
+
+        const confidence = Math.min(...run.map(word => word.confidence));
+        candidates.set(text, Math.max(candidates.get(text) ?? 0, confidence));
+      }
+    }
+  }
+
+  return Array.from(candidates.entries())
+    .map(([text, confidence]) => ({ text, confidence }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
@@ -0,0 +1,265 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import express from "express";
+import { registerRoutes } from "./routes";
+import { errorHandler } from "./errors";
+import { documentedResponse, documentedRoutes } from "./openapi";
+
+// Checks live responses against the OpenAPI document: the app runs on the
+// in-memory store, every documented route is called, and each response's
+// status, content type and body must be the ones documented for it.
+
+const ADMIN_KEY = "contract-test-admin-key";
+const admin = { "x-api-key": ADMIN_KEY };
+
+let server: Server;
+let baseUrl: string;
+const called = new Set<string>();
+
+before(async () => {
+  process.env.ADMIN_API_KEY = ADMIN_KEY;
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  app.use(errorHandler);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  baseUrl = `http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+interface CallOptions {
+  params?: Record<string, string | number>;
+  query?: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+// Calls a route by its documented path, e.g. "/api/webhooks/{id}", and
+// checks the response against the document
+async function call(method: string, path: string, options: CallOptions = {}) {
+  const url = path.replace(/\{(\w+)\}/g, (_, name) => encodeURIComponent(String(options.params?.[name])));
+  const form = options.body instanceof FormData;
+  const response = await fetch(`${baseUrl}${url}${options.query ? `?${options.query}` : ""}`, {
+    method: method.toUpperCase(),
+    headers: form ? options.headers : { "content-type": "application/json", ...options.headers },
+    body: form || options.body === undefined ? options.body as FormData | undefined : JSON.stringify(options.body),
+  });
+  const route = `${method} ${path}`;
+  called.add(route);
+
+  const documented = documentedResponse(method, path, response.status);
+  assert.ok(documented, `${route} answered ${response.status}, which is not documented`);
+  const text = await response.text();
+  if (Object.keys(documented).length === 0) {
+    assert.equal(text, "", `${route} ${response.status} is documented without a body`);
+    return { status: response.status, headers: response.headers, body: undefined };
+  }
+
+  const mediaType = response.headers.get("content-type")?.split(";")[0] ?? "";
+  const schema = documented[mediaType];
+  assert.ok(schema, `${route} ${response.status} answered ${mediaType}, which is not documented`);
+  const body = mediaType === "application/json" ? JSON.parse(text) : text;
+  const result = schema.safeParse(body);
+  assert.ok(result.success, `${route} ${response.status} does not match the document: ${result.error}`);
+  // Parsing drops the fields a schema does not list, so this catches undocumented ones
+  assert.deepEqual(result.data, body, `${route} ${response.status} has fields the document does not list`);
+  return { status: response.status, headers: response.headers, body };
+}
+
+test("catalog routes", async () => {
+  assert.equal((await call("get", "/api/countries", { query: "lang=es" })).status, 200);
+  assert.equal((await call("get", "/api/countries/{countryCode}/denominations", { params: { countryCode: "US" } })).status, 200);
+  assert.equal((await call("get", "/api/countries/{countryCode}/denominations", { params: { countryCode: "SA" } })).status, 404);
+
+  const series = await call("get", "/api/countries/{countryCode}/denominations/{value}/series", {
+    params: { countryCode: "GB", value: "20" },
+  });
+  assert.equal(series.status, 200);
+  const etag = series.headers.get("etag")!;
+  const unchanged = await call("get", "/api/countries/{countryCode}/denominations/{value}/series", {
+    params: { countryCode: "GB", value: "20" },
+    // fetch adds Cache-Control: no-cache to a conditional request, which would skip the check
+    headers: { "if-none-match": etag, "cache-control": "max-age=0" },
+  });
+  assert.equal(unchanged.status, 304);
+
+  const bundle = await call("get", "/api/catalog/bundle");
+  assert.equal(bundle.status, 200);
+  assert.equal((await call("get", "/api/catalog/changes", { query: `since=${bundle.body.version}` })).status, 200);
+  assert.equal((await call("get", "/api/catalog/changes", { query: "since=x" })).status, 400);
+  // A version ahead of the server's, e.g. from before a database reset
+  const unknown = await call("get", "/api/catalog/changes", { query: `since=${bundle.body.version + 1}` });
+  assert.equal(unknown.status, 409);
+  assert.equal(unknown.body.code, "catalog_version_unknown");
+  assert.equal((await call("get", "/api/catalog/signing-key")).status, 200);
+});
+
+test("verification routes", async () => {
+  const verify = await call("post", "/api/verify", {
+    body: { countryCode: "US", denomination: "20", serialNumber: "B12345678A" },
+  });
+  assert.equal(verify.status, 200);
+  assert.equal(verify.body.isAuthentic, true);
+  assert.equal((await call("post", "/api/verify", { body: { countryCode: "US" } })).status, 400);
+
+  const batch = await call("post", "/api/verify/batch", {
+    body: { countryCode: "GB", denomination: "20", serialNumbers: ["AB12345678", "nope"] },
+  });
+  assert.equal(batch.status, 200);
+
+  const offline = await call("post", "/api/verify/offline", {
+    body: {
+      items: [{
+        offlineId: "7d3f6c1e-1b7a-4f57-9a55-3f0f5c1d2e90",
+        countryCode: "US",
+        denomination: "20",
+        serialNumber: "C23456789B",
+        verifiedAt: "2026-03-01T09:30:00Z",
+      }],
+    },
+  });
+  assert.equal(offline.status, 200);
+
+  // Reading a photo needs the OCR engine, so only the refusal of a file that is not one
+  const upload = new FormData();
+  upload.append("image", new Blob(["not an image"], { type: "text/plain" }), "note.txt");
+  assert.equal((await call("post", "/api/verify/image", { body: upload })).status, 415);
+});
+
+test("audit routes", async () => {
+  assert.equal((await call("get", "/api/stats", { headers: admin, query: "interval=week" })).status, 200);
+  assert.equal((await call("get", "/api/stats")).status, 401);
+  assert.equal((await call("get", "/api/verifications", { headers: admin, query: "limit=5" })).status, 200);
+
+  const csv = await call("get", "/api/verifications/export", { headers: admin });
+  assert.equal(csv.status, 200);
+  assert.equal((await call("get", "/api/verifications/export", { headers: admin, query: "format=ndjson" })).status, 200);
+
+  for (let i = 0; i < 3; i++) {
+    await call("post", "/api/verify", { body: { countryCode: "US", denomination: "20", serialNumber: "D34567890C" } });
+  }
+  assert.equal((await call("post", "/api/admin/alerts/analyze", { headers: admin })).status, 200);
+  const alerts = await call("get", "/api/alerts", { headers: admin });
+  assert.equal(alerts.status, 200);
+  assert.ok(alerts.body.length > 0);
+});
+
+test("tenant and API key routes", async () => {
+  const tenant = await call("post", "/api/admin/tenants", { headers: admin, body: { name: "Contract shop" } });
+  assert.equal(tenant.status, 201);
+  assert.equal((await call("get", "/api/admin/tenants", { headers: admin })).status, 200);
+  assert.equal((await call("patch", "/api/admin/tenants/{id}", {
+    headers: admin,
+    params: { id: tenant.body.id },
+    body: { name: "Contract shop (renamed)" },
+  })).status, 200);
+
+  const issued = await call("post", "/api/admin/tenants/{id}/api-keys", {
+    headers: admin,
+    params: { id: tenant.body.id },
+    body: { name: "till", role: "verifier" },
+  });
+  assert.equal(issued.status, 201);
+  assert.equal((await call("get", "/api/admin/tenants/{id}/api-keys", { headers: admin, params: { id: tenant.body.id } })).status, 200);
+  const rotated = await call("post", "/api/admin/api-keys/{id}/rotate", {
+    headers: admin,
+    params: { id: issued.body.id },
+    body: { graceSeconds: 0 },
+  });
+  assert.equal(rotated.status, 201);
+  assert.equal((await call("delete", "/api/admin/api-keys/{id}", { headers: admin, params: { id: rotated.body.id } })).status, 204);
+  assert.equal((await call("post", "/api/verify", {
+    headers: { "x-api-key": rotated.body.key },
+    body: { countryCode: "US", denomination: "20", serialNumber: "B12345678A" },
+  })).status, 401);
+
+  assert.equal((await call("get", "/api/admin/abuse-events", { headers: admin })).status, 200);
+});
+
+test("webhook routes", async () => {
+  // An address literal, so registering it needs no DNS lookup
+  const created = await call("post", "/api/webhooks", {
+    headers: admin,
+    body: { url: "https://93.184.215.14/hooks/banknotes", countryCode: "US" },
+  });
+  assert.equal(created.status, 201);
+  const id = created.body.id;
+  assert.equal((await call("post", "/api/webhooks", { headers: admin, body: { url: "http://127.0.0.1/hook" } })).status, 400);
+
+  assert.equal((await call("get", "/api/webhooks", { headers: admin })).status, 200);
+  assert.equal((await call("patch", "/api/webhooks/{id}", { headers: admin, params: { id }, body: { suspiciousOnly: false } })).status, 200);
+  assert.equal((await call("get", "/api/webhooks/{id}/deliveries", { headers: admin, params: { id } })).status, 200);
+  // Deactivated first, so the ping is queued but never sent
+  assert.equal((await call("patch", "/api/webhooks/{id}", { headers: admin, params: { id }, body: { isActive: false } })).status, 200);
+  const ping = await call("post", "/api/webhooks/{id}/ping", { headers: admin, params: { id } });
+  assert.ok(ping.status === 200 || ping.status === 409, `ping answered ${ping.status}`);
+  assert.equal((await call("delete", "/api/webhooks/{id}", { headers: admin, params: { id } })).status, 204);
+});
+
+test("catalog and counterfeit registry admin routes", async () => {
+  const country = await call("post", "/api/admin/countries", {
+    headers: admin,
+    body: { code: "ZZ", name: "Zedland", currency: "ZZD", currencySymbol: "Z" },
+  });
+  assert.equal(country.status, 201);
+  assert.equal((await call("patch", "/api/admin/countries/{countryCode}", {
+    headers: admin,
+    params: { countryCode: "ZZ" },
+    body: { name: "Zedland (updated)" },
+  })).status, 200);
+
+  const denomination = await call("post", "/api/admin/countries/{countryCode}/denominations", {
+    headers: admin,
+    params: { countryCode: "ZZ" },
+    body: { value: "5", displayName: "5 Zed", serialFormat: "^[A-Z][0-9]{6}$", serialLength: 7, patternDescription: "A letter and 6 digits" },
+  });
+  assert.equal(denomination.status, 201);
+  assert.equal((await call("patch", "/api/admin/denominations/{id}", {
+    headers: admin,
+    params: { id: denomination.body.id },
+    body: { displayName: "Five Zed" },
+  })).status, 200);
+
+  const series = await call("post", "/api/admin/denominations/{id}/series", {
+    headers: admin,
+    params: { id: denomination.body.id },
+    body: { name: "2024", serialFormat: "^[A-Z][0-9]{6}$", serialLength: 7, patternDescription: "A letter and 6 digits" },
+  });
+  assert.equal(series.status, 201);
+  assert.equal((await call("patch", "/api/admin/series/{id}", {
+    headers: admin,
+    params: { id: series.body.id },
+    body: { issuedOn: "2024-01-01" },
+  })).status, 200);
+
+  const flagged = await call("post", "/api/admin/flagged-serials", {
+    headers: admin,
+    body: { countryCode: "ZZ", denomination: "5", serialNumber: "A123456", source: "Police", reason: "Seized" },
+  });
+  assert.equal(flagged.status, 201);
+  assert.equal((await call("post", "/api/admin/flagged-serials/import", {
+    headers: admin,
+    body: { entries: [{ countryCode: "ZZ", denomination: "5", serialNumber: "B123456", source: "Police", reason: "Seized" }] },
+  })).status, 200);
+  assert.equal((await call("get", "/api/admin/flagged-serials", { headers: admin })).status, 200);
+  assert.equal((await call("delete", "/api/admin/flagged-serials/{id}", { headers: admin, params: { id: flagged.body.id } })).status, 204);
+
+  assert.equal((await call("delete", "/api/admin/series/{id}", { headers: admin, params: { id: series.body.id } })).status, 204);
+  assert.equal((await call("delete", "/api/admin/denominations/{id}", { headers: admin, params: { id: denomination.body.id } })).status, 204);
+  assert.equal((await call("delete", "/api/admin/countries/{countryCode}", { headers: admin, params: { countryCode: "ZZ" } })).status, 204);
+});
+
+test("operations routes", async () => {
+  assert.equal((await call("get", "/healthz")).status, 200);
+  assert.equal((await call("get", "/readyz")).status, 200);
+});
+
+test("every documented route is checked", () => {
+  assert.deepEqual(documentedRoutes().filter(route => !called.has(route)), []);
+});
@@ -0,0 +1,840 @@
+import {
+  extendZodWithOpenApi,
+  OpenAPIRegistry,
+  OpenApiGeneratorV3,
+  type ResponseConfig,
+} from "@asteasolutions/zod-to-openapi";
+import { z } from "zod";
+import {
+  SUPPORTED_LOCALES,
+  abuseEventsQuerySchema,
+  alertsQuerySchema,
+  catalogChangesQuerySchema,
+  createWebhookSchema,
+  flagSerialSchema,
+  flaggedSerialsQuerySchema,
+  importFlaggedSerialsSchema,
+  insertBanknoteSeriesSchema,
+  insertCountrySchema,
+  insertDenominationSchema,
+  insertTenantSchema,
+  issueApiKeySchema,
+  offlineUploadSchema,
+  rotateApiKeySchema,
+  statsQuerySchema,
+  updateBanknoteSeriesSchema,
+  updateCountrySchema,
+  updateDenominationSchema,
+  updateTenantSchema,
+  updateWebhookSchema,
+  verificationExportQuerySchema,
+  verificationHistoryQuerySchema,
+  verifyBanknoteSchema,
+  verifyBatchSchema,
+  webhookDeliveriesQuerySchema,
+  webhooksQuerySchema,
+} from "@shared/schema";
+import * as api from "@shared/api";
+
+// OpenAPI 3 description of every route, built from the request schemas in
+// shared/schema.ts and the response schemas in shared/api.ts. Served at
+// /api/openapi.json; `npm run openapi:generate` regenerates the client in
+// packages/api-client from it.
+
+extendZodWithOpenApi(z);
+
+const registry = new OpenAPIRegistry();
+
+registry.registerComponent("securitySchemes", "apiKey", {
+  type: "apiKey",
+  in: "header",
+  name: "X-API-Key",
+});
+registry.registerComponent("securitySchemes", "bearer", {
+  type: "http",
+  scheme: "bearer",
+});
+
+// Either header carries the key
+const withApiKey: Record<string, string[]>[] = [{ apiKey: [] }, { bearer: [] }];
+// Verification is anonymous unless the server sets REQUIRE_API_KEY
+const optionalApiKey = [{}, ...withApiKey];
+
+const schemas = {
+  Error: registry.register("Error", api.errorResponseSchema),
+  Country: registry.register("Country", api.countrySchema),
+  Denomination: registry.register("Denomination", api.denominationSchema),
+  Series: registry.register("Series", api.seriesSchema),
+  CountryResponse: registry.register("CountryResponse", api.countryResponseSchema),
+  DenominationResponse: registry.register("DenominationResponse", api.denominationResponseSchema),
+  SeriesResponse: registry.register("SeriesResponse", api.seriesResponseSchema),
+  VerificationResult: registry.register("VerificationResult", api.verificationResultSchema),
+  ImageVerificationResult: registry.register("ImageVerificationResult", api.imageVerificationResultSchema),
+  ImageExtractionError: registry.register("ImageExtractionError", api.imageExtractionErrorSchema),
+  BatchVerificationResponse: registry.register("BatchVerificationResponse", api.batchVerificationResponseSchema),
+  OfflineUploadResponse: registry.register("OfflineUploadResponse", api.offlineUploadResponseSchema),
+  CatalogBundle: registry.register("CatalogBundle", api.catalogBundleSchema),
+  CatalogChanges: registry.register("CatalogChanges", api.catalogChangesSchema),
+  CatalogSigningKey: registry.register("CatalogSigningKey", api.catalogSigningKeySchema),
+  VerificationStats: registry.register("VerificationStats", api.verificationStatsSchema),
+  HistoryItem: registry.register("HistoryItem", api.historyItemSchema),
+  VerificationHistoryPage: registry.register("VerificationHistoryPage", api.verificationHistoryPageSchema),
+  Alert: registry.register("Alert", api.alertResponseSchema),
+  Webhook: registry.register("Webhook", api.webhookResponseSchema),
+  CreatedWebhook: registry.register("CreatedWebhook", api.createdWebhookSchema),
+  WebhookDelivery: registry.register("WebhookDelivery", api.webhookDeliverySchema),
+  FlaggedSerial: registry.register("FlaggedSerial", api.flaggedSerialSchema),
+  ImportFlaggedSerialsResult: registry.register("ImportFlaggedSerialsResult", api.importFlaggedSerialsResultSchema),
+  Tenant: registry.register("Tenant", api.tenantSchema),
+  ApiKey: registry.register("ApiKey", api.apiKeyResponseSchema),
+  IssuedApiKey: registry.register("IssuedApiKey", api.issuedApiKeySchema),
+  AbuseEvent: registry.register("AbuseEvent", api.abuseEventSchema),
+  AnalyzeAlertsResult: registry.register("AnalyzeAlertsResult", api.analyzeAlertsResultSchema),
+  Health: registry.register("Health", api.healthSchema),
+  Readiness: registry.register("Readiness", api.readinessSchema),
+};
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: "Invalid request data",
+  401: "Missing, unknown, expired or revoked API key",
+  403: "The API key's role or tenant does not allow this",
+  404: "Not found",
+  409: "Conflicts with an existing entry, or an unknown catalog version",
+  413: "Image larger than VERIFY_IMAGE_MAX_BYTES",
+  415: "Unsupported image type",
+  429: "Rate limit exceeded; see the Retry-After header",
+  500: "Server error",
+};
+
+function json(schema: z.ZodTypeAny, description: string): ResponseConfig {
+  return { description, content: { "application/json": { schema } } };
+}
+
+function errors(...statuses: number[]): Record<number, ResponseConfig> {
+  const responses: Record<number, ResponseConfig> = {};
+  statuses.concat(500).forEach(status => {
+    responses[status] = json(schemas.Error, ERROR_DESCRIPTIONS[status]);
+  });
+  return responses;
+}
+
+function body(schema: z.ZodTypeAny, required = true) {
+  return { required, content: { "application/json": { schema } } };
+}
+
+const deleted: ResponseConfig = { description: "Deleted" };
+const notModified: ResponseConfig = { description: "The catalog has not changed since the If-None-Match ETag" };
+
+// Public routes answer in the language picked by ?lang= or Accept-Language
+const lang = z.enum(SUPPORTED_LOCALES).optional().openapi({
+  description: "Response language; takes precedence over Accept-Language",
+});
+const localeQuery = z.object({ lang });
+const localeHeaders = z.object({
+  "accept-language": z.string().optional().openapi({ example: "es-ES,es;q=0.9" }),
+});
+
+const includeInactive = z.enum(["true", "false"]).optional().openapi({
+  description: "Also list retired entries",
+});
+
+const idParams = z.object({ id: z.coerce.number().int().positive() });
+const countryParams = z.object({
+  countryCode: z.string().openapi({
+    description: "ISO 3166-1 alpha-2, alpha-3 or numeric code, or ISO 4217 currency code, in any case",
+    example: "US",
+  }),
+});
+const denominationParams = countryParams.extend({ value: z.string().openapi({ example: "20" }) });
+// The admin routes only take the code an entry is stored under
+const catalogCodeParams = z.object({
+  countryCode: z.string().openapi({ description: "Catalog code, in any case", example: "GB" }),
+});
+
+// Catalog
+
+registry.registerPath({
+  method: "get",
+  path: "/api/countries",
+  tags: ["Catalog"],
+  summary: "List the active countries",
+  request: { query: localeQuery, headers: localeHeaders },
+  responses: {
+    200: json(z.array(schemas.CountryResponse), "Countries"),
+    304: notModified,
+    ...errors(),
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/countries/{countryCode}/denominations",
+  tags: ["Catalog"],
+  summary: "List the denominations of a country",
+  request: {
+    params: countryParams,
+    query: localeQuery.extend({ includeInactive }),
+    headers: localeHeaders,
+  },
+  responses: {
+    200: json(z.array(schemas.DenominationResponse), "Denominations"),
+    304: notModified,
+    ...errors(404),
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/countries/{countryCode}/denominations/{value}/series",
+  tags: ["Catalog"],
+  summary: "List the series of a denomination",
+  request: {
+    params: denominationParams,
+    query: localeQuery.extend({ includeInactive }),
+    headers: localeHeaders,
+  },
+  responses: {
+    200: json(z.array(schemas.SeriesResponse), "Series"),
+    304: notModified,
+    ...errors(404),
+  },
+});
+
+// Headers of the signed catalog documents
+const signedDocumentHeaders = z.object({
+  "X-Catalog-Version": z.string().openapi({ description: "Catalog version the document is at" }),
+  "X-Catalog-Signature": z.string().openapi({ description: "Base64 Ed25519 signature of the uncompressed body" }),
+  "X-Catalog-Key-Id": z.string().openapi({ description: "Id of the signing key, see /api/catalog/signing-key" }),
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/catalog/bundle",
+  tags: ["Catalog"],
+  summary: "Download the whole catalog for offline use",
+  description: "Signed and, with Accept-Encoding: gzip, compressed",
+  responses: {
+    200: { ...json(schemas.CatalogBundle, "Active countries, denominations and series"), headers: signedDocumentHeaders },
+    304: { description: "The bundle has not changed since the If-None-Match ETag" },
+    ...errors(),
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/catalog/changes",
+  tags: ["Catalog"],
+  summary: "List the catalog entries changed since a catalog version",
+  description: "Signed and compressed like the bundle",
+  request: { query: catalogChangesQuerySchema },
+  responses: {
+    200: { ...json(schemas.CatalogChanges, "Changed entries, retired ones with isActive false"), headers: signedDocumentHeaders },
+    ...errors(400, 409),
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/catalog/signing-key",
+  tags: ["Catalog"],
+  summary: "Get the public key the catalog documents are signed with",
+  responses: {
+    200: json(schemas.CatalogSigningKey, "Ed25519 public key as SPKI PEM"),
+    ...errors(),
+  },
+});
+
+// Verification
+
+registry.registerPath({
+  method: "post",
+  path: "/api/verify",
+  tags: ["Verification"],
+  summary: "Verify a banknote's serial number",
+  security: optionalApiKey,
+  request: { query: localeQuery, headers: localeHeaders, body: body(verifyBanknoteSchema) },
+  responses: {
+    200: json(schemas.VerificationResult, "Verification result"),
+    ...errors(400, 401, 403, 404, 429),
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/verify/image",
+  tags: ["Verification"],
+  summary: "Verify the serial number read from a photo of a banknote",
+  security: optionalApiKey,
+  request: {
+    query: localeQuery,
+    headers: localeHeaders,
+    body: {
+      required: true,
+      content: {
+        "multipart/form-data": {
+          schema: z.object({
+            image: z.string().openapi({ format: "binary", description: "PNG, JPEG, WebP or BMP photo" }),
+            countryCode: z.string().optional(),
+            denomination: z.string().optional(),
+            series: z.string().optional(),
+          }),
+        },
+      },
+    },
+  },
+  responses: {
+    200: json(schemas.ImageVerificationResult, "Verification result with what was read from the photo"),
+    422: json(schemas.ImageExtractionError, "No serial number could be read from the photo"),
+    ...errors(400, 401, 403, 404, 413, 415, 429),
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/verify/batch",
+  tags: ["Verification"],
+  summary: "Verify many banknotes at once",
+  security: optionalApiKey,
+  request: { query: localeQuery, headers: localeHeaders, body: body(verifyBatchSchema) },
+  responses: {
+    200: json(schemas.BatchVerificationResponse, "A result or error per note, and a summary of the batch"),
+    ...errors(400, 401, 403, 404, 429),
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/verify/offline",
+  tags: ["Verification"],
+  summary: "Upload verifications made offline",
+  description: "Items whose offlineId was uploaded before are reported as duplicates and not logged again",
+  security: optionalApiKey,
+  request: { query: localeQuery, headers: localeHeaders, body: body(offlineUploadSchema) },
+  responses: {
+    200: json(schemas.OfflineUploadResponse, "The outcome of each item, and a summary"),
+    ...errors(400, 401, 403, 429),
+  },
+});
+
+// Audit
+
+registry.registerPath({
+  method: "get",
+  path: "/api/stats",
+  tags: ["Audit"],
+  summary: "Verification statistics",
+  security: withApiKey,
+  request: { query: statsQuerySchema },
+  responses: {
+    200: json(schemas.VerificationStats, "Statistics"),
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/verifications",
+  tags: ["Audit"],
+  summary: "Page through the verification history",
+  security: withApiKey,
+  request: { query: verificationHistoryQuerySchema },
+  responses: {
+    200: json(schemas.VerificationHistoryPage, "A page of verifications"),
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/verifications/export",
+  tags: ["Audit"],
+  summary: "Download the verification history as CSV or NDJSON",
+  security: withApiKey,
+  request: { query: verificationExportQuerySchema },
+  responses: {
+    200: {
+      description: "The matching verifications, streamed",
+      content: {
+        "text/csv": { schema: z.string() },
+        "application/x-ndjson": { schema: z.string() },
+      },
+    },
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/alerts",
+  tags: ["Audit"],
+  summary: "List anomaly alerts",
+  security: withApiKey,
+  request: { query: alertsQuerySchema },
+  responses: {
+    200: json(z.array(schemas.Alert), "Alerts, most recently seen first"),
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+// Webhooks
+
+registry.registerPath({
+  method: "get",
+  path: "/api/webhooks",
+  tags: ["Webhooks"],
+  summary: "List webhooks",
+  security: withApiKey,
+  request: { query: webhooksQuerySchema },
+  responses: {
+    200: json(z.array(schemas.Webhook), "Webhooks"),
+    ...errors(400, 401, 403),
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/webhooks",
+  tags: ["Webhooks"],
+  summary: "Register a webhook",
+  security: withApiKey,
+  request: { body: body(createWebhookSchema) },
+  responses: {
+    201: json(schemas.CreatedWebhook, "The webhook with its signing secret, which is not shown again"),
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/api/webhooks/{id}",
+  tags: ["Webhooks"],
+  summary: "Update a webhook",
+  security: withApiKey,
+  request: { params: idParams, body: body(updateWebhookSchema) },
+  responses: {
+    200: json(schemas.Webhook, "The updated webhook"),
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/api/webhooks/{id}",
+  tags: ["Webhooks"],
+  summary: "Soft-delete a webhook",
+  security: withApiKey,
+  request: { params: idParams },
+  responses: {
+    204: deleted,
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/webhooks/{id}/deliveries",
+  tags: ["Webhooks"],
+  summary: "List a webhook's deliveries",
+  security: withApiKey,
+  request: { params: idParams, query: webhookDeliveriesQuerySchema },
+  responses: {
+    200: json(z.array(schemas.WebhookDelivery), "Deliveries, newest first"),
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/webhooks/{id}/ping",
+  tags: ["Webhooks"],
+  summary: "Send a test event to a webhook",
+  security: withApiKey,
+  request: { params: idParams },
+  responses: {
+    200: json(schemas.WebhookDelivery, "The queued delivery"),
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+// Admin: catalog
+
+registry.registerPath({
+  method: "post",
+  path: "/api/admin/countries",
+  tags: ["Admin"],
+  summary: "Add a country",
+  security: withApiKey,
+  request: { body: body(insertCountrySchema) },
+  responses: {
+    201: json(schemas.Country, "The new country"),
+    ...errors(400, 401, 403, 409),
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/api/admin/countries/{countryCode}",
+  tags: ["Admin"],
+  summary: "Update a country",
+  security: withApiKey,
+  request: { params: catalogCodeParams, body: body(updateCountrySchema) },
+  responses: {
+    200: json(schemas.Country, "The updated country"),
+    ...errors(400, 401, 403, 404, 409),
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/api/admin/countries/{countryCode}",
+  tags: ["Admin"],
+  summary: "Soft-delete a country",
+  security: withApiKey,
+  request: { params: catalogCodeParams },
+  responses: {
+    204: deleted,
+    ...errors(401, 403, 404),
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/admin/countries/{countryCode}/denominations",
+  tags: ["Admin"],
+  summary: "Add a denomination to a country",
+  security: withApiKey,
+  request: { params: catalogCodeParams, body: body(insertDenominationSchema.omit({ countryId: true })) },
+  responses: {
+    201: json(schemas.Denomination, "The new denomination"),
+    ...errors(400, 401, 403, 404, 409),
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/api/admin/denominations/{id}",
+  tags: ["Admin"],
+  summary: "Update a denomination",
+  security: withApiKey,
+  request: { params: idParams, body: body(updateDenominationSchema) },
+  responses: {
+    200: json(schemas.Denomination, "The updated denomination"),
+    ...errors(400, 401, 403, 404, 409),
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/api/admin/denominations/{id}",
+  tags: ["Admin"],
+  summary: "Retire a denomination",
+  security: withApiKey,
+  request: { params: idParams },
+  responses: {
+    204: deleted,
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/admin/denominations/{id}/series",
+  tags: ["Admin"],
+  summary: "Add a series to a denomination",
+  security: withApiKey,
+  request: { params: idParams, body: body(insertBanknoteSeriesSchema.omit({ denominationId: true })) },
+  responses: {
+    201: json(schemas.Series, "The new series"),
+    ...errors(400, 401, 403, 404, 409),
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/api/admin/series/{id}",
+  tags: ["Admin"],
+  summary: "Update a series",
+  security: withApiKey,
+  request: { params: idParams, body: body(updateBanknoteSeriesSchema) },
+  responses: {
+    200: json(schemas.Series, "The updated series"),
+    ...errors(400, 401, 403, 404, 409),
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/api/admin/series/{id}",
+  tags: ["Admin"],
+  summary: "Remove a series",
+  security: withApiKey,
+  request: { params: idParams },
+  responses: {
+    204: deleted,
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+// Admin: counterfeit registry
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/flagged-serials",
+  tags: ["Admin"],
+  summary: "List the counterfeit registry",
+  security: withApiKey,
+  request: { query: flaggedSerialsQuerySchema },
+  responses: {
+    200: json(z.array(schemas.FlaggedSerial), "Registry entries"),
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/admin/flagged-serials",
+  tags: ["Admin"],
+  summary: "Add a serial number to the counterfeit registry",
+  security: withApiKey,
+  request: { body: body(flagSerialSchema) },
+  responses: {
+    201: json(schemas.FlaggedSerial, "The new entry"),
+    ...errors(400, 401, 403, 404, 409),
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/admin/flagged-serials/import",
+  tags: ["Admin"],
+  summary: "Import serial numbers into the counterfeit registry",
+  security: withApiKey,
+  request: { body: body(importFlaggedSerialsSchema) },
+  responses: {
+    200: json(schemas.ImportFlaggedSerialsResult, "What was imported, skipped and rejected"),
+    ...errors(400, 401, 403),
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/api/admin/flagged-serials/{id}",
+  tags: ["Admin"],
+  summary: "Remove a serial number from the counterfeit registry",
+  security: withApiKey,
+  request: { params: idParams },
+  responses: {
+    204: deleted,
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+// Admin: tenants and API keys
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/tenants",
+  tags: ["Admin"],
+  summary: "List tenants",
+  security: withApiKey,
+  responses: {
+    200: json(z.array(schemas.Tenant), "Tenants"),
+    ...errors(401, 403),
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/admin/tenants",
+  tags: ["Admin"],
+  summary: "Add a tenant",
+  security: withApiKey,
+  request: { body: body(insertTenantSchema) },
+  responses: {
+    201: json(schemas.Tenant, "The new tenant"),
+    ...errors(400, 401, 403, 409),
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/api/admin/tenants/{id}",
+  tags: ["Admin"],
+  summary: "Update a tenant",
+  security: withApiKey,
+  request: { params: idParams, body: body(updateTenantSchema) },
+  responses: {
+    200: json(schemas.Tenant, "The updated tenant"),
+    ...errors(400, 401, 403, 404, 409),
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/tenants/{id}/api-keys",
+  tags: ["Admin"],
+  summary: "List a tenant's API keys",
+  security: withApiKey,
+  request: { params: idParams },
+  responses: {
+    200: json(z.array(schemas.ApiKey), "API keys, without the keys themselves"),
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/admin/tenants/{id}/api-keys",
+  tags: ["Admin"],
+  summary: "Issue an API key",
+  security: withApiKey,
+  request: { params: idParams, body: body(issueApiKeySchema) },
+  responses: {
+    201: json(schemas.IssuedApiKey, "The key, which is not shown again"),
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/admin/api-keys/{id}/rotate",
+  tags: ["Admin"],
+  summary: "Replace an API key, keeping the old one valid for a grace period",
+  security: withApiKey,
+  request: { params: idParams, body: body(rotateApiKeySchema, false) },
+  responses: {
+    201: json(schemas.IssuedApiKey, "The replacement key, which is not shown again"),
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/api/admin/api-keys/{id}",
+  tags: ["Admin"],
+  summary: "Revoke an API key",
+  security: withApiKey,
+  request: { params: idParams },
+  responses: {
+    204: deleted,
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+// Admin: monitoring
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/abuse-events",
+  tags: ["Admin"],
+  summary: "List throttled and suspicious requests",
+  security: withApiKey,
+  request: { query: abuseEventsQuerySchema },
+  responses: {
+    200: json(z.array(schemas.AbuseEvent), "Abuse events, newest first"),
+    ...errors(400, 401, 403),
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/admin/alerts/analyze",
+  tags: ["Admin"],
+  summary: "Run the anomaly analysis now",
+  security: withApiKey,
+  responses: {
+    200: json(schemas.AnalyzeAlertsResult, "How many alerts the run produced"),
+    ...errors(401, 403),
+  },
+});
+
+// Operations
+
+registry.registerPath({
+  method: "get",
+  path: "/healthz",
+  tags: ["Operations"],
+  summary: "Check that the server is up",
+  responses: {
+    200: json(schemas.Health, "The process is serving requests"),
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/readyz",
+  tags: ["Operations"],
+  summary: "Check that the server can take traffic",
+  description: "Checks the storage connection and that the catalog has been loaded",
+  responses: {
+    200: json(schemas.Readiness, "Ready"),
+    503: json(schemas.Readiness, "Storage unreachable, catalog empty, or shutting down"),
+  },
+});
+
+function documentedRoute(method: string, path: string) {
+  for (const definition of registry.definitions) {
+    if (definition.type === "route" && definition.route.method === method && definition.route.path === path) {
+      return definition.route;
+    }
+  }
+  return undefined;
+}
+
+// Method and path of every documented route, e.g. "get /api/countries"
+export function documentedRoutes(): string[] {
+  return registry.definitions.flatMap(definition =>
+    definition.type === "route" ? [`${definition.route.method} ${definition.route.path}`] : [],
+  );
+}
+
+// The Zod schema of each media type a route's response with this status is
+// documented to have, {} for a response without a body, or undefined when the
+// status is not documented; for checking live responses against the document
+export function documentedResponse(method: string, path: string, status: number): Record<string, z.ZodTypeAny> | undefined {
+  const response = documentedRoute(method, path)?.responses[status];
+  if (!response || "$ref" in response) {
+    return undefined;
+  }
+
+  const schemas: Record<string, z.ZodTypeAny> = {};
+  Object.entries(response.content ?? {}).forEach(([mediaType, content]) => {
+    if (content?.schema instanceof z.ZodType) {
+      schemas[mediaType] = content.schema;
+    }
+  });
+  return schemas;
+}
+
+let document: ReturnType<OpenApiGeneratorV3["generateDocument"]> | undefined;
+
+// The document is the same for the lifetime of the process
+export function buildOpenApiDocument() {
+  document ??= new OpenApiGeneratorV3(registry.definitions).generateDocument({
+    openapi: "3.0.3",
+    info: {
+      title: "Banknote Checker API",
+      version: "1.0.0",
+      description: "Banknote serial number verification, catalog and audit API",
+    },
+  });
+  return document;
+}
+
+// Swagger UI for the document, loaded from a CDN
+export const DOCS_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Banknote Checker API</title>
+  <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css">
+</head>
+<body>
+  <div id="docs"></div>
+  <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js"></script>
+  <script>
+    SwaggerUIBundle({ url: "/api/openapi.json", dom_id: "#docs" });
+  </script>
+</body>
+</html>
+`;
@@ -0,0 +1,73 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import express from "express";
+import { registerRoutes } from "./routes";
+import { errorHandler } from "./errors";
+import { storage } from "./storage";
+
+// Low limits, read when the routes are registered
+process.env.VERIFY_RATE_LIMIT = "3";
+process.env.VERIFY_RATE_WINDOW_SECONDS = "60";
+process.env.REJECTED_KEY_LIMIT = "2";
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  app.use(errorHandler);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  baseUrl = `http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+function verify(headers: Record<string, string> = {}) {
+  return fetch(`${baseUrl}/api/verify`, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify({ countryCode: "US", denomination: "20", serialNumber: "B12345678A" }),
+  });
+}
+
+test("limits verifications per client and counts guessed keys against the limit", async () => {
+  const first = await verify();
+  assert.equal(first.status, 200);
+  assert.equal(first.headers.get("ratelimit-policy"), "3;w=60");
+  assert.equal(first.headers.get("ratelimit-limit"), "3");
+  assert.equal(first.headers.get("ratelimit-remaining"), "2");
+  assert.ok(Number(first.headers.get("ratelimit-reset")) <= 60);
+  assert.equal(first.headers.get("retry-after"), null);
+
+  // Rejected keys use up the limit, so they cannot be tried faster than verifications
+  assert.equal((await verify({ "x-api-key": "bk_guess-1" })).status, 401);
+  assert.equal((await verify({ "x-api-key": "bk_guess-2" })).status, 401);
+  const limited = await verify({ "x-api-key": "bk_guess-3" });
+  assert.equal(limited.status, 429);
+  assert.equal(limited.headers.get("ratelimit-remaining"), "0");
+  assert.ok(limited.headers.get("retry-after"));
+  assert.equal((await limited.json()).code, "rate_limited");
+
+  const events = await storage.getAbuseEvents({ kind: "rate_limited", limit: 10 });
+  assert.deepEqual(events.map(event => event.route), ["/api/verify"]);
+});
+
+test("records a client sending too many unknown keys once per window", async () => {
+  for (let i = 0; i < 4; i++) {
+    const response = await fetch(`${baseUrl}/api/stats`, { headers: { "x-api-key": `bk_guess-${i}` } });
+    assert.equal(response.status, 401);
+  }
+  // A missing key is not a guess
+  assert.equal((await fetch(`${baseUrl}/api/stats`)).status, 401);
+
+  const events = await storage.getAbuseEvents({ kind: "invalid_api_key", limit: 10 });
+  assert.equal(events.length, 1);
+  assert.equal(events[0].route, "/api/stats");
+});
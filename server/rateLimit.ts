@@ -0,0 +1,103 @@
+import type { Request, RequestHandler } from "express";
+import { RateLimitedError } from "./errors";
+
+export interface RateLimitHit {
+  // Requests made by the client in the current window, including this one
+  count: number;
+  // When the current window ends, in epoch milliseconds
+  resetAt: number;
+}
+
+// Counters behind the rate limiter. The in-memory store is enough for a single
+// process; a shared store (e.g. Redis) can implement the same interface.
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+// How often expired windows are swept from the in-memory store
+const PRUNE_INTERVAL_MS = 60_000;
+
+// Fixed-window counters held in process memory
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitHit>();
+  private lastPrune = Date.now();
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.prune(now);
+
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      this.windows.set(key, window);
+    }
+    window.count++;
+    return { ...window };
+  }
+
+  // Drops expired windows so memory does not grow with every client ever seen
+  private prune(now: number) {
+    if (now - this.lastPrune < PRUNE_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastPrune = now;
+    this.windows.forEach((window, key) => {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    });
+  }
+}
+
+export interface RateLimitOptions {
+  // Separates the counters of different limiters sharing a store
+  name: string;
+  limit: number;
+  windowMs: number;
+  store: RateLimitStore;
+  // Called once per window, on the first request over the limit
+  onLimited?: (req: Request) => Promise<void>;
+}
+
+// The client a request is counted against. Behind a proxy this relies on the
+// "trust proxy" setting so req.ip is the caller rather than the proxy.
+export function clientKey(req: Request): string {
+  return req.ip ?? req.socket.remoteAddress ?? "unknown";
+}
+
+// Reads a positive integer setting from the environment, e.g. VERIFY_RATE_LIMIT
+export function positiveIntFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+// Per-client request limit with the RateLimit-* headers from the IETF
+// rate limit fields draft, and Retry-After once the limit is exceeded
+export function rateLimit(options: RateLimitOptions): RequestHandler {
+  const { name, limit, windowMs, store } = options;
+
+  return async (req, res, next) => {
+    try {
+      const hit = await store.hit(`${name}:${clientKey(req)}`, windowMs);
+      const resetSeconds = Math.max(0, Math.ceil((hit.resetAt - Date.now()) / 1000));
+
+      res.setHeader("RateLimit-Policy", `${limit};w=${Math.ceil(windowMs / 1000)}`);
+      res.setHeader("RateLimit-Limit", limit);
+      res.setHeader("RateLimit-Remaining", Math.max(0, limit - hit.count));
+      res.setHeader("RateLimit-Reset", resetSeconds);
+
+      if (hit.count > limit) {
+        if (hit.count === limit + 1 && options.onLimited) {
+          await options.onLimited(req);
+        }
+        res.setHeader("Retry-After", resetSeconds);
+        throw new RateLimitedError("Too many requests, please try again later");
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
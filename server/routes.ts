@@ -1,103 +1,1568 @@
-import type { Express } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { verifyBanknoteSchema } from "@shared/schema";
+import multer from "multer";
+import { DatabaseStorage, storage } from "./storage";
+import {
+  generateApiKey,
+  requireRole,
+  toApiKeyResponse,
+  type Principal,
+} from "./auth";
+import { clientKey, MemoryRateLimitStore, positiveIntFromEnv, rateLimit } from "./rateLimit";
+import { EnumerationDetector } from "./enumeration";
+import {
+  checkWebhookTarget,
+  generateWebhookSecret,
+  toWebhookResponse,
+  WebhookDispatcher,
+  type VerificationEvent,
+} from "./webhooks";
+import {
+  applySightings,
+  normalizeForSeries,
+  verifySerial,
+  toVerificationLog,
+  toVerificationResult,
+  type SerialVerification,
+} from "./verification";
+import { AnomalyJob, toAlertResponse } from "./anomalies";
+import { buildOpenApiDocument, DOCS_PAGE } from "./openapi";
+import {
+  DEFAULT_LOCALE,
+  resolveLocale,
+  toCountryResponse,
+  toDenominationResponse,
+  toSeriesResponse,
+  translate,
+  type Message,
+} from "./i18n";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  PayloadTooLargeError,
+  UnprocessableError,
+  UnsupportedMediaTypeError,
+  ValidationError,
+} from "./errors";
+import { logger } from "./logger";
+import { findDuplicateSerials, findSequentialRuns, type BundleNote } from "./bundleAnalysis";
+import { validateSerialFormat } from "./serialFormat";
+import { extractSerialCandidates, recognizeText, stopOcr, type OcrResult } from "./ocr";
+import { findSeriesByName, matchSerialCandidates, narrowToSeries, type CatalogEntry } from "./serialMatching";
+import { CatalogBundler, createCatalogSigner, sendSignedDocument } from "./catalogBundle";
+import { isDraining, onShutdown } from "./shutdown";
+import {
+  decodeCursor,
+  encodeCursor,
+  exportHeader,
+  exportLine,
+  toHistoryItem,
+  writeChunk,
+} from "./history";
+import {
+  abuseEventsQuerySchema,
+  alertsQuerySchema,
+  catalogChangesQuerySchema,
+  flagSerialSchema,
+  flaggedSerialsQuerySchema,
+  importFlaggedSerialsSchema,
+  insertBanknoteSeriesSchema,
+  insertCountrySchema,
+  insertDenominationSchema,
+  insertTenantSchema,
+  issueApiKeySchema,
+  offlineUploadSchema,
+  rotateApiKeySchema,
+  statsQuerySchema,
+  updateBanknoteSeriesSchema,
+  updateCountrySchema,
+  updateDenominationSchema,
+  updateTenantSchema,
+  verificationExportQuerySchema,
+  verificationHistoryQuerySchema,
+  verifyBanknoteSchema,
+  verifyBatchSchema,
+  verifyImageSchema,
+  createWebhookSchema,
+  updateWebhookSchema,
+  webhookDeliveriesQuerySchema,
+  webhooksQuerySchema,
+  type BanknoteSeries,
+  type Country,
+  type Denomination,
+  type FlaggedSerial,
+  type InsertFlaggedSerial,
+  type InsertOfflineVerificationLog,
+  type InsertVerificationLog,
+  type UpdateWebhook,
+  type Webhook,
+} from "@shared/schema";
+import type { OfflineUploadResponse, Readiness } from "@shared/api";
 import { z } from "zod";
 
+type DenominationMatch = { country: Country; denomination: Denomination };
+
+type CatalogFilter = { countryId?: number; denominationId?: number };
+
+// How long /readyz waits for the storage before reporting it failed
+const READINESS_TIMEOUT_MS = 3000;
+
+// Number of rows fetched per query while streaming an export
+const EXPORT_PAGE_SIZE = 500;
+
+// Image types the OCR engine can read
+const OCR_IMAGE_TYPES = ["image/png", "image/jpeg", "image/webp", "image/bmp"];
+
+// Serial candidates and alternative matches listed in an image verification
+const MAX_REPORTED_CANDIDATES = 10;
+
+// How far ahead of the server a device's clock may be on offline verifications
+const OFFLINE_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// How long clients and proxies may reuse a catalog response without revalidating
+const CATALOG_MAX_AGE_SECONDS = 300;
+
+// Sets the caching headers of a catalog response and reports whether the
+// client's copy is still current, in which case a 304 should be sent instead.
+// Each language gets its own ETag, as the responses are translated.
+async function isCatalogFresh(req: Request, res: Response): Promise<boolean> {
+  const etag = await storage.catalogETag();
+  res.set("Cache-Control", `public, max-age=${CATALOG_MAX_AGE_SECONDS}`);
+  res.set("ETag", etag.replace(/"$/, `-${req.locale ?? DEFAULT_LOCALE}"`));
+  return req.fresh;
+}
+
+// Resolves optional country code / denomination filters to ids
+async function resolveCatalogFilter(
+  countryCode: string | undefined,
+  denomination: string | undefined,
+): Promise<CatalogFilter> {
+  if (!countryCode) {
+    return {};
+  }
+
+  const country = await storage.resolveCountry(countryCode);
+  if (!country) {
+    throw new NotFoundError("Country not found");
+  }
+  if (!denomination) {
+    return { countryId: country.id };
+  }
+
+  const denominationData = await storage.getDenomination(country.id, denomination);
+  if (!denominationData) {
+    throw new NotFoundError("Denomination not found");
+  }
+  return { countryId: country.id, denominationId: denominationData.id };
+}
+
+// Tenant whose logs the caller may read: admins pick one or see all,
+// everyone else is limited to their own
+function resolveTenantScope(principal: Principal, requested: number | undefined): { tenantId?: number } {
+  if (principal.role === "admin") {
+    return { tenantId: requested };
+  }
+  if (requested !== undefined && requested !== principal.tenantId) {
+    throw new ForbiddenError("API key is not allowed to read another tenant's data");
+  }
+  return { tenantId: principal.tenantId ?? undefined };
+}
+
+// Looks up an active denomination by country code and face value, or undefined
+// if either is unknown or has been retired
+async function findDenomination(
+  countryCode: string,
+  value: string,
+): Promise<DenominationMatch | undefined> {
+  const country = await storage.resolveCountry(countryCode);
+  if (!country?.isActive) {
+    return undefined;
+  }
+
+  const denomination = await storage.getDenomination(country.id, value);
+  return denomination?.isActive ? { country, denomination } : undefined;
+}
+
+// Admins manage every webhook, everyone else only their own tenant's
+function canManageWebhook(principal: Principal, webhook: Webhook): boolean {
+  return principal.role === "admin" || webhook.tenantId === principal.tenantId;
+}
+
+// Webhooks may only point at public hosts, see checkWebhookTarget
+async function assertWebhookTarget(url: string) {
+  const problem = await checkWebhookTarget(url);
+  if (problem) {
+    throw new ValidationError(problem, [], { code: "webhook_url_not_allowed" });
+  }
+}
+
+// Rejects once the timeout passes, so a hanging connection fails the check
+function withTimeout<T>(work: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs} ms`)), timeoutMs);
+  });
+  return Promise.race([work, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function checkReadiness(): Promise<Readiness> {
+  const checks: Readiness["checks"] = { storage: "ok", catalog: "unknown" };
+  try {
+    await withTimeout(storage.ping(), READINESS_TIMEOUT_MS);
+    const countries = await withTimeout(storage.getCountries(), READINESS_TIMEOUT_MS);
+    checks.catalog = countries.length > 0 ? "ok" : "empty";
+  } catch (error) {
+    logger.warn("Readiness check failed", { error });
+    checks.storage = "failed";
+  }
+
+  const draining = isDraining();
+  const ready = !draining && checks.storage === "ok" && checks.catalog === "ok";
+  return { status: ready ? "ready" : "not_ready", draining, checks };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Initialize database with seed data
-  await storage.seedInitialData();
+  // The in-memory store starts empty on every boot; Postgres is migrated and
+  // seeded beforehand by npm run db:migrate
+  if (!(storage.inner instanceof DatabaseStorage)) {
+    await storage.seedInitialData();
+  }
+
+  // Liveness: answers as long as the process can serve requests
+  app.get("/healthz", (req, res) => {
+    res.json({ status: "ok", uptimeSeconds: Math.floor(process.uptime()) });
+  });
+
+  // Readiness: 503 while the storage is unreachable, the catalog is empty or
+  // the server is shutting down
+  app.get("/readyz", async (req, res, next) => {
+    try {
+      const readiness = await checkReadiness();
+      res.set("Cache-Control", "no-store");
+      res.status(readiness.status === "ready" ? 200 : 503).json(readiness);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Picks the response language from ?lang= or Accept-Language
+  app.use("/api", resolveLocale);
+
+  // Per-client limits on the public verification endpoints
+  const rateLimitStore = new MemoryRateLimitStore();
+  const rateLimitWindowMs = positiveIntFromEnv("VERIFY_RATE_WINDOW_SECONDS", 60) * 1000;
+  const logThrottled = async (req: Request) => {
+    await storage.createAbuseEvent({ kind: "rate_limited", clientKey: clientKey(req), route: req.path });
+  };
+  const verifyLimiter = rateLimit({
+    name: "verify",
+    limit: positiveIntFromEnv("VERIFY_RATE_LIMIT", 30),
+    windowMs: rateLimitWindowMs,
+    store: rateLimitStore,
+    onLimited: logThrottled,
+  });
+  const batchLimiter = rateLimit({
+    name: "verify-batch",
+    limit: positiveIntFromEnv("VERIFY_BATCH_RATE_LIMIT", 5),
+    windowMs: rateLimitWindowMs,
+    store: rateLimitStore,
+    onLimited: logThrottled,
+  });
+  const imageLimiter = rateLimit({
+    name: "verify-image",
+    limit: positiveIntFromEnv("VERIFY_IMAGE_RATE_LIMIT", 10),
+    windowMs: rateLimitWindowMs,
+    store: rateLimitStore,
+    onLimited: logThrottled,
+  });
+  // Clients sending unknown keys over and over are likely guessing them; the
+  // first rejected key over the limit in each window is recorded as abuse
+  const rejectedKeyLimit = positiveIntFromEnv("REJECTED_KEY_LIMIT", 10);
+  const logRejectedKey = async (req: Request) => {
+    const hit = await rateLimitStore.hit(`rejected-key:${clientKey(req)}`, rateLimitWindowMs);
+    if (hit.count === rejectedKeyLimit + 1) {
+      await storage.createAbuseEvent({ kind: "invalid_api_key", clientKey: clientKey(req), route: req.path });
+    }
+  };
+
+  // Verification is open to anonymous callers unless REQUIRE_API_KEY is set;
+  // logs and stats are only readable with a key. The verification limiters
+  // run before these, so guessing keys there counts against the limits too.
+  const verifyAccess = requireRole(["verifier", "admin"], {
+    allowAnonymous: process.env.REQUIRE_API_KEY !== "true",
+    onRejected: logRejectedKey,
+  });
+  const auditAccess = requireRole(["auditor", "admin"], { onRejected: logRejectedKey });
+  // Accepts admin API keys and the bootstrap ADMIN_API_KEY
+  const requireAdmin = requireRole(["admin"], { onRejected: logRejectedKey });
+
+  const enumerationDetector = new EnumerationDetector({
+    threshold: positiveIntFromEnv("ENUMERATION_THRESHOLD", 10),
+    span: positiveIntFromEnv("ENUMERATION_SPAN", 100),
+    windowMs: positiveIntFromEnv("ENUMERATION_WINDOW_SECONDS", 600) * 1000,
+  });
+
+  // Notifies registered webhooks about verifications; failed deliveries are
+  // retried from the delivery log by a poll
+  const webhookDispatcher = new WebhookDispatcher(storage, {
+    maxAttempts: positiveIntFromEnv("WEBHOOK_MAX_ATTEMPTS", 6),
+    retryBaseMs: positiveIntFromEnv("WEBHOOK_RETRY_BASE_SECONDS", 30) * 1000,
+    timeoutMs: positiveIntFromEnv("WEBHOOK_TIMEOUT_SECONDS", 10) * 1000,
+    pollIntervalMs: positiveIntFromEnv("WEBHOOK_POLL_SECONDS", 15) * 1000,
+  });
+  webhookDispatcher.start();
+  onShutdown("webhooks", () => webhookDispatcher.stop());
+  // Runs in the background so a slow or failing webhook never holds up a verification
+  const notifyWebhooks = (events: VerificationEvent[]) => {
+    webhookDispatcher.notify(events).catch(error => logger.error("Webhook notification failed", { error }));
+  };
+
+  // Looks for clusters in the recent verification logs and stores them as alerts
+  const anomalyJob = new AnomalyJob(storage, {
+    thresholds: {
+      repeatedSerial: positiveIntFromEnv("ANOMALY_REPEAT_THRESHOLD", 3),
+      suspiciousSpike: positiveIntFromEnv("ANOMALY_SPIKE_THRESHOLD", 20),
+      sequenceLength: positiveIntFromEnv("ANOMALY_SEQUENCE_LENGTH", 4),
+      sequenceGap: positiveIntFromEnv("ANOMALY_SEQUENCE_GAP", 10),
+    },
+    lookbackDays: positiveIntFromEnv("ANOMALY_LOOKBACK_DAYS", 2),
+    intervalMs: positiveIntFromEnv("ANOMALY_INTERVAL_MINUTES", 15) * 60 * 1000,
+  });
+  anomalyJob.start();
+  onShutdown("anomaly detection", () => anomalyJob.stop());
+  onShutdown("ocr", stopOcr);
+
+  // Signed catalog documents for devices that verify notes offline
+  const catalogBundler = new CatalogBundler(storage, createCatalogSigner());
+
+  // Photos are kept in memory only for as long as the request runs
+  const imageUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: positiveIntFromEnv("VERIFY_IMAGE_MAX_BYTES", 5 * 1024 * 1024), files: 1 },
+  }).single("image");
+  const receiveImage: RequestHandler = (req, res, next) => {
+    imageUpload(req, res, error => {
+      if (error instanceof multer.MulterError) {
+        return next(error.code === "LIMIT_FILE_SIZE"
+          ? new PayloadTooLargeError(error.message)
+          : new ValidationError(error.message));
+      }
+      next(error);
+    });
+  };
+
+  // Adds the earlier verifications of the serial to a result. Tenants can set a
+  // threshold at which these make their verifications suspicious.
+  const checkSightings = async (
+    req: Request,
+    denomination: Denomination,
+    verification: SerialVerification,
+  ): Promise<SerialVerification> => {
+    const tenant = req.principal?.tenantId ? await storage.getTenant(req.principal.tenantId) : undefined;
+    const windowDays = tenant?.repeatSightingWindowDays;
+    const since = windowDays ? new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000) : undefined;
+    const sightings = await storage.getSerialSightings(denomination.id, verification.normalizedSerial, since);
+    return applySightings(verification, sightings, tenant?.repeatSightingThreshold ?? null);
+  };
+
+  // Logs a single verification, unless the client is walking through serials;
+  // those are recorded as abuse so they do not skew the stats
+  const recordVerification = async (
+    req: Request,
+    country: Country,
+    denomination: Denomination,
+    serialNumber: string,
+    verification: SerialVerification,
+  ) => {
+    if (enumerationDetector.record(clientKey(req), denomination.id, verification.normalizedSerial)) {
+      await storage.createAbuseEvent({
+        kind: "enumeration",
+        clientKey: clientKey(req),
+        route: req.path,
+        countryId: country.id,
+        denominationId: denomination.id,
+        serialNumber,
+      });
+    } else {
+      const log = await storage.createVerificationLog({
+        ...toVerificationLog(country, denomination, serialNumber, verification),
+        tenantId: req.principal?.tenantId ?? null,
+      });
+      notifyWebhooks([{ log, country, denomination }]);
+    }
+  };
+
+  // OpenAPI 3 description of the API
+  app.get("/api/openapi.json", (req, res) => {
+    res.json(buildOpenApiDocument());
+  });
+
+  // Browsable API reference for the document above
+  app.get("/api/docs", (req, res) => {
+    res.type("html").send(DOCS_PAGE);
+  });
 
   // Get all countries
-  app.get("/api/countries", async (req, res) => {
+  app.get("/api/countries", async (req, res, next) => {
     try {
+      if (await isCatalogFresh(req, res)) {
+        return res.status(304).end();
+      }
+
       const countries = await storage.getCountries();
-      res.json(countries);
+      res.json(countries.map(country => toCountryResponse(country, req.locale)));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch countries" });
+      next(error);
     }
   });
 
-  // Get denominations for a country
-  app.get("/api/countries/:countryCode/denominations", async (req, res) => {
+  // Get denominations for a country; retired ones only with ?includeInactive=true
+  app.get("/api/countries/:countryCode/denominations", async (req, res, next) => {
     try {
+      if (await isCatalogFresh(req, res)) {
+        return res.status(304).end();
+      }
+
       const { countryCode } = req.params;
-      const country = await storage.getCountryByCode(countryCode);
+      const country = await storage.resolveCountry(countryCode);
       
-      if (!country) {
-        return res.status(404).json({ message: "Country not found" });
+      if (!country?.isActive) {
+        throw new NotFoundError("Country not found");
+      }
+
+      const includeInactive = req.query.includeInactive === "true";
+      const denominations = await storage.getDenominationsByCountry(country.id, { includeInactive });
+      res.json(denominations.map(denomination => toDenominationResponse(denomination, req.locale)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get the series of a denomination; removed ones only with ?includeInactive=true
+  app.get("/api/countries/:countryCode/denominations/:value/series", async (req, res, next) => {
+    try {
+      if (await isCatalogFresh(req, res)) {
+        return res.status(304).end();
+      }
+
+      const match = await findDenomination(req.params.countryCode, req.params.value);
+      if (!match) {
+        throw new NotFoundError("Country or denomination not found");
       }
 
-      const denominations = await storage.getDenominationsByCountry(country.id);
-      res.json(denominations);
+      const includeInactive = req.query.includeInactive === "true";
+      const series = await storage.getSeriesByDenomination(match.denomination.id, { includeInactive });
+      res.json(series.map(entry => toSeriesResponse(entry, req.locale)));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch denominations" });
+      next(error);
     }
   });
 
+  // The whole active catalog in one signed, compressed document for offline use
+  app.get("/api/catalog/bundle", async (req, res, next) => {
+    try {
+      const { version, document } = await catalogBundler.bundle();
+      res.set("Cache-Control", `public, max-age=${CATALOG_MAX_AGE_SECONDS}`);
+      res.set("ETag", `"${catalogBundler.signer.keyId}-${version}"`);
+      if (req.fresh) {
+        return res.status(304).end();
+      }
+
+      res.set("X-Catalog-Version", String(version));
+      sendSignedDocument(req, res, catalogBundler.signer, document);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Catalog entries changed since the version a device has, signed like the bundle
+  app.get("/api/catalog/changes", async (req, res, next) => {
+    try {
+      const { since } = catalogChangesQuerySchema.parse(req.query);
+
+      const changes = await catalogBundler.changes(since);
+      if (!changes) {
+        throw new ConflictError("Unknown catalog version; download the catalog bundle again", {
+          code: "catalog_version_unknown",
+        });
+      }
+
+      res.set("X-Catalog-Version", String(changes.version));
+      sendSignedDocument(req, res, catalogBundler.signer, changes.document);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Public key the catalog documents are signed with
+  app.get("/api/catalog/signing-key", (req, res) => {
+    const { keyId, publicKey } = catalogBundler.signer;
+    res.json({ keyId, algorithm: "Ed25519", publicKey });
+  });
+
   // Verify banknote
-  app.post("/api/verify", async (req, res) => {
+  app.post("/api/verify", verifyLimiter, verifyAccess, async (req, res, next) => {
     try {
-      const { countryCode, denomination, serialNumber } = verifyBanknoteSchema.parse(req.body);
+      const { countryCode, denomination, serialNumber, series } = verifyBanknoteSchema.parse(req.body);
       
-      const country = await storage.getCountryByCode(countryCode);
-      if (!country) {
-        return res.status(404).json({ message: "Country not found" });
+      const country = await storage.resolveCountry(countryCode);
+      if (!country?.isActive) {
+        throw new NotFoundError("Country not found");
       }
 
       const denominationData = await storage.getDenomination(country.id, denomination);
-      if (!denominationData) {
-        return res.status(404).json({ message: "Denomination not found" });
+      if (!denominationData?.isActive) {
+        throw new NotFoundError("Denomination not found");
       }
 
-      // Validate serial number format
-      const serialRegex = new RegExp(denominationData.serialFormat);
-      const formatValid = serialRegex.test(serialNumber);
-      const lengthValid = serialNumber.length === denominationData.serialLength;
-      
-      // Determine if banknote is authentic based on format and length validation
-      // In a real system, this would also check against a database of known authentic/counterfeit notes
-      const isAuthentic = formatValid && lengthValid;
+      const candidates = await storage.getSeriesByDenomination(denominationData.id);
+      const requested = series ? findSeriesByName(candidates, series) : undefined;
+      if (series && !requested) {
+        throw new NotFoundError("Series not found");
+      }
 
-      // Log the verification
-      await storage.createVerificationLog({
-        countryId: country.id,
-        denominationId: denominationData.id,
-        serialNumber,
-        isAuthentic,
-        formatValid,
-        lengthValid,
+      // Check the serial against the registry of known counterfeit and reported notes
+      const normalizedSerial = normalizeForSeries(denominationData, serialNumber, { candidates, requested });
+      const counterfeitEntry = await storage.getFlaggedSerial(denominationData.id, normalizedSerial);
+      const verification = await checkSightings(
+        req,
+        denominationData,
+        verifySerial(denominationData, serialNumber, counterfeitEntry, { candidates, requested }),
+      );
+
+      await recordVerification(req, country, denominationData, serialNumber, verification);
+
+      res.json(toVerificationResult(country, denominationData, serialNumber, verification, counterfeitEntry, req.locale));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Verify a banknote from a photo: read the serial with OCR, match it to a
+  // denomination by serial format and verify it like POST /api/verify
+  app.post("/api/verify/image", imageLimiter, verifyAccess, receiveImage, async (req, res, next) => {
+    try {
+      const fields = verifyImageSchema.parse(req.body);
+      if (!req.file) {
+        throw new ValidationError("Send the photo as multipart/form-data in the \"image\" field");
+      }
+      if (!OCR_IMAGE_TYPES.includes(req.file.mimetype)) {
+        throw new UnsupportedMediaTypeError("Unsupported image type; use one of {types}", {
+          params: { types: OCR_IMAGE_TYPES.join(", ") },
+        });
+      }
+
+      // Denominations the serial may belong to, narrowed down by the form fields
+      let countries = await storage.getCountries();
+      if (fields.countryCode) {
+        const country = await storage.resolveCountry(fields.countryCode);
+        if (!country?.isActive) {
+          throw new NotFoundError("Country not found");
+        }
+        countries = [country];
+      }
+      let entries: CatalogEntry[] = [];
+      for (const country of countries) {
+        for (const denomination of await storage.getDenominationsByCountry(country.id)) {
+          if (!fields.denomination || denomination.value === fields.denomination) {
+            entries.push({ country, denomination, series: await storage.getSeriesByDenomination(denomination.id) });
+          }
+        }
+      }
+      if (entries.length === 0) {
+        throw new NotFoundError("Denomination not found");
+      }
+      if (fields.series) {
+        entries = narrowToSeries(entries, fields.series);
+        if (entries.length === 0) {
+          throw new NotFoundError("Series not found");
+        }
+      }
+
+      let ocr: OcrResult;
+      try {
+        ocr = await recognizeText(req.file.buffer);
+      } catch (error) {
+        throw new UnprocessableError("Could not read the image", { code: "image_unreadable" });
+      }
+      const candidates = extractSerialCandidates(ocr);
+      const matches = matchSerialCandidates(candidates, entries, ocr.text);
+      const extraction = {
+        text: ocr.text,
+        confidence: ocr.confidence,
+        candidates: candidates.slice(0, MAX_REPORTED_CANDIDATES),
+      };
+
+      const best = matches[0];
+      if (!best) {
+        throw new UnprocessableError("No serial number matching a known format was found in the image", {
+          code: "serial_not_found",
+          details: { extraction },
+        });
+      }
+
+      const series = entries.find(entry => entry.denomination.id === best.denomination.id)!.series;
+      const selection = { candidates: series, requested: fields.series ? series[0] : undefined };
+      const counterfeitEntry = await storage.getFlaggedSerial(
+        best.denomination.id,
+        normalizeForSeries(best.denomination, best.serialNumber, selection),
+      );
+      const verification = await checkSightings(
+        req,
+        best.denomination,
+        verifySerial(best.denomination, best.serialNumber, counterfeitEntry, selection),
+      );
+      await recordVerification(req, best.country, best.denomination, best.serialNumber, verification);
+
+      res.json({
+        ...toVerificationResult(best.country, best.denomination, best.serialNumber, verification, counterfeitEntry, req.locale),
+        extraction: {
+          ...extraction,
+          readAs: best.readAs,
+          corrected: best.corrected,
+          serialConfidence: best.confidence,
+          // Other denominations the serial fits, e.g. when the face value was not legible
+          alternatives: matches.slice(1, MAX_REPORTED_CANDIDATES).map(match => ({
+            countryCode: match.country.code,
+            denomination: match.denomination.value,
+            serialNumber: match.serialNumber,
+            score: Math.round(match.score * 100) / 100,
+          })),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Verify a bundle of banknotes in one request, e.g. when counting cash
+  app.post("/api/verify/batch", batchLimiter, verifyAccess, async (req, res, next) => {
+    try {
+      const request = verifyBatchSchema.parse(req.body);
+      const items = "items" in request
+        ? request.items
+        : request.serialNumbers.map(serialNumber => ({
+            countryCode: request.countryCode,
+            denomination: request.denomination,
+            series: request.series,
+            serialNumber,
+          }));
+
+      // Resolve each distinct country/denomination pair and its series once
+      const denominationCache = new Map<string, DenominationMatch | undefined>();
+      const seriesCache = new Map<number, BanknoteSeries[]>();
+      for (const item of items) {
+        const key = `${item.countryCode}:${item.denomination}`;
+        if (!denominationCache.has(key)) {
+          const match = await findDenomination(item.countryCode, item.denomination);
+          denominationCache.set(key, match);
+          if (match) {
+            seriesCache.set(match.denomination.id, await storage.getSeriesByDenomination(match.denomination.id));
+          }
+        }
+      }
+
+      // One registry lookup per denomination rather than per note
+      const serialsByDenomination = new Map<number, string[]>();
+      for (const item of items) {
+        const match = denominationCache.get(`${item.countryCode}:${item.denomination}`);
+        if (match) {
+          const candidates = seriesCache.get(match.denomination.id) ?? [];
+          const requested = item.series ? findSeriesByName(candidates, item.series) : undefined;
+          const serials = serialsByDenomination.get(match.denomination.id) ?? [];
+          serials.push(normalizeForSeries(match.denomination, item.serialNumber, { candidates, requested }));
+          serialsByDenomination.set(match.denomination.id, serials);
+        }
+      }
+      const counterfeitEntries = new Map<string, FlaggedSerial>();
+      for (const [denominationId, serials] of Array.from(serialsByDenomination.entries())) {
+        const entries = await storage.findFlaggedSerials(denominationId, serials);
+        entries.forEach(entry => counterfeitEntries.set(`${entry.denominationId}:${entry.serialNumber}`, entry));
+      }
+
+      const notes: BundleNote[] = [];
+      const logs: InsertVerificationLog[] = [];
+      // The note each log row is for, in the same order
+      const logMatches: DenominationMatch[] = [];
+      const results = items.map((item, index) => {
+        const match = denominationCache.get(`${item.countryCode}:${item.denomination}`);
+        if (!match) {
+          return { index, ...item, error: translate(req.locale, "Country or denomination not found") };
+        }
+
+        const { country, denomination } = match;
+        const candidates = seriesCache.get(denomination.id) ?? [];
+        const requested = item.series ? findSeriesByName(candidates, item.series) : undefined;
+        if (item.series && !requested) {
+          return { index, ...item, error: translate(req.locale, "Series not found") };
+        }
+
+        const normalizedSerial = normalizeForSeries(denomination, item.serialNumber, { candidates, requested });
+        const counterfeitEntry = counterfeitEntries.get(`${denomination.id}:${normalizedSerial}`);
+        const verification = verifySerial(denomination, item.serialNumber, counterfeitEntry, { candidates, requested });
+
+        notes.push({ index, group: denomination.id, serialNumber: normalizedSerial });
+        logs.push({
+          ...toVerificationLog(country, denomination, item.serialNumber, verification),
+          tenantId: req.principal?.tenantId ?? null,
+        });
+        logMatches.push(match);
+        return {
+          index,
+          ...toVerificationResult(country, denomination, item.serialNumber, verification, counterfeitEntry, req.locale),
+          duplicateInBatch: false,
+          inSequentialRun: false,
+        };
       });
 
+      const created = await storage.createVerificationLogs(logs);
+      notifyWebhooks(created.map((log, i) => ({ log, ...logMatches[i] })));
+
+      const duplicates = findDuplicateSerials(notes);
+      const runs = findSequentialRuns(notes);
+      const inRun = new Set(runs.flatMap(run => run.indexes));
+      for (const result of results) {
+        if ("isAuthentic" in result) {
+          result.duplicateInBatch = duplicates.has(result.index);
+          result.inSequentialRun = inRun.has(result.index);
+        }
+      }
+
+      const verified = results.filter(result => "isAuthentic" in result);
+      const authentic = verified.filter(result => "isAuthentic" in result && result.isAuthentic).length;
       res.json({
-        country: country.name,
-        currency: country.currency,
-        denomination: denominationData.displayName,
-        serialNumber,
-        formatValid,
-        lengthValid,
-        isAuthentic,
-        patternDescription: denominationData.patternDescription,
-        timestamp: new Date().toISOString(),
+        results,
+        summary: {
+          total: items.length,
+          verified: verified.length,
+          authentic,
+          suspicious: verified.length - authentic,
+          knownCounterfeit: verified.filter(result => "knownCounterfeit" in result && result.knownCounterfeit).length,
+          notLegalTender: verified.filter(result => "legalTender" in result && !result.legalTender).length,
+          unresolved: items.length - verified.length,
+          duplicateSerials: duplicates.size,
+          sequentialRuns: runs.map(run => ({
+            countryCode: items[run.indexes[0]].countryCode,
+            denomination: items[run.indexes[0]].denomination,
+            start: run.start,
+            end: run.end,
+            length: run.length,
+          })),
+        },
       });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      next(error);
+    }
+  });
+
+  // Upload verifications a device made while offline. Each note is checked
+  // against the current catalog and logged at the time it was verified; items
+  // uploaded before are skipped, so a device can retry a whole upload.
+  app.post("/api/verify/offline", batchLimiter, verifyAccess, async (req, res, next) => {
+    try {
+      const { items } = offlineUploadSchema.parse(req.body);
+      const uploadedAt = new Date();
+
+      const results: OfflineUploadResponse["results"] = [];
+      const logs: InsertOfflineVerificationLog[] = [];
+      // The note and result each log row is for, in the same order
+      const verified: (DenominationMatch & { index: number; result: ReturnType<typeof toVerificationResult> })[] = [];
+      const denominationCache = new Map<string, DenominationMatch | undefined>();
+      const seen = new Set<string>();
+      for (let index = 0; index < items.length; index++) {
+        const item = items[index];
+        const skip = (status: "duplicate" | "rejected", error?: Message) =>
+          results.push({ index, offlineId: item.offlineId, status, ...(error ? { error: translate(req.locale, error) } : {}) });
+
+        if (seen.has(item.offlineId)) {
+          skip("duplicate");
+          continue;
+        }
+        seen.add(item.offlineId);
+        if (item.verifiedAt.getTime() > uploadedAt.getTime() + OFFLINE_CLOCK_SKEW_MS) {
+          skip("rejected", "Verification time is in the future");
+          continue;
+        }
+
+        const key = `${item.countryCode}:${item.denomination}`;
+        if (!denominationCache.has(key)) {
+          denominationCache.set(key, await findDenomination(item.countryCode, item.denomination));
+        }
+        const match = denominationCache.get(key);
+        if (!match) {
+          skip("rejected", "Country or denomination not found");
+          continue;
+        }
+
+        const { country, denomination } = match;
+        const candidates = await storage.getSeriesByDenomination(denomination.id);
+        const requested = item.series ? findSeriesByName(candidates, item.series) : undefined;
+        if (item.series && !requested) {
+          skip("rejected", "Series not found");
+          continue;
+        }
+
+        const normalizedSerial = normalizeForSeries(denomination, item.serialNumber, { candidates, requested });
+        const counterfeitEntry = await storage.getFlaggedSerial(denomination.id, normalizedSerial);
+        const verification = verifySerial(denomination, item.serialNumber, counterfeitEntry, { candidates, requested });
+        logs.push({
+          ...toVerificationLog(country, denomination, item.serialNumber, verification),
+          tenantId: req.principal?.tenantId ?? null,
+          offlineId: item.offlineId,
+          timestamp: item.verifiedAt,
+          uploadedAt,
+        });
+        verified.push({
+          index,
+          country,
+          denomination,
+          result: toVerificationResult(country, denomination, item.serialNumber, verification, counterfeitEntry, req.locale),
+        });
       }
-      res.status(500).json({ message: "Verification failed" });
+
+      // Rows already stored by an earlier upload are not created again
+      const created = await storage.createOfflineVerificationLogs(logs);
+      const createdById = new Map(created.map(log => [log.offlineId, log]));
+      const events: VerificationEvent[] = [];
+      verified.forEach(({ index, country, denomination, result }, i) => {
+        const offlineId = logs[i].offlineId;
+        const log = createdById.get(offlineId);
+        if (log) {
+          results.push({ index, offlineId, status: "recorded", logId: log.id, ...result });
+          events.push({ log, country, denomination });
+        } else {
+          results.push({ index, offlineId, status: "duplicate" });
+        }
+      });
+      notifyWebhooks(events);
+
+      results.sort((a, b) => a.index - b.index);
+      const count = (status: string) => results.filter(result => result.status === status).length;
+      res.json({
+        results,
+        summary: {
+          total: items.length,
+          recorded: count("recorded"),
+          duplicates: count("duplicate"),
+          rejected: count("rejected"),
+        },
+      });
+    } catch (error) {
+      next(error);
     }
   });
 
-  // Get verification statistics
-  app.get("/api/stats", async (req, res) => {
+  // Get verification statistics of the caller's tenant, optionally filtered by
+  // country, denomination and date range
+  app.get("/api/stats", auditAccess, async (req, res, next) => {
     try {
-      const stats = await storage.getVerificationStats();
+      const { tenantId, countryCode, denomination, from, to, interval } = statsQuerySchema.parse(req.query);
+
+      const scope = resolveTenantScope(req.principal!, tenantId);
+      const catalog = await resolveCatalogFilter(countryCode, denomination);
+
+      const stats = await storage.getVerificationStats({ ...scope, ...catalog, from, to, interval });
       res.json(stats);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch statistics" });
+      next(error);
+    }
+  });
+
+  // Page through the verification history, newest first by default
+  app.get("/api/verifications", auditAccess, async (req, res, next) => {
+    try {
+      const { tenantId, countryCode, denomination, result, cursor, limit, ...query } = verificationHistoryQuerySchema.parse(req.query);
+
+      const scope = resolveTenantScope(req.principal!, tenantId);
+      const catalog = await resolveCatalogFilter(countryCode, denomination);
+
+      const position = cursor ? decodeCursor(cursor) : undefined;
+      if (cursor && !position) {
+        throw new ValidationError("Invalid cursor");
+      }
+
+      // Fetch one extra row to know whether another page follows
+      const records = await storage.getVerificationLogs({
+        ...query,
+        ...scope,
+        ...catalog,
+        isAuthentic: result === undefined ? undefined : result === "authentic",
+        cursor: position,
+        limit: limit + 1,
+      });
+      const page = records.slice(0, limit);
+
+      res.json({
+        items: page.map(toHistoryItem),
+        nextCursor: records.length > limit ? encodeCursor(page[page.length - 1]) : null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Stream the filtered verification history as CSV or NDJSON for audit reports
+  app.get("/api/verifications/export", auditAccess, async (req, res, next) => {
+    try {
+      const { tenantId, countryCode, denomination, result, cursor, format, ...query } = verificationExportQuerySchema.parse(req.query);
+
+      const scope = resolveTenantScope(req.principal!, tenantId);
+      const catalog = await resolveCatalogFilter(countryCode, denomination);
+
+      let position = cursor ? decodeCursor(cursor) : undefined;
+      if (cursor && !position) {
+        throw new ValidationError("Invalid cursor");
+      }
+
+      const filename = `verifications-${new Date().toISOString().slice(0, 10)}.${format}`;
+      res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      await writeChunk(res, exportHeader(format));
+
+      // Page through with the same cursor as the history API so memory use stays flat
+      for (;;) {
+        const records = await storage.getVerificationLogs({
+          ...query,
+          ...scope,
+          ...catalog,
+          isAuthentic: result === undefined ? undefined : result === "authentic",
+          cursor: position,
+          limit: EXPORT_PAGE_SIZE,
+        });
+        if (records.length > 0) {
+          await writeChunk(res, records.map(record => exportLine(record, format)).join(""));
+        }
+        if (records.length < EXPORT_PAGE_SIZE) {
+          break;
+        }
+
+        const last = records[records.length - 1];
+        position = { timestamp: last.timestamp, id: last.id };
+      }
+
+      res.end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List anomaly alerts, most recently seen first, with the verifications behind
+  // each one. Callers other than admins see the alerts involving their tenant,
+  // with only their own tenant's verifications.
+  app.get("/api/alerts", auditAccess, async (req, res, next) => {
+    try {
+      const { tenantId, countryCode, denomination, ...query } = alertsQuerySchema.parse(req.query);
+
+      const scope = resolveTenantScope(req.principal!, tenantId);
+      const catalog = await resolveCatalogFilter(countryCode, denomination);
+
+      const list = await storage.getAlerts({ ...query, ...scope, ...catalog });
+      const records = await storage.getVerificationLogsByIds(list.flatMap(alert => alert.logIds));
+      const recordsById = new Map(records.map(record => [record.id, record]));
+      const visibleTenant = req.principal!.role === "admin" ? undefined : scope.tenantId;
+      res.json(list.map(alert => toAlertResponse(alert, recordsById, visibleTenant)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List webhooks; admins see all or one tenant's, everyone else their own tenant's
+  app.get("/api/webhooks", auditAccess, async (req, res, next) => {
+    try {
+      const { tenantId } = webhooksQuerySchema.parse(req.query);
+
+      const scope = resolveTenantScope(req.principal!, tenantId);
+
+      const list = await storage.getWebhooks(scope);
+      res.json(list.map(toWebhookResponse));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Register a webhook; the signing secret is only returned here
+  app.post("/api/webhooks", auditAccess, async (req, res, next) => {
+    try {
+      const { tenantId, countryCode, denomination, burst, ...data } = createWebhookSchema.parse(req.body);
+
+      const scope = resolveTenantScope(req.principal!, tenantId);
+      if (scope.tenantId !== undefined && !await storage.getTenant(scope.tenantId)) {
+        throw new NotFoundError("Tenant not found");
+      }
+
+      const catalog = await resolveCatalogFilter(countryCode, denomination);
+      await assertWebhookTarget(data.url);
+
+      const secret = generateWebhookSecret();
+      const webhook = await storage.createWebhook({
+        ...data,
+        tenantId: scope.tenantId ?? null,
+        secret,
+        countryId: catalog.countryId ?? null,
+        denominationId: catalog.denominationId ?? null,
+        burstThreshold: burst?.threshold ?? null,
+        burstWindowSeconds: burst?.windowSeconds ?? null,
+      });
+      res.status(201).json({ ...toWebhookResponse(webhook), secret });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Update a webhook's URL or filters, or pause it with isActive: false
+  app.patch("/api/webhooks/:id", auditAccess, async (req, res, next) => {
+    try {
+      const id = z.coerce.number().int().positive().parse(req.params.id);
+      const { burst, ...data } = updateWebhookSchema.parse(req.body);
+
+      const existing = await storage.getWebhook(id);
+      if (!existing || !canManageWebhook(req.principal!, existing)) {
+        throw new NotFoundError("Webhook not found");
+      }
+
+      if (data.url !== undefined) {
+        await assertWebhookTarget(data.url);
+      }
+
+      const update: UpdateWebhook = { ...data };
+      if (burst !== undefined) {
+        update.burstThreshold = burst?.threshold ?? null;
+        update.burstWindowSeconds = burst?.windowSeconds ?? null;
+      }
+      const webhook = await storage.updateWebhook(id, update);
+      res.json(toWebhookResponse(webhook!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Soft-delete a webhook; pending retries are dropped and its deliveries stay listed
+  app.delete("/api/webhooks/:id", auditAccess, async (req, res, next) => {
+    try {
+      const id = z.coerce.number().int().positive().parse(req.params.id);
+
+      const existing = await storage.getWebhook(id);
+      if (!existing || !canManageWebhook(req.principal!, existing)) {
+        throw new NotFoundError("Webhook not found");
+      }
+
+      await storage.updateWebhook(id, { isActive: false });
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Delivery log of a webhook, newest first
+  app.get("/api/webhooks/:id/deliveries", auditAccess, async (req, res, next) => {
+    try {
+      const id = z.coerce.number().int().positive().parse(req.params.id);
+      const query = webhookDeliveriesQuerySchema.parse(req.query);
+
+      const webhook = await storage.getWebhook(id);
+      if (!webhook || !canManageWebhook(req.principal!, webhook)) {
+        throw new NotFoundError("Webhook not found");
+      }
+
+      const deliveries = await storage.getWebhookDeliveries({ webhookId: id, ...query });
+      res.json(deliveries);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Send a "ping" event to check that the endpoint is reachable and verifies signatures
+  app.post("/api/webhooks/:id/ping", auditAccess, async (req, res, next) => {
+    try {
+      const id = z.coerce.number().int().positive().parse(req.params.id);
+
+      const webhook = await storage.getWebhook(id);
+      if (!webhook || !canManageWebhook(req.principal!, webhook)) {
+        throw new NotFoundError("Webhook not found");
+      }
+
+      const delivery = await webhookDispatcher.ping(webhook);
+      res.json(delivery);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Create a country
+  app.post("/api/admin/countries", requireAdmin, async (req, res, next) => {
+    try {
+      const data = insertCountrySchema.parse(req.body);
+
+      if (await storage.getCountryByCode(data.code)) {
+        throw new ConflictError("Country code already exists");
+      }
+
+      const country = await storage.createCountry(data);
+      res.status(201).json(country);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Update a country; setting isActive to true restores a deleted country
+  app.patch("/api/admin/countries/:countryCode", requireAdmin, async (req, res, next) => {
+    try {
+      const update = updateCountrySchema.parse(req.body);
+
+      const country = await storage.getCountryByCode(req.params.countryCode);
+      if (!country) {
+        throw new NotFoundError("Country not found");
+      }
+
+      if (update.code && update.code !== country.code && await storage.getCountryByCode(update.code)) {
+        throw new ConflictError("Country code already exists");
+      }
+
+      const updated = await storage.updateCountry(country.id, update);
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Soft-delete a country; its rows and verification history are kept
+  app.delete("/api/admin/countries/:countryCode", requireAdmin, async (req, res, next) => {
+    try {
+      const country = await storage.getCountryByCode(req.params.countryCode);
+      if (!country) {
+        throw new NotFoundError("Country not found");
+      }
+
+      await storage.updateCountry(country.id, { isActive: false });
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Create a denomination for a country
+  app.post("/api/admin/countries/:countryCode/denominations", requireAdmin, async (req, res, next) => {
+    try {
+      const country = await storage.getCountryByCode(req.params.countryCode);
+      if (!country) {
+        throw new NotFoundError("Country not found");
+      }
+
+      const data = insertDenominationSchema.parse({ ...req.body, countryId: country.id });
+
+      const formatErrors = validateSerialFormat(data.serialFormat, data.serialLength);
+      if (formatErrors.length > 0) {
+        throw new ValidationError("Invalid serial format", formatErrors);
+      }
+
+      if (await storage.getDenomination(country.id, data.value)) {
+        throw new ConflictError("Denomination already exists for this country");
+      }
+
+      const denomination = await storage.createDenomination(data);
+      res.status(201).json(denomination);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Update a denomination; setting isActive to true restores a retired denomination
+  app.patch("/api/admin/denominations/:id", requireAdmin, async (req, res, next) => {
+    try {
+      const id = z.coerce.number().int().positive().parse(req.params.id);
+      const update = updateDenominationSchema.parse(req.body);
+
+      const denomination = await storage.getDenominationById(id);
+      if (!denomination) {
+        throw new NotFoundError("Denomination not found");
+      }
+
+      // Format and length are validated together, whichever of them changed
+      if (update.serialFormat !== undefined || update.serialLength !== undefined) {
+        const formatErrors = validateSerialFormat(
+          update.serialFormat ?? denomination.serialFormat,
+          update.serialLength ?? denomination.serialLength,
+        );
+        if (formatErrors.length > 0) {
+          throw new ValidationError("Invalid serial format", formatErrors);
+        }
+      }
+
+      if (update.value && update.value !== denomination.value && await storage.getDenomination(denomination.countryId, update.value)) {
+        throw new ConflictError("Denomination already exists for this country");
+      }
+
+      const updated = await storage.updateDenomination(id, update);
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Retire a denomination; it stays in the database but is hidden and no longer verified
+  app.delete("/api/admin/denominations/:id", requireAdmin, async (req, res, next) => {
+    try {
+      const id = z.coerce.number().int().positive().parse(req.params.id);
+
+      const updated = await storage.updateDenomination(id, { isActive: false });
+      if (!updated) {
+        throw new NotFoundError("Denomination not found");
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Add a series to a denomination, e.g. a new design with its own serial format
+  app.post("/api/admin/denominations/:id/series", requireAdmin, async (req, res, next) => {
+    try {
+      const denominationId = z.coerce.number().int().positive().parse(req.params.id);
+
+      const denomination = await storage.getDenominationById(denominationId);
+      if (!denomination) {
+        throw new NotFoundError("Denomination not found");
+      }
+
+      const data = insertBanknoteSeriesSchema.parse({ ...req.body, denominationId });
+
+      const formatErrors = validateSerialFormat(data.serialFormat, data.serialLength);
+      if (formatErrors.length > 0) {
+        throw new ValidationError("Invalid serial format", formatErrors);
+      }
+
+      const existing = await storage.getSeriesByDenomination(denominationId, { includeInactive: true });
+      if (findSeriesByName(existing, data.name)) {
+        throw new ConflictError("Series already exists for this denomination");
+      }
+
+      const series = await storage.createSeries(data);
+      res.status(201).json(series);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Update a series, e.g. to record its withdrawal date and legal tender status
+  app.patch("/api/admin/series/:id", requireAdmin, async (req, res, next) => {
+    try {
+      const id = z.coerce.number().int().positive().parse(req.params.id);
+      const update = updateBanknoteSeriesSchema.parse(req.body);
+
+      const series = await storage.getSeriesById(id);
+      if (!series) {
+        throw new NotFoundError("Series not found");
+      }
+
+      if (update.serialFormat !== undefined || update.serialLength !== undefined) {
+        const formatErrors = validateSerialFormat(
+          update.serialFormat ?? series.serialFormat,
+          update.serialLength ?? series.serialLength,
+        );
+        if (formatErrors.length > 0) {
+          throw new ValidationError("Invalid serial format", formatErrors);
+        }
+      }
+
+      if (update.name && update.name.toLowerCase() !== series.name.toLowerCase()) {
+        const existing = await storage.getSeriesByDenomination(series.denominationId, { includeInactive: true });
+        if (findSeriesByName(existing, update.name)) {
+          throw new ConflictError("Series already exists for this denomination");
+        }
+      }
+
+      const updated = await storage.updateSeries(id, update);
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Remove a series from the catalog; it is no longer offered or detected.
+  // Withdrawn series should be kept and marked via PATCH instead.
+  app.delete("/api/admin/series/:id", requireAdmin, async (req, res, next) => {
+    try {
+      const id = z.coerce.number().int().positive().parse(req.params.id);
+
+      const updated = await storage.updateSeries(id, { isActive: false });
+      if (!updated) {
+        throw new NotFoundError("Series not found");
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List counterfeit registry entries, optionally for one country or denomination
+  app.get("/api/admin/flagged-serials", requireAdmin, async (req, res, next) => {
+    try {
+      const { countryCode, denomination } = flaggedSerialsQuerySchema.parse(req.query);
+
+      const catalog = await resolveCatalogFilter(countryCode, denomination);
+
+      const entries = await storage.getFlaggedSerials(catalog);
+      res.json(entries);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Add a single serial number to the counterfeit registry
+  app.post("/api/admin/flagged-serials", requireAdmin, async (req, res, next) => {
+    try {
+      const { countryCode, denomination, serialNumber, source, reason } = flagSerialSchema.parse(req.body);
+
+      const match = await findDenomination(countryCode, denomination);
+      if (!match) {
+        throw new NotFoundError("Country or denomination not found");
+      }
+
+      // Normalised the way verification does, so the entry is found by it
+      const candidates = await storage.getSeriesByDenomination(match.denomination.id);
+      const [entry] = await storage.createFlaggedSerials([{
+        countryId: match.country.id,
+        denominationId: match.denomination.id,
+        serialNumber: normalizeForSeries(match.denomination, serialNumber, { candidates }),
+        source,
+        reason,
+      }]);
+      if (!entry) {
+        throw new ConflictError("Serial number is already in the registry");
+      }
+
+      res.status(201).json(entry);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Bulk import into the counterfeit registry; existing entries are skipped
+  app.post("/api/admin/flagged-serials/import", requireAdmin, async (req, res, next) => {
+    try {
+      const { entries } = importFlaggedSerialsSchema.parse(req.body);
+
+      const denominationCache = new Map<string, DenominationMatch | undefined>();
+      const seriesCache = new Map<number, BanknoteSeries[]>();
+      const accepted: InsertFlaggedSerial[] = [];
+      const rejected: { index: number; message: string }[] = [];
+
+      for (let index = 0; index < entries.length; index++) {
+        const entry = entries[index];
+        const key = `${entry.countryCode}:${entry.denomination}`;
+        if (!denominationCache.has(key)) {
+          const match = await findDenomination(entry.countryCode, entry.denomination);
+          denominationCache.set(key, match);
+          if (match) {
+            seriesCache.set(match.denomination.id, await storage.getSeriesByDenomination(match.denomination.id));
+          }
+        }
+
+        const match = denominationCache.get(key);
+        if (!match) {
+          rejected.push({ index, message: "Country or denomination not found" });
+          continue;
+        }
+
+        const candidates = seriesCache.get(match.denomination.id) ?? [];
+        accepted.push({
+          countryId: match.country.id,
+          denominationId: match.denomination.id,
+          serialNumber: normalizeForSeries(match.denomination, entry.serialNumber, { candidates }),
+          source: entry.source,
+          reason: entry.reason,
+        });
+      }
+
+      const created = await storage.createFlaggedSerials(accepted);
+      res.json({
+        imported: created.length,
+        skipped: accepted.length - created.length,
+        rejected,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Remove an entry from the counterfeit registry
+  app.delete("/api/admin/flagged-serials/:id", requireAdmin, async (req, res, next) => {
+    try {
+      const id = z.coerce.number().int().positive().parse(req.params.id);
+
+      const deleted = await storage.deleteFlaggedSerial(id);
+      if (!deleted) {
+        throw new NotFoundError("Flagged serial not found");
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List tenants
+  app.get("/api/admin/tenants", requireAdmin, async (req, res, next) => {
+    try {
+      const tenants = await storage.getTenants();
+      res.json(tenants);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Create a tenant, e.g. a branch or partner shop
+  app.post("/api/admin/tenants", requireAdmin, async (req, res, next) => {
+    try {
+      const data = insertTenantSchema.parse(req.body);
+
+      if (await storage.getTenantByName(data.name)) {
+        throw new ConflictError("Tenant already exists");
+      }
+
+      const tenant = await storage.createTenant(data);
+      res.status(201).json(tenant);
+    } catch (error) {
+      next(error);
     }
   });
 
+  // Rename a tenant, or deactivate it; keys of inactive tenants are rejected
+  app.patch("/api/admin/tenants/:id", requireAdmin, async (req, res, next) => {
+    try {
+      const id = z.coerce.number().int().positive().parse(req.params.id);
+      const update = updateTenantSchema.parse(req.body);
+
+      const tenant = await storage.getTenant(id);
+      if (!tenant) {
+        throw new NotFoundError("Tenant not found");
+      }
+
+      if (update.name && update.name !== tenant.name && await storage.getTenantByName(update.name)) {
+        throw new ConflictError("Tenant already exists");
+      }
+
+      const updated = await storage.updateTenant(id, update);
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List the API keys of a tenant, including revoked ones
+  app.get("/api/admin/tenants/:id/api-keys", requireAdmin, async (req, res, next) => {
+    try {
+      const id = z.coerce.number().int().positive().parse(req.params.id);
+
+      if (!await storage.getTenant(id)) {
+        throw new NotFoundError("Tenant not found");
+      }
+
+      const keys = await storage.getApiKeysByTenant(id);
+      res.json(keys.map(toApiKeyResponse));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Issue an API key for a tenant; the key is only ever returned in this response
+  app.post("/api/admin/tenants/:id/api-keys", requireAdmin, async (req, res, next) => {
+    try {
+      const tenantId = z.coerce.number().int().positive().parse(req.params.id);
+      const { name, role } = issueApiKeySchema.parse(req.body);
+
+      if (!await storage.getTenant(tenantId)) {
+        throw new NotFoundError("Tenant not found");
+      }
+
+      const { key, keyPrefix, keyHash } = generateApiKey();
+      const apiKey = await storage.createApiKey({ tenantId, name, role, keyPrefix, keyHash });
+      res.status(201).json({ ...toApiKeyResponse(apiKey), key });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Replace a key with a new one of the same tenant, name and role. The old key
+  // keeps working for graceSeconds so clients can switch over.
+  app.post("/api/admin/api-keys/:id/rotate", requireAdmin, async (req, res, next) => {
+    try {
+      const id = z.coerce.number().int().positive().parse(req.params.id);
+      const { graceSeconds } = rotateApiKeySchema.parse(req.body ?? {});
+
+      const existing = await storage.getApiKeyById(id);
+      if (!existing || existing.revokedAt) {
+        throw new NotFoundError("API key not found");
+      }
+
+      const { key, keyPrefix, keyHash } = generateApiKey();
+      const apiKey = await storage.createApiKey({
+        tenantId: existing.tenantId,
+        name: existing.name,
+        role: existing.role,
+        keyPrefix,
+        keyHash,
+      });
+
+      const now = new Date();
+      await storage.updateApiKey(id, graceSeconds > 0
+        ? { expiresAt: new Date(now.getTime() + graceSeconds * 1000) }
+        : { revokedAt: now });
+
+      res.status(201).json({ ...toApiKeyResponse(apiKey), key });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Revoke a key immediately; it stays listed for auditing
+  app.delete("/api/admin/api-keys/:id", requireAdmin, async (req, res, next) => {
+    try {
+      const id = z.coerce.number().int().positive().parse(req.params.id);
+
+      const existing = await storage.getApiKeyById(id);
+      if (!existing) {
+        throw new NotFoundError("API key not found");
+      }
+
+      if (!existing.revokedAt) {
+        await storage.updateApiKey(id, { revokedAt: new Date() });
+      }
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List throttled and suspicious requests, newest first
+  app.get("/api/admin/abuse-events", requireAdmin, async (req, res, next) => {
+    try {
+      const filter = abuseEventsQuerySchema.parse(req.query);
+      const events = await storage.getAbuseEvents(filter);
+      res.json(events);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Run the anomaly analysis now instead of waiting for the next scheduled run
+  app.post("/api/admin/alerts/analyze", requireAdmin, async (req, res, next) => {
+    try {
+      const alerts = await anomalyJob.run();
+      res.json({ alerts: alerts.length });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Unknown API routes answer with a JSON 404 rather than falling through to the client app
+  app.use("/api", (req, res, next) => {
+    next(new NotFoundError("Route not found"));
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
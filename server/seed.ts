@@ -0,0 +1,15 @@
+import type { IStorage } from "./storage";
+import { loadCatalog, syncCatalog } from "./catalogSync";
+
+// Loads the catalog of countries, denominations and series into an empty store.
+// Shared by every IStorage implementation so all backends start from the same data;
+// later catalog changes are applied with the sync command (npm run catalog:sync).
+export async function seedInitialData(storage: IStorage): Promise<void> {
+  // Check if data already exists
+  const existingCountries = await storage.getCountries({ includeInactive: true });
+  if (existingCountries.length > 0) {
+    return; // Data already seeded
+  }
+
+  await syncCatalog(storage, loadCatalog());
+}
@@ -0,0 +1,401 @@
+// Static checks for the serialFormat regex of a denomination. Patterns are
+// submitted through the admin API and later run against user input, so they
+// must compile, must not backtrack catastrophically and must be able to match
+// a serial of the configured serialLength.
+
+type CharPredicate = (code: number) => boolean;
+
+type RegexNode =
+  | { type: "char"; matches: CharPredicate }
+  | { type: "assert"; anchor?: "start" | "end" }
+  | { type: "seq"; items: RegexNode[] }
+  | { type: "alt"; options: RegexNode[] }
+  | { type: "repeat"; body: RegexNode; min: number; max: number };
+
+class UnsupportedPatternError extends Error {}
+
+const isDigit: CharPredicate = code => code >= 48 && code <= 57;
+const isWord: CharPredicate = code =>
+  isDigit(code) || (code >= 65 && code <= 90) || (code >= 97 && code <= 122) || code === 95;
+const isSpace: CharPredicate = code => /\s/.test(String.fromCharCode(code));
+const isAnyButNewline: CharPredicate = code => code !== 10 && code !== 13 && code !== 0x2028 && code !== 0x2029;
+
+const CLASS_ESCAPES: Record<string, CharPredicate> = {
+  d: isDigit,
+  D: code => !isDigit(code),
+  w: isWord,
+  W: code => !isWord(code),
+  s: isSpace,
+  S: code => !isSpace(code),
+};
+
+const CONTROL_ESCAPES: Record<string, number> = {
+  n: 10,
+  r: 13,
+  t: 9,
+  v: 11,
+  f: 12,
+  "0": 0,
+};
+
+// Minimal recursive-descent parser for the subset of JavaScript regex syntax
+// needed to reason about match lengths and backtracking
+class PatternParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): RegexNode {
+    const node = this.parseAlternation();
+    if (this.pos < this.source.length) {
+      throw new UnsupportedPatternError(`Unexpected "${this.source[this.pos]}"`);
+    }
+    return node;
+  }
+
+  private peek(offset = 0): string | undefined {
+    return this.source[this.pos + offset];
+  }
+
+  private parseAlternation(): RegexNode {
+    const options = [this.parseSequence()];
+    while (this.peek() === "|") {
+      this.pos++;
+      options.push(this.parseSequence());
+    }
+    return options.length === 1 ? options[0] : { type: "alt", options };
+  }
+
+  private parseSequence(): RegexNode {
+    const items: RegexNode[] = [];
+    while (this.pos < this.source.length && this.peek() !== "|" && this.peek() !== ")") {
+      const atom = this.parseAtom();
+      items.push(this.parseQuantifier(atom));
+    }
+    return { type: "seq", items };
+  }
+
+  private parseQuantifier(atom: RegexNode): RegexNode {
+    let min: number;
+    let max: number;
+    const char = this.peek();
+
+    if (char === "*" || char === "+" || char === "?") {
+      this.pos++;
+      min = char === "+" ? 1 : 0;
+      max = char === "?" ? 1 : Infinity;
+    } else if (char === "{") {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(this.source.slice(this.pos));
+      if (!match) {
+        return atom;
+      }
+      this.pos += match[0].length;
+      min = Number(match[1]);
+      max = match[2] === undefined ? min : match[3] === "" ? Infinity : Number(match[3]);
+    } else {
+      return atom;
+    }
+
+    // Lazy quantifiers match the same lengths
+    if (this.peek() === "?") {
+      this.pos++;
+    }
+    return { type: "repeat", body: atom, min, max };
+  }
+
+  private parseAtom(): RegexNode {
+    const char = this.source[this.pos++];
+    switch (char) {
+      case "^":
+        return { type: "assert", anchor: "start" };
+      case "$":
+        return { type: "assert", anchor: "end" };
+      case ".":
+        return { type: "char", matches: isAnyButNewline };
+      case "[":
+        return this.parseClass();
+      case "(":
+        return this.parseGroup();
+      case "\\":
+        return this.parseEscape();
+      default:
+        return this.literal(char.charCodeAt(0));
+    }
+  }
+
+  private parseGroup(): RegexNode {
+    let lookaround = false;
+    if (this.peek() === "?") {
+      const rest = this.source.slice(this.pos + 1);
+      if (rest.startsWith(":")) {
+        this.pos += 2;
+      } else if (rest.startsWith("=") || rest.startsWith("!")) {
+        this.pos += 2;
+        lookaround = true;
+      } else if (rest.startsWith("<=") || rest.startsWith("<!")) {
+        this.pos += 3;
+        lookaround = true;
+      } else if (rest.startsWith("<")) {
+        this.pos = this.source.indexOf(">", this.pos) + 1;
+      }
+    }
+
+    const body = this.parseAlternation();
+    if (this.peek() !== ")") {
+      throw new UnsupportedPatternError("Unterminated group");
+    }
+    this.pos++;
+    return lookaround ? { type: "assert" } : body;
+  }
+
+  private parseEscape(): RegexNode {
+    const char = this.source[this.pos++];
+    if (char === "b" || char === "B") {
+      return { type: "assert" };
+    }
+    if (/[1-9]/.test(char) || char === "k") {
+      throw new UnsupportedPatternError("Backreferences are not allowed in serial formats");
+    }
+    const classEscape = CLASS_ESCAPES[char];
+    if (classEscape) {
+      return { type: "char", matches: classEscape };
+    }
+    return this.literal(this.readEscapedCode(char));
+  }
+
+  private readEscapedCode(char: string): number {
+    if (char in CONTROL_ESCAPES) {
+      return CONTROL_ESCAPES[char];
+    }
+    if (char === "x" || char === "u") {
+      const digits = char === "x" ? 2 : 4;
+      const hex = this.source.slice(this.pos, this.pos + digits);
+      if (/^[0-9a-fA-F]+$/.test(hex) && hex.length === digits) {
+        this.pos += digits;
+        return parseInt(hex, 16);
+      }
+    }
+    if (char === "c" && /[A-Za-z]/.test(this.peek() ?? "")) {
+      return this.source.charCodeAt(this.pos++) % 32;
+    }
+    return char.charCodeAt(0);
+  }
+
+  private parseClass(): RegexNode {
+    const negated = this.peek() === "^";
+    if (negated) {
+      this.pos++;
+    }
+
+    const parts: CharPredicate[] = [];
+    while (this.peek() !== "]") {
+      if (this.pos >= this.source.length) {
+        throw new UnsupportedPatternError("Unterminated character class");
+      }
+
+      const start = this.readClassMember();
+      if (typeof start === "number" && this.peek() === "-" && this.peek(1) !== "]" && this.peek(1) !== undefined) {
+        this.pos++;
+        const end = this.readClassMember();
+        if (typeof end === "number") {
+          parts.push(code => code >= start && code <= end);
+          continue;
+        }
+        parts.push(code => code === start || code === 45, end);
+        continue;
+      }
+      parts.push(typeof start === "number" ? code => code === start : start);
+    }
+    this.pos++;
+
+    const inClass: CharPredicate = code => parts.some(part => part(code));
+    return { type: "char", matches: negated ? code => !inClass(code) : inClass };
+  }
+
+  // A single character code, or a predicate for escapes such as \d inside a class
+  private readClassMember(): number | CharPredicate {
+    const char = this.source[this.pos++];
+    if (char !== "\\") {
+      return char.charCodeAt(0);
+    }
+    const escaped = this.source[this.pos++];
+    if (escaped === "b") {
+      return 8;
+    }
+    return CLASS_ESCAPES[escaped] ?? this.readEscapedCode(escaped);
+  }
+
+  private literal(code: number): RegexNode {
+    return { type: "char", matches: c => c === code };
+  }
+}
+
+function lengthBounds(node: RegexNode): [number, number] {
+  switch (node.type) {
+    case "char":
+      return [1, 1];
+    case "assert":
+      return [0, 0];
+    case "seq":
+      return node.items.reduce<[number, number]>(
+        ([min, max], item) => {
+          const [itemMin, itemMax] = lengthBounds(item);
+          return [min + itemMin, max + itemMax];
+        },
+        [0, 0],
+      );
+    case "alt": {
+      const bounds = node.options.map(lengthBounds);
+      return [Math.min(...bounds.map(b => b[0])), Math.max(...bounds.map(b => b[1]))];
+    }
+    case "repeat": {
+      const [bodyMin, bodyMax] = lengthBounds(node.body);
+      const max = node.max === 0 || bodyMax === 0 ? 0 : bodyMax * node.max;
+      return [bodyMin * node.min, max];
+    }
+  }
+}
+
+// Predicates for the characters a node can start with, and whether it can match empty
+function firstChars(node: RegexNode): { chars: CharPredicate[]; nullable: boolean } {
+  switch (node.type) {
+    case "char":
+      return { chars: [node.matches], nullable: false };
+    case "assert":
+      return { chars: [], nullable: true };
+    case "seq": {
+      const chars: CharPredicate[] = [];
+      for (const item of node.items) {
+        const first = firstChars(item);
+        chars.push(...first.chars);
+        if (!first.nullable) {
+          return { chars, nullable: false };
+        }
+      }
+      return { chars, nullable: true };
+    }
+    case "alt": {
+      const firsts = node.options.map(firstChars);
+      return {
+        chars: firsts.flatMap(first => first.chars),
+        nullable: firsts.some(first => first.nullable),
+      };
+    }
+    case "repeat": {
+      const first = firstChars(node.body);
+      return { chars: first.chars, nullable: first.nullable || node.min === 0 };
+    }
+  }
+}
+
+function overlaps(a: CharPredicate[], b: CharPredicate[]): boolean {
+  for (let code = 0; code <= 0xffff; code++) {
+    if (a.some(match => match(code)) && b.some(match => match(code))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function containsUnboundedRepeat(node: RegexNode): boolean {
+  switch (node.type) {
+    case "repeat":
+      return node.max === Infinity || containsUnboundedRepeat(node.body);
+    case "seq":
+      return node.items.some(containsUnboundedRepeat);
+    case "alt":
+      return node.options.some(containsUnboundedRepeat);
+    default:
+      return false;
+  }
+}
+
+function hasOverlappingAlternatives(node: RegexNode): boolean {
+  switch (node.type) {
+    case "alt": {
+      const firsts = node.options.map(option => firstChars(option).chars);
+      for (let i = 0; i < firsts.length; i++) {
+        for (let j = i + 1; j < firsts.length; j++) {
+          if (overlaps(firsts[i], firsts[j])) {
+            return true;
+          }
+        }
+      }
+      return node.options.some(hasOverlappingAlternatives);
+    }
+    case "seq":
+      return node.items.some(hasOverlappingAlternatives);
+    case "repeat":
+      return hasOverlappingAlternatives(node.body);
+    default:
+      return false;
+  }
+}
+
+// Flags the classic exponential shapes: a repeated group that itself contains
+// an unbounded repeat, e.g. (\d+)+, or alternatives that can match the same
+// input inside an unbounded repeat, e.g. (A|AB)*
+function findBacktrackingRisk(node: RegexNode): boolean {
+  switch (node.type) {
+    case "repeat":
+      if (node.max > 1 && containsUnboundedRepeat(node.body)) {
+        return true;
+      }
+      if (node.max === Infinity && hasOverlappingAlternatives(node.body)) {
+        return true;
+      }
+      return findBacktrackingRisk(node.body);
+    case "seq":
+      return node.items.some(findBacktrackingRisk);
+    case "alt":
+      return node.options.some(findBacktrackingRisk);
+    default:
+      return false;
+  }
+}
+
+// A pattern only constrains the whole serial if every alternative is anchored at both ends
+function isFullyAnchored(node: RegexNode): boolean {
+  const options = node.type === "alt" ? node.options : [node];
+  return options.every(option => {
+    if (option.type !== "seq" || option.items.length === 0) {
+      return false;
+    }
+    const first = option.items[0];
+    const last = option.items[option.items.length - 1];
+    return first.type === "assert" && first.anchor === "start" && last.type === "assert" && last.anchor === "end";
+  });
+}
+
+// Returns a list of problems with the given serialFormat; empty when it is safe to use
+export function validateSerialFormat(serialFormat: string, serialLength: number): string[] {
+  try {
+    new RegExp(serialFormat);
+  } catch (error) {
+    return [`serialFormat is not a valid regular expression: ${(error as Error).message}`];
+  }
+
+  let pattern: RegexNode;
+  try {
+    pattern = new PatternParser(serialFormat).parse();
+  } catch (error) {
+    if (error instanceof UnsupportedPatternError) {
+      return [`serialFormat is not supported: ${error.message}`];
+    }
+    throw error;
+  }
+
+  const errors: string[] = [];
+  if (findBacktrackingRisk(pattern)) {
+    errors.push("serialFormat is vulnerable to catastrophic backtracking (nested or overlapping repetition)");
+  }
+
+  const [min, rawMax] = lengthBounds(pattern);
+  const max = isFullyAnchored(pattern) ? rawMax : Infinity;
+  if (serialLength < min || serialLength > max) {
+    const range = max === Infinity ? `${min} or more` : min === max ? `${min}` : `${min}-${max}`;
+    errors.push(`serialFormat only matches serials of length ${range}, which contradicts serialLength ${serialLength}`);
+  }
+
+  return errors;
+}
@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { loadCatalog, syncCatalog } from "./catalogSync";
+import { MemStorage } from "./memStorage";
+import { narrowToSeries, type CatalogEntry } from "./serialMatching";
+
+// Every GB denomination with its series, as the image route collects them
+// when the face value is left out
+async function gbEntries(): Promise<CatalogEntry[]> {
+  const storage = new MemStorage();
+  const catalog = loadCatalog();
+  await syncCatalog(storage, { ...catalog, countries: catalog.countries.filter(country => country.code === "GB") });
+  const country = (await storage.getCountryByCode("GB"))!;
+  const entries: CatalogEntry[] = [];
+  for (const denomination of await storage.getDenominationsByCountry(country.id)) {
+    entries.push({ country, denomination, series: await storage.getSeriesByDenomination(denomination.id) });
+  }
+  return entries;
+}
+
+test("a series narrows every denomination issued in it", async () => {
+  const entries = await gbEntries();
+  const narrowed = narrowToSeries(entries, "series f (paper)");
+
+  // The £10 was never issued in Series F, so only it is dropped
+  assert.deepEqual(narrowed.map(entry => entry.denomination.value).sort(), ["20", "5", "50"]);
+  for (const entry of narrowed) {
+    assert.deepEqual(entry.series.map(series => series.name), ["Series F (paper)"]);
+  }
+  assert.equal(narrowToSeries(entries, "Series G (polymer)").length, entries.length);
+});
+
+test("no denomination is left for an unknown series", async () => {
+  assert.deepEqual(narrowToSeries(await gbEntries(), "Series Z"), []);
+});
@@ -0,0 +1,126 @@
+import type { BanknoteSeries, Country, Denomination } from "@shared/schema";
+import { evaluateSerialRules, type SerialSpec } from "./serialRules";
+import { correctToFormat, normalizeSerial } from "./normalization";
+import type { SerialCandidate } from "./ocr";
+
+// Picks the country and denomination a serial read from a photo belongs to,
+// by checking every candidate string against each denomination's serialFormat
+
+// A denomination that may be on the photo, with its active series
+export interface CatalogEntry {
+  country: Country;
+  denomination: Denomination;
+  series: BanknoteSeries[];
+}
+
+export interface SerialMatch {
+  country: Country;
+  denomination: Denomination;
+  // The candidate as read from the image
+  readAs: string;
+  // The normalised serial to verify, after any lookalike corrections
+  serialNumber: string;
+  corrected: boolean;
+  // OCR confidence of the candidate, 0 to 1
+  confidence: number;
+  // Used to rank matches; not a probability
+  score: number;
+}
+
+// Series names are matched case-insensitively, e.g. "series g" for "Series G"
+export function findSeriesByName(series: BanknoteSeries[], name: string): BanknoteSeries | undefined {
+  return series.find(entry => entry.name.toLowerCase() === name.toLowerCase());
+}
+
+// Narrows each entry to the series with the given name, dropping the entries
+// that have none, e.g. when the face value was left out and only some of the
+// country's denominations were issued in that series
+export function narrowToSeries(entries: CatalogEntry[], name: string): CatalogEntry[] {
+  return entries.flatMap(entry => {
+    const requested = findSeriesByName(entry.series, name);
+    return requested ? [{ ...entry, series: [requested] }] : [];
+  });
+}
+
+// Weight of a serial that only fits the format after lookalike corrections
+const CORRECTION_PENALTY = 0.8;
+
+// Added when the text on the note names the face value or the country, which
+// tells apart denominations sharing a serial format
+const CONTEXT_BONUS = 0.1;
+
+// Added when the serial was read exactly as the format has it, spacing
+// included, e.g. "HC37 482915" for UK notes rather than a run of characters
+// that only fits once spaces are dropped
+const LAYOUT_BONUS = 0.05;
+
+function contextScore(entry: CatalogEntry, words: Set<string>, text: string): number {
+  let score = 0;
+  if (words.has(entry.denomination.value.toUpperCase())) {
+    score += CONTEXT_BONUS;
+  }
+  if (text.includes(entry.country.name.toUpperCase())) {
+    score += CONTEXT_BONUS;
+  }
+  return score;
+}
+
+// The best reading of a serial for each denomination it fits, best match first.
+// A candidate fits a denomination when it matches the serialFormat of the
+// denomination or one of its series; failing other rules (e.g. a check digit)
+// only lowers its score, since that is for the verification to report.
+export function matchSerialCandidates(
+  candidates: SerialCandidate[],
+  entries: CatalogEntry[],
+  ocrText: string,
+): SerialMatch[] {
+  const text = ocrText.toUpperCase();
+  const words = new Set(text.split(/[^A-Z0-9]+/));
+  const matches: SerialMatch[] = [];
+
+  for (const entry of entries) {
+    const specs: SerialSpec[] = [...entry.series, entry.denomination];
+    const context = contextScore(entry, words, text);
+    let best: SerialMatch | undefined;
+
+    for (const candidate of candidates) {
+      for (const spec of specs) {
+        // Series may differ in spacing, so the candidate is normalised for each
+        const normalized = normalizeSerial(entry.denomination, candidate.text, spec);
+        let serialNumber = normalized;
+        let rules = evaluateSerialRules(spec, serialNumber);
+        const fitsFormat = rules.some(result => result.rule === "pattern" && result.passed);
+        if (!fitsFormat) {
+          // Corrections never change the length, so skip the search when it cannot help
+          const correction = normalized.length === spec.serialLength ? correctToFormat(spec, normalized) : undefined;
+          if (!correction) {
+            continue;
+          }
+          serialNumber = correction;
+          rules = evaluateSerialRules(spec, serialNumber);
+        }
+
+        const passed = rules.filter(result => result.passed).length / rules.length;
+        const layout = serialNumber === candidate.text.toUpperCase() ? LAYOUT_BONUS : 0;
+        const score = candidate.confidence * passed * (fitsFormat ? 1 : CORRECTION_PENALTY) + context + layout;
+        if (!best || score > best.score) {
+          best = {
+            country: entry.country,
+            denomination: entry.denomination,
+            readAs: candidate.text,
+            serialNumber,
+            corrected: !fitsFormat,
+            confidence: candidate.confidence,
+            score,
+          };
+        }
+      }
+    }
+
+    if (best) {
+      matches.push(best);
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CHECKSUMS, evaluateSerialRules, type SerialSpec } from "./serialRules";
+
+function spec(serialFormat: string, serialLength: number, serialRules: SerialSpec["serialRules"]): SerialSpec {
+  return { serialFormat, serialLength, patternDescription: "", serialRules };
+}
+
+// The result of each rule by name, e.g. { pattern: true, checksum: false }
+function outcomes(rules: SerialSpec, serialNumber: string): Record<string, boolean> {
+  return Object.fromEntries(evaluateSerialRules(rules, serialNumber).map(result => [result.rule, result.passed]));
+}
+
+test("Euro check digit of the first series", () => {
+  const { validate } = CHECKSUMS.euro;
+  // X is 88, plus a digit sum of 2 makes 90
+  assert.equal(validate("X00000000002"), true);
+  assert.equal(validate("X00000000003"), false);
+  // Digits are summed whole, whichever way they are grouped
+  assert.equal(validate("X00 000000002"), true);
+});
+
+test("Euro check digit of the Europa series", () => {
+  const { validate } = CHECKSUMS.euro;
+  // E and A are 69 and 65, plus 1 makes 135
+  assert.equal(validate("EA0000000001"), true);
+  assert.equal(validate("EA0000000002"), false);
+  assert.equal(validate("EAB000000001"), false);
+  assert.equal(validate("000000000009"), false);
+});
+
+test("Euro rules report the checksum and the printer prefix separately", () => {
+  const firstSeries = spec("^[A-Z]\\d{11}$", 12, { prefixes: ["X", "Y", "Z"], checksum: "euro" });
+  assert.deepEqual(outcomes(firstSeries, "X00000000002"), { pattern: true, length: true, prefix: true, checksum: true });
+  assert.deepEqual(outcomes(firstSeries, "X00000000003"), { pattern: true, length: true, prefix: true, checksum: false });
+  // A is 65, plus 7 makes 72: a valid check digit from a prefix no printer uses
+  assert.deepEqual(outcomes(firstSeries, "A00000000007"), { pattern: true, length: true, prefix: false, checksum: true });
+});
+
+test("ranges apply to the serials starting with their prefix", () => {
+  const ranged = spec("^[A-Z]{2}\\d{3}$", 5, {
+    ranges: [{ prefix: "AB", min: 100, max: 199 }, { min: 500, max: 599 }],
+  });
+  assert.equal(outcomes(ranged, "AB150").range, true);
+  assert.equal(outcomes(ranged, "AB250").range, false);
+  // A range without a prefix applies to every serial
+  assert.equal(outcomes(ranged, "AB550").range, true);
+  assert.equal(outcomes(ranged, "AC550").range, true);
+  assert.equal(outcomes(ranged, "AC150").range, false);
+  // Bounds are inclusive
+  assert.equal(outcomes(ranged, "AB100").range, true);
+  assert.equal(outcomes(ranged, "AB199").range, true);
+});
+
+test("only the rules a spec has are reported", () => {
+  assert.deepEqual(outcomes(spec("^\\d{3}$", 3, null), "123"), { pattern: true, length: true });
+  assert.deepEqual(outcomes(spec("^\\d{3}$", 3, null), "1234"), { pattern: false, length: false });
+});
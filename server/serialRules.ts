@@ -0,0 +1,116 @@
+import type { ChecksumAlgorithm, Denomination, Locale, Translations } from "@shared/schema";
+import { localize, translate, type Message } from "./i18n";
+
+// The parts of a denomination or banknote series that the serial rules read
+export type SerialSpec = Pick<Denomination, "serialFormat" | "serialLength" | "patternDescription" | "serialRules"> & {
+  translations?: Translations<"patternDescription">;
+};
+
+export type SerialRuleName = "pattern" | "length" | "prefix" | "checksum" | "range";
+
+export interface SerialRuleResult {
+  rule: SerialRuleName;
+  passed: boolean;
+  description: string;
+}
+
+// Euro banknotes: with each letter replaced by its ASCII code, the digit sum of
+// the serial is divisible by 9. This holds for both the first series (one
+// letter + 11 digits) and the Europa series (two letters + 10 digits).
+function euroCheckDigitValid(serialNumber: string): boolean {
+  const serial = serialNumber.replace(/\s/g, "");
+  if (!/^[A-Z]{1,2}\d+$/.test(serial)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (const char of serial.split("")) {
+    sum += /\d/.test(char) ? Number(char) : char.charCodeAt(0);
+  }
+  return sum % 9 === 0;
+}
+
+export const CHECKSUMS: Record<ChecksumAlgorithm, { description: Message; validate: (serialNumber: string) => boolean }> = {
+  euro: {
+    description: "Euro check digit",
+    validate: euroCheckDigitValid,
+  },
+};
+
+// Compiled serialFormat patterns. Formats only change with the catalog, so the
+// set stays small; the catalog cache clears it whenever it reloads.
+const compiledFormats = new Map<string, RegExp>();
+
+export function compileSerialFormat(serialFormat: string): RegExp {
+  let pattern = compiledFormats.get(serialFormat);
+  if (!pattern) {
+    pattern = new RegExp(serialFormat);
+    compiledFormats.set(serialFormat, pattern);
+  }
+  return pattern;
+}
+
+export function clearCompiledSerialFormats() {
+  compiledFormats.clear();
+}
+
+// The last run of digits in a serial, e.g. 345678 for "AB12 345678"
+function numericPart(serialNumber: string): number | undefined {
+  const match = /(\d+)\D*$/.exec(serialNumber);
+  return match ? Number(match[1]) : undefined;
+}
+
+// What a rule of the denomination or series checks, in the given language
+export function describeSerialRule(spec: SerialSpec, rule: SerialRuleName, locale?: Locale): string {
+  const rules = spec.serialRules;
+  switch (rule) {
+    case "pattern":
+      return localize(spec.translations ?? {}, locale, "patternDescription", spec.patternDescription);
+    case "length":
+      return translate(locale, "{count} characters", { count: spec.serialLength });
+    case "prefix":
+      return translate(locale, "Starts with one of {prefixes}", { prefixes: (rules?.prefixes ?? []).join(", ") });
+    case "checksum":
+      return rules?.checksum ? translate(locale, CHECKSUMS[rules.checksum].description) : "";
+    case "range":
+      return (rules?.ranges ?? [])
+        .map(range => `${range.prefix ? `${range.prefix}: ` : ""}${range.min}-${range.max}`)
+        .join("; ");
+  }
+}
+
+// Evaluates serialFormat, serialLength and any structured rules of the
+// denomination or series, reporting each one separately
+export function evaluateSerialRules(spec: SerialSpec, serialNumber: string): SerialRuleResult[] {
+  const result = (rule: SerialRuleName, passed: boolean): SerialRuleResult => ({
+    rule,
+    passed,
+    description: describeSerialRule(spec, rule),
+  });
+  const results: SerialRuleResult[] = [
+    result("pattern", compileSerialFormat(spec.serialFormat).test(serialNumber)),
+    result("length", serialNumber.length === spec.serialLength),
+  ];
+
+  const rules = spec.serialRules;
+  if (!rules) {
+    return results;
+  }
+
+  if (rules.prefixes) {
+    results.push(result("prefix", rules.prefixes.some(prefix => serialNumber.startsWith(prefix))));
+  }
+
+  if (rules.checksum) {
+    results.push(result("checksum", CHECKSUMS[rules.checksum].validate(serialNumber)));
+  }
+
+  if (rules.ranges) {
+    const value = numericPart(serialNumber);
+    results.push(result("range", value !== undefined && rules.ranges.some(range =>
+      (!range.prefix || serialNumber.startsWith(range.prefix)) && value >= range.min && value <= range.max,
+    )));
+  }
+
+  return results;
+}
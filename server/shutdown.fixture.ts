@@ -0,0 +1,27 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import { closeConnectionsWhenDraining, handleShutdown, isDraining, onShutdown } from "./shutdown";
+
+// Server run in a child process by shutdown.test.ts, since shutting down exits
+// the process. Prints its port, then a line for each hook as it runs.
+
+const app = express();
+app.use(closeConnectionsWhenDraining);
+app.get("/slow", (req, res) => {
+  setTimeout(() => res.send("done"), 300);
+});
+// Never answers
+app.get("/hang", () => undefined);
+app.get("/", (req, res) => {
+  res.send(isDraining() ? "draining" : "ready");
+});
+
+const server = app.listen(0, "127.0.0.1", () => {
+  console.log(`port ${(server.address() as AddressInfo).port}`);
+});
+onShutdown("first", () => console.log("hook first"));
+onShutdown("failing", () => {
+  throw new Error("cleanup failed");
+});
+onShutdown("last", () => console.log("hook last"));
+handleShutdown(server, JSON.parse(process.env.SHUTDOWN_OPTIONS ?? "{}"));
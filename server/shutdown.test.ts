@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { spawn } from "child_process";
+import { once } from "events";
+import { fileURLToPath } from "url";
+
+// Shutting down exits the process, so each case runs shutdown.fixture.ts in a
+// child process and signals it the way the platform does on a deploy
+const FIXTURE = fileURLToPath(new URL("./shutdown.fixture.ts", import.meta.url));
+
+async function start(options: { delayMs: number; timeoutMs: number }) {
+  const child = spawn(process.execPath, ["--import", "tsx", FIXTURE], {
+    env: { ...process.env, SHUTDOWN_OPTIONS: JSON.stringify(options) },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  const lines: string[] = [];
+  // Logged errors, e.g. of the failing hook; only shown when the server does not start
+  let errors = "";
+  child.stderr.setEncoding("utf8").on("data", (chunk: string) => {
+    errors += chunk;
+  });
+  const port = new Promise<number>((resolve, reject) => {
+    child.stdout.setEncoding("utf8").on("data", (chunk: string) => {
+      lines.push(...chunk.split("\n").filter(Boolean));
+      const line = lines.find(entry => entry.startsWith("port "));
+      if (line) {
+        resolve(Number(line.slice("port ".length)));
+      }
+    });
+    child.once("exit", () => reject(new Error(`server exited before listening\n${errors}`)));
+  });
+  const exited = once(child, "exit") as Promise<[number | null]>;
+  return { child, lines, baseUrl: `http://127.0.0.1:${await port}`, exited };
+}
+
+test("drains requests in progress, then runs every hook in order", async () => {
+  const { child, lines, baseUrl, exited } = await start({ delayMs: 150, timeoutMs: 5000 });
+  assert.equal(await (await fetch(`${baseUrl}/`)).text(), "ready");
+
+  const slow = fetch(`${baseUrl}/slow`).then(response => response.text());
+  await new Promise(resolve => setTimeout(resolve, 50));
+  child.kill("SIGTERM");
+  await new Promise(resolve => setTimeout(resolve, 50));
+
+  // Still listening during the delay, but reporting that it is going away
+  const draining = await fetch(`${baseUrl}/`);
+  assert.equal(await draining.text(), "draining");
+  assert.equal(draining.headers.get("connection"), "close");
+
+  assert.equal(await slow, "done");
+  const [code] = await exited;
+  // A failing hook does not stop the others, but fails the exit
+  assert.equal(code, 1);
+  assert.deepEqual(lines.filter(line => line.startsWith("hook ")), ["hook first", "hook last"]);
+});
+
+test("cuts requests still running when the timeout is reached", async () => {
+  const { child, baseUrl, exited } = await start({ delayMs: 0, timeoutMs: 200 });
+  const hanging = fetch(`${baseUrl}/hang`).then(() => "answered", () => "cut");
+  await new Promise(resolve => setTimeout(resolve, 50));
+  child.kill("SIGTERM");
+
+  assert.equal(await hanging, "cut");
+  await exited;
+});
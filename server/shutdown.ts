@@ -0,0 +1,101 @@
+import type { Server } from "http";
+import type { NextFunction, Request, Response } from "express";
+import { logger } from "./logger";
+
+// Graceful shutdown, so rolling deploys do not drop requests. On SIGTERM or
+// SIGINT the server starts draining: /readyz fails so the load balancer stops
+// sending traffic, keep-alive connections are closed after their current
+// response, and once the server stops listening the requests in progress run
+// to completion. Then the cleanup registered with onShutdown runs, in the
+// order it was registered, and the process exits. A second signal exits
+// straight away.
+
+export type ShutdownHook = () => Promise<void> | void;
+
+export interface ShutdownOptions {
+  // How long to keep accepting connections after the signal, for load
+  // balancers that take a while to notice the failing readiness check
+  delayMs: number;
+  // How long requests in progress get before their connections are cut
+  timeoutMs: number;
+}
+
+// How often connections that went idle are closed while draining
+const IDLE_SWEEP_MS = 100;
+
+const hooks: { name: string; hook: ShutdownHook }[] = [];
+let draining = false;
+
+export function isDraining(): boolean {
+  return draining;
+}
+
+// Registers cleanup to run once the server no longer serves requests, e.g.
+// stopping a background job or closing the storage
+export function onShutdown(name: string, hook: ShutdownHook) {
+  hooks.push({ name, hook });
+}
+
+// Asks clients to reconnect, to another instance, once draining has started
+export function closeConnectionsWhenDraining(req: Request, res: Response, next: NextFunction) {
+  if (draining) {
+    res.set("Connection", "close");
+  }
+  next();
+}
+
+async function runHooks(): Promise<boolean> {
+  let succeeded = true;
+  for (const { name, hook } of hooks) {
+    try {
+      await hook();
+    } catch (error) {
+      succeeded = false;
+      logger.error("Shutdown step failed", { step: name, error });
+    }
+  }
+  return succeeded;
+}
+
+async function shutdown(server: Server, signal: string, options: ShutdownOptions) {
+  draining = true;
+  logger.info("Shutting down", { signal, delayMs: options.delayMs, timeoutMs: options.timeoutMs });
+  if (options.delayMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, options.delayMs));
+  }
+
+  const timer = setTimeout(() => {
+    logger.warn("Shutdown timeout reached; closing the remaining connections");
+    server.closeAllConnections();
+  }, options.timeoutMs);
+  timer.unref();
+
+  // Keep-alive connections become idle as their last response is sent; close
+  // them as they do rather than waiting for the keep-alive timeout
+  const closed = new Promise<void>(resolve => server.close(() => resolve()));
+  server.closeIdleConnections();
+  const sweep = setInterval(() => server.closeIdleConnections(), IDLE_SWEEP_MS);
+  await closed;
+  clearInterval(sweep);
+  clearTimeout(timer);
+  logger.info("Server closed");
+
+  const succeeded = await runHooks();
+  logger.info("Shutdown complete");
+  process.exit(succeeded ? 0 : 1);
+}
+
+export function handleShutdown(server: Server, options: ShutdownOptions) {
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (draining) {
+      logger.warn("Second signal received; exiting without waiting", { signal });
+      process.exit(1);
+    }
+    shutdown(server, signal, options).catch(error => {
+      logger.error("Shutdown failed", { error });
+      process.exit(1);
+    });
+  };
+  process.on("SIGTERM", onSignal);
+  process.on("SIGINT", onSignal);
+}
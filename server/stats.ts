@@ -0,0 +1,56 @@
+// Shared shapes and helpers for verification statistics, used by every IStorage backend
+
+export type StatsInterval = "day" | "week";
+
+export interface VerificationStatsFilter {
+  tenantId?: number;
+  countryId?: number;
+  denominationId?: number;
+  // Inclusive lower and exclusive upper bound on the verification timestamp
+  from?: Date;
+  to?: Date;
+  interval?: StatsInterval;
+}
+
+// Raw counts as returned by the aggregate queries
+export interface VerificationTally {
+  totalVerified: number;
+  authentic: number;
+  formatFailures: number;
+  lengthFailures: number;
+  knownCounterfeit: number;
+}
+
+export interface VerificationCounts extends VerificationTally {
+  suspicious: number;
+  successRate: number;
+}
+
+export interface VerificationStats extends VerificationCounts {
+  interval: StatsInterval;
+  byCountry: (VerificationCounts & { countryCode: string; country: string })[];
+  byDenomination: (VerificationCounts & { countryCode: string; denomination: string; displayName: string })[];
+  // period is the start of each day or ISO week (Monday), as YYYY-MM-DD
+  byPeriod: (VerificationCounts & { period: string })[];
+}
+
+export function summarizeTally(tally: VerificationTally): VerificationCounts {
+  const suspicious = tally.totalVerified - tally.authentic;
+  const successRate = tally.totalVerified > 0 ? (tally.authentic / tally.totalVerified) * 100 : 0;
+
+  return {
+    ...tally,
+    suspicious,
+    successRate: Math.round(successRate * 10) / 10,
+  };
+}
+
+// Start of the day or ISO week containing the given time, in UTC, as YYYY-MM-DD
+export function periodStart(timestamp: Date, interval: StatsInterval): string {
+  const start = new Date(Date.UTC(timestamp.getUTCFullYear(), timestamp.getUTCMonth(), timestamp.getUTCDate()));
+  if (interval === "week") {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  }
+  return start.toISOString().slice(0, 10);
+}
@@ -1,64 +1,304 @@
 import { 
   countries, 
   denominations, 
+  banknoteSeries,
+  catalogChanges,
+  catalogSyncs,
   verificationLogs,
+  flaggedSerials,
+  abuseEvents,
+  tenants,
+  apiKeys,
+  webhooks,
+  webhookDeliveries,
+  alerts,
   type Country, 
   type Denomination, 
+  type BanknoteSeries,
+  type CatalogEntity,
   type VerificationLog,
+  type FlaggedSerial,
+  type AbuseEvent,
+  type AbuseEventKind,
+  type Tenant,
+  type ApiKey,
   type InsertCountry,
   type InsertDenomination,
-  type InsertVerificationLog 
+  type UpdateCountry,
+  type UpdateDenomination,
+  type InsertBanknoteSeries,
+  type UpdateBanknoteSeries,
+  type InsertVerificationLog,
+  type InsertOfflineVerificationLog,
+  type InsertFlaggedSerial,
+  type InsertAbuseEvent,
+  type InsertTenant,
+  type UpdateTenant,
+  type InsertApiKey,
+  type UpdateApiKey,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type InsertWebhook,
+  type UpdateWebhook,
+  type InsertWebhookDelivery,
+  type UpdateWebhookDelivery,
+  type Alert,
+  type AlertKind,
+  type AlertSeverity,
+  type InsertAlert
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, asc, and, or, inArray, gte, gt, lt, lte, like, sql, getTableColumns, type SQL } from "drizzle-orm";
+import { MemStorage } from "./memStorage";
+import { CachedStorage } from "./cachedStorage";
+import { seedInitialData } from "./seed";
+import {
+  summarizeTally,
+  type VerificationStats,
+  type VerificationStatsFilter,
+} from "./stats";
+import type { VerificationLogQuery, VerificationLogRecord } from "./history";
+import { MAX_ALERT_LOGS, type AnomalyCluster, type AnomalyCounts, type AnomalyQuery } from "./anomalies";
+import { resolveCountryCode } from "./countryCodes";
+
+type Database = typeof import("./db").db;
+
+export interface CatalogQueryOptions {
+  // Soft-deleted countries and denominations are hidden unless requested
+  includeInactive?: boolean;
+}
+
+// The catalog entries changed after a catalog version, as they are now;
+// retired entries are included with isActive false
+export interface CatalogChangeSet {
+  version: number;
+  countries: Country[];
+  denominations: Denomination[];
+  series: BanknoteSeries[];
+}
+
+export interface FlaggedSerialFilter {
+  countryId?: number;
+  denominationId?: number;
+}
+
+export interface AbuseEventFilter {
+  kind?: AbuseEventKind;
+  // Inclusive lower and exclusive upper bound on the event timestamp
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+export interface WebhookFilter {
+  tenantId?: number;
+  activeOnly?: boolean;
+}
+
+export interface WebhookDeliveryFilter {
+  webhookId: number;
+  status?: WebhookDeliveryStatus;
+  limit: number;
+}
+
+// Earlier verifications of one serial
+export interface SerialSightings {
+  count: number;
+  // Distinct tenants among them; anonymous verifications are not counted
+  tenants: number;
+  firstSeenAt: Date | null;
+  lastSeenAt: Date | null;
+}
+
+export interface AlertFilter {
+  // Alerts involving this tenant's verifications
+  tenantId?: number;
+  kind?: AlertKind;
+  severity?: AlertSeverity;
+  countryId?: number;
+  denominationId?: number;
+  // Inclusive lower and exclusive upper bound on when the cluster was last seen
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
 
 export interface IStorage {
   // Countries
-  getCountries(): Promise<Country[]>;
+  getCountries(options?: CatalogQueryOptions): Promise<Country[]>;
+  // The entry stored under exactly this code, in any case
   getCountryByCode(code: string): Promise<Country | undefined>;
+  // The entry for any accepted form of a code: ISO 3166-1 alpha-2, alpha-3 or
+  // numeric, a legacy code, or an ISO 4217 currency code (see countryCodes.ts)
+  resolveCountry(code: string): Promise<Country | undefined>;
   createCountry(country: InsertCountry): Promise<Country>;
+  updateCountry(id: number, update: UpdateCountry): Promise<Country | undefined>;
   
   // Denominations
-  getDenominationsByCountry(countryId: number): Promise<Denomination[]>;
+  getDenominations(options?: CatalogQueryOptions): Promise<Denomination[]>;
+  getDenominationsByCountry(countryId: number, options?: CatalogQueryOptions): Promise<Denomination[]>;
   getDenomination(countryId: number, value: string): Promise<Denomination | undefined>;
+  getDenominationById(id: number): Promise<Denomination | undefined>;
   createDenomination(denomination: InsertDenomination): Promise<Denomination>;
+  updateDenomination(id: number, update: UpdateDenomination): Promise<Denomination | undefined>;
+
+  // Banknote series
+  getSeries(options?: CatalogQueryOptions): Promise<BanknoteSeries[]>;
+  getSeriesByDenomination(denominationId: number, options?: CatalogQueryOptions): Promise<BanknoteSeries[]>;
+  getSeriesById(id: number): Promise<BanknoteSeries | undefined>;
+  createSeries(series: InsertBanknoteSeries): Promise<BanknoteSeries>;
+  updateSeries(id: number, update: UpdateBanknoteSeries): Promise<BanknoteSeries | undefined>;
+
+  // Every create and update above records a catalog change; the catalog
+  // version is the id of the latest one, 0 before the first
+  getCatalogVersion(): Promise<number>;
+  getCatalogChanges(since: number): Promise<CatalogChangeSet>;
+  // catalog.json version of the latest catalog sync, undefined before the first
+  getAppliedCatalogVersion(): Promise<number | undefined>;
+  recordCatalogSync(version: number): Promise<void>;
   
   // Verification Logs
   createVerificationLog(log: InsertVerificationLog): Promise<VerificationLog>;
-  getVerificationStats(): Promise<{
-    totalVerified: number;
-    authentic: number;
-    suspicious: number;
-    successRate: number;
-  }>;
+  // Writes all rows in a single insert
+  createVerificationLogs(logs: InsertVerificationLog[]): Promise<VerificationLog[]>;
+  // Rows whose offlineId the same tenant already stored are skipped; only newly added rows are returned
+  createOfflineVerificationLogs(logs: InsertOfflineVerificationLog[]): Promise<VerificationLog[]>;
+  getVerificationStats(filter?: VerificationStatsFilter): Promise<VerificationStats>;
+  // One page of history in the query's sort order, starting after its cursor
+  getVerificationLogs(query: VerificationLogQuery): Promise<VerificationLogRecord[]>;
+  // In id order; unknown ids are skipped
+  getVerificationLogsByIds(ids: number[]): Promise<VerificationLogRecord[]>;
+  // Verifications of a normalised serial, optionally only those since a date
+  getSerialSightings(denominationId: number, normalizedSerial: string, since?: Date): Promise<SerialSightings>;
+
+  // Counterfeit registry
+  getFlaggedSerials(filter?: FlaggedSerialFilter): Promise<FlaggedSerial[]>;
+  getFlaggedSerial(denominationId: number, serialNumber: string): Promise<FlaggedSerial | undefined>;
+  findFlaggedSerials(denominationId: number, serialNumbers: string[]): Promise<FlaggedSerial[]>;
+  // Entries already in the registry are skipped; only newly added rows are returned
+  createFlaggedSerials(entries: InsertFlaggedSerial[]): Promise<FlaggedSerial[]>;
+  deleteFlaggedSerial(id: number): Promise<boolean>;
+
+  // Tenants and their API keys
+  getTenants(): Promise<Tenant[]>;
+  getTenant(id: number): Promise<Tenant | undefined>;
+  getTenantByName(name: string): Promise<Tenant | undefined>;
+  createTenant(tenant: InsertTenant): Promise<Tenant>;
+  updateTenant(id: number, update: UpdateTenant): Promise<Tenant | undefined>;
+  getApiKeysByTenant(tenantId: number): Promise<ApiKey[]>;
+  getApiKeyById(id: number): Promise<ApiKey | undefined>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  updateApiKey(id: number, update: UpdateApiKey): Promise<ApiKey | undefined>;
+
+  // Abuse events, newest first
+  createAbuseEvent(event: InsertAbuseEvent): Promise<AbuseEvent>;
+  getAbuseEvents(filter: AbuseEventFilter): Promise<AbuseEvent[]>;
+
+  // Webhooks and their delivery log
+  getWebhooks(filter?: WebhookFilter): Promise<Webhook[]>;
+  getWebhook(id: number): Promise<Webhook | undefined>;
+  createWebhook(webhook: InsertWebhook): Promise<Webhook>;
+  updateWebhook(id: number, update: UpdateWebhook): Promise<Webhook | undefined>;
+  // Writes all rows in a single insert
+  createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: number, update: UpdateWebhookDelivery): Promise<WebhookDelivery | undefined>;
+  // Newest first
+  getWebhookDeliveries(filter: WebhookDeliveryFilter): Promise<WebhookDelivery[]>;
+  // Pending deliveries whose next attempt is due, oldest first
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+
+  // Clusters of verification logs that reach the anomaly thresholds, counted
+  // in storage per denomination, in total and per tenant
+  findAnomalyClusters(query: AnomalyQuery): Promise<AnomalyCluster[]>;
+  // Anomaly alerts; an alert whose fingerprint already exists is replaced in
+  // place, keeping its id and createdAt
+  upsertAlerts(alerts: InsertAlert[]): Promise<Alert[]>;
+  // Most recently seen first
+  getAlerts(filter: AlertFilter): Promise<Alert[]>;
   
   // Seed initial data
   seedInitialData(): Promise<void>;
+
+  // Throws when the backend cannot be reached; bypasses every cache
+  ping(): Promise<void>;
+  // Releases the backend's connections; the storage is unusable afterwards
+  close(): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
-  async getCountries(): Promise<Country[]> {
-    return await db.select().from(countries);
+  private database?: Promise<Database>;
+
+  // db.ts opens the connection pool on import and throws without DATABASE_URL,
+  // so it is only loaded once the Postgres backend is actually used.
+  private db(): Promise<Database> {
+    this.database ??= import("./db").then(module => module.db);
+    return this.database;
+  }
+
+  async getCountries(options: CatalogQueryOptions = {}): Promise<Country[]> {
+    const db = await this.db();
+    return await db
+      .select()
+      .from(countries)
+      .where(options.includeInactive ? undefined : eq(countries.isActive, true));
   }
 
   async getCountryByCode(code: string): Promise<Country | undefined> {
-    const [country] = await db.select().from(countries).where(eq(countries.code, code));
+    const db = await this.db();
+    const [country] = await db.select().from(countries).where(eq(countries.code, code.toUpperCase()));
     return country || undefined;
   }
 
+  async resolveCountry(code: string): Promise<Country | undefined> {
+    return resolveCountryCode(await this.getCountries({ includeInactive: true }), code);
+  }
+
   async createCountry(insertCountry: InsertCountry): Promise<Country> {
+    const db = await this.db();
     const [country] = await db
       .insert(countries)
       .values(insertCountry)
       .returning();
+    await this.recordCatalogChange("country", country.id);
     return country;
   }
 
-  async getDenominationsByCountry(countryId: number): Promise<Denomination[]> {
-    return await db.select().from(denominations).where(eq(denominations.countryId, countryId));
+  async updateCountry(id: number, update: UpdateCountry): Promise<Country | undefined> {
+    const db = await this.db();
+    const [country] = await db
+      .update(countries)
+      .set(update)
+      .where(eq(countries.id, id))
+      .returning();
+    if (country) {
+      await this.recordCatalogChange("country", country.id);
+    }
+    return country || undefined;
+  }
+
+  async getDenominations(options: CatalogQueryOptions = {}): Promise<Denomination[]> {
+    const db = await this.db();
+    return await db
+      .select()
+      .from(denominations)
+      .where(options.includeInactive ? undefined : eq(denominations.isActive, true))
+      .orderBy(asc(denominations.id));
+  }
+
+  async getDenominationsByCountry(countryId: number, options: CatalogQueryOptions = {}): Promise<Denomination[]> {
+    const db = await this.db();
+    return await db
+      .select()
+      .from(denominations)
+      .where(and(
+        eq(denominations.countryId, countryId),
+        options.includeInactive ? undefined : eq(denominations.isActive, true),
+      ));
   }
 
   async getDenomination(countryId: number, value: string): Promise<Denomination | undefined> {
+    const db = await this.db();
     const [denomination] = await db
       .select()
       .from(denominations)
@@ -66,15 +306,133 @@ export class DatabaseStorage implements IStorage {
     return denomination || undefined;
   }
 
+  async getDenominationById(id: number): Promise<Denomination | undefined> {
+    const db = await this.db();
+    const [denomination] = await db.select().from(denominations).where(eq(denominations.id, id));
+    return denomination || undefined;
+  }
+
   async createDenomination(insertDenomination: InsertDenomination): Promise<Denomination> {
+    const db = await this.db();
     const [denomination] = await db
       .insert(denominations)
       .values(insertDenomination)
       .returning();
+    await this.recordCatalogChange("denomination", denomination.id);
     return denomination;
   }
 
+  async updateDenomination(id: number, update: UpdateDenomination): Promise<Denomination | undefined> {
+    const db = await this.db();
+    const [denomination] = await db
+      .update(denominations)
+      .set(update)
+      .where(eq(denominations.id, id))
+      .returning();
+    if (denomination) {
+      await this.recordCatalogChange("denomination", denomination.id);
+    }
+    return denomination || undefined;
+  }
+
+  async getSeries(options: CatalogQueryOptions = {}): Promise<BanknoteSeries[]> {
+    const db = await this.db();
+    return await db
+      .select()
+      .from(banknoteSeries)
+      .where(options.includeInactive ? undefined : eq(banknoteSeries.isActive, true))
+      .orderBy(asc(banknoteSeries.id));
+  }
+
+  async getSeriesByDenomination(denominationId: number, options: CatalogQueryOptions = {}): Promise<BanknoteSeries[]> {
+    const db = await this.db();
+    return await db
+      .select()
+      .from(banknoteSeries)
+      .where(and(
+        eq(banknoteSeries.denominationId, denominationId),
+        options.includeInactive ? undefined : eq(banknoteSeries.isActive, true),
+      ))
+      .orderBy(asc(banknoteSeries.id));
+  }
+
+  async getSeriesById(id: number): Promise<BanknoteSeries | undefined> {
+    const db = await this.db();
+    const [series] = await db.select().from(banknoteSeries).where(eq(banknoteSeries.id, id));
+    return series || undefined;
+  }
+
+  async createSeries(insertSeries: InsertBanknoteSeries): Promise<BanknoteSeries> {
+    const db = await this.db();
+    const [series] = await db
+      .insert(banknoteSeries)
+      .values(insertSeries)
+      .returning();
+    await this.recordCatalogChange("series", series.id);
+    return series;
+  }
+
+  async updateSeries(id: number, update: UpdateBanknoteSeries): Promise<BanknoteSeries | undefined> {
+    const db = await this.db();
+    const [series] = await db
+      .update(banknoteSeries)
+      .set(update)
+      .where(eq(banknoteSeries.id, id))
+      .returning();
+    if (series) {
+      await this.recordCatalogChange("series", series.id);
+    }
+    return series || undefined;
+  }
+
+  private async recordCatalogChange(entity: CatalogEntity, entityId: number) {
+    const db = await this.db();
+    await db.insert(catalogChanges).values({ entity, entityId });
+  }
+
+  async getCatalogVersion(): Promise<number> {
+    const db = await this.db();
+    const [row] = await db.select({ version: sql<number>`coalesce(max(${catalogChanges.id}), 0)::int` }).from(catalogChanges);
+    return row.version;
+  }
+
+  async getCatalogChanges(since: number): Promise<CatalogChangeSet> {
+    const db = await this.db();
+    const version = await this.getCatalogVersion();
+    const changed = await db
+      .selectDistinct({ entity: catalogChanges.entity, entityId: catalogChanges.entityId })
+      .from(catalogChanges)
+      .where(and(gt(catalogChanges.id, since), lte(catalogChanges.id, version)));
+
+    const idsOf = (entity: CatalogEntity) => changed.filter(change => change.entity === entity).map(change => change.entityId);
+    const [countryIds, denominationIds, seriesIds] = [idsOf("country"), idsOf("denomination"), idsOf("series")];
+    return {
+      version,
+      countries: countryIds.length > 0
+        ? await db.select().from(countries).where(inArray(countries.id, countryIds)).orderBy(asc(countries.id))
+        : [],
+      denominations: denominationIds.length > 0
+        ? await db.select().from(denominations).where(inArray(denominations.id, denominationIds)).orderBy(asc(denominations.id))
+        : [],
+      series: seriesIds.length > 0
+        ? await db.select().from(banknoteSeries).where(inArray(banknoteSeries.id, seriesIds)).orderBy(asc(banknoteSeries.id))
+        : [],
+    };
+  }
+
+  async getAppliedCatalogVersion(): Promise<number | undefined> {
+    const db = await this.db();
+    const [sync] = await db.select().from(catalogSyncs).orderBy(desc(catalogSyncs.id)).limit(1);
+    return sync?.version;
+  }
+
+  async recordCatalogSync(version: number): Promise<void> {
+    const db = await this.db();
+    await db.insert(catalogSyncs).values({ version });
+  }
+
   async createVerificationLog(insertLog: InsertVerificationLog): Promise<VerificationLog> {
+    const db = await this.db();
     const [log] = await db
       .insert(verificationLogs)
       .values(insertLog)
@@ -82,140 +440,714 @@ export class DatabaseStorage implements IStorage {
     return log;
   }
 
-  async getVerificationStats(): Promise<{
-    totalVerified: number;
-    authentic: number;
-    suspicious: number;
-    successRate: number;
-  }> {
-    const logs = await db.select().from(verificationLogs);
-    const totalVerified = logs.length;
-    const authentic = logs.filter(log => log.isAuthentic).length;
-    const suspicious = totalVerified - authentic;
-    const successRate = totalVerified > 0 ? (authentic / totalVerified) * 100 : 0;
-    
+  async createVerificationLogs(insertLogs: InsertVerificationLog[]): Promise<VerificationLog[]> {
+    if (insertLogs.length === 0) {
+      return [];
+    }
+
+    const db = await this.db();
+    return await db
+      .insert(verificationLogs)
+      .values(insertLogs)
+      .returning();
+  }
+
+  async createOfflineVerificationLogs(insertLogs: InsertOfflineVerificationLog[]): Promise<VerificationLog[]> {
+    if (insertLogs.length === 0) {
+      return [];
+    }
+
+    const db = await this.db();
+    return await db
+      .insert(verificationLogs)
+      .values(insertLogs)
+      .onConflictDoNothing({ target: [verificationLogs.tenantId, verificationLogs.offlineId] })
+      .returning();
+  }
+
+  async getVerificationStats(filter: VerificationStatsFilter = {}): Promise<VerificationStats> {
+    const db = await this.db();
+    const interval = filter.interval ?? "day";
+
+    const conditions: SQL[] = [];
+    if (filter.tenantId !== undefined) {
+      conditions.push(eq(verificationLogs.tenantId, filter.tenantId));
+    }
+    if (filter.countryId !== undefined) {
+      conditions.push(eq(verificationLogs.countryId, filter.countryId));
+    }
+    if (filter.denominationId !== undefined) {
+      conditions.push(eq(verificationLogs.denominationId, filter.denominationId));
+    }
+    if (filter.from) {
+      conditions.push(gte(verificationLogs.timestamp, filter.from));
+    }
+    if (filter.to) {
+      conditions.push(lt(verificationLogs.timestamp, filter.to));
+    }
+    const where = and(...conditions);
+
+    // Counted in Postgres so no log rows are loaded into memory
+    const tally = {
+      totalVerified: sql<number>`count(*)`.mapWith(Number),
+      authentic: sql<number>`count(*) filter (where ${verificationLogs.isAuthentic})`.mapWith(Number),
+      formatFailures: sql<number>`count(*) filter (where not ${verificationLogs.formatValid})`.mapWith(Number),
+      lengthFailures: sql<number>`count(*) filter (where not ${verificationLogs.lengthValid})`.mapWith(Number),
+      knownCounterfeit: sql<number>`count(*) filter (where ${verificationLogs.knownCounterfeit})`.mapWith(Number),
+    };
+    // interval is one of a fixed set of keywords, so it is safe to inline
+    const period = sql<string>`to_char(date_trunc(${sql.raw(`'${interval}'`)}, ${verificationLogs.timestamp}), 'YYYY-MM-DD')`;
+
+    const [totals] = await db.select(tally).from(verificationLogs).where(where);
+
+    const byCountry = await db
+      .select({ countryCode: countries.code, country: countries.name, ...tally })
+      .from(verificationLogs)
+      .innerJoin(countries, eq(countries.id, verificationLogs.countryId))
+      .where(where)
+      .groupBy(countries.id)
+      .orderBy(desc(sql`count(*)`));
+
+    const byDenomination = await db
+      .select({
+        countryCode: countries.code,
+        denomination: denominations.value,
+        displayName: denominations.displayName,
+        ...tally,
+      })
+      .from(verificationLogs)
+      .innerJoin(denominations, eq(denominations.id, verificationLogs.denominationId))
+      .innerJoin(countries, eq(countries.id, verificationLogs.countryId))
+      .where(where)
+      .groupBy(denominations.id, countries.id)
+      .orderBy(desc(sql`count(*)`));
+
+    const byPeriod = await db
+      .select({ period, ...tally })
+      .from(verificationLogs)
+      .where(where)
+      .groupBy(sql`1`)
+      .orderBy(sql`1`);
+
     return {
-      totalVerified,
-      authentic,
-      suspicious,
-      successRate: Math.round(successRate * 10) / 10,
+      ...summarizeTally(totals),
+      interval,
+      byCountry: byCountry.map(({ countryCode, country, ...row }) => ({ countryCode, country, ...summarizeTally(row) })),
+      byDenomination: byDenomination.map(({ countryCode, denomination, displayName, ...row }) => ({
+        countryCode,
+        denomination,
+        displayName,
+        ...summarizeTally(row),
+      })),
+      byPeriod: byPeriod.map(({ period, ...row }) => ({ period, ...summarizeTally(row) })),
     };
   }
 
-  async seedInitialData(): Promise<void> {
-    // Check if data already exists
-    const existingCountries = await this.getCountries();
-    if (existingCountries.length > 0) {
-      return; // Data already seeded
-    }
-
-    // Seed countries with correct abbreviations
-    const countryData = [
-      { code: "US", name: "United States", currency: "USD", currencySymbol: "$" },
-      { code: "UK", name: "United Kingdom", currency: "GBP", currencySymbol: "£" },
-      { code: "EU", name: "European Union", currency: "EUR", currencySymbol: "€" },
-      { code: "JP", name: "Japan", currency: "JPY", currencySymbol: "¥" },
-      { code: "CA", name: "Canada", currency: "CAD", currencySymbol: "C$" },
-      { code: "AU", name: "Australia", currency: "AUD", currencySymbol: "A$" },
-      { code: "CH", name: "Switzerland", currency: "CHF", currencySymbol: "CHF" },
-      { code: "CN", name: "China", currency: "CNY", currencySymbol: "¥" },
-      { code: "IN", name: "India", currency: "INR", currencySymbol: "₹" },
-      { code: "KR", name: "South Korea", currency: "KRW", currencySymbol: "₩" },
-      { code: "SG", name: "Singapore", currency: "SGD", currencySymbol: "S$" },
-      { code: "HK", name: "Hong Kong", currency: "HKD", currencySymbol: "HK$" },
-      { code: "NO", name: "Norway", currency: "NOK", currencySymbol: "kr" },
-      { code: "SE", name: "Sweden", currency: "SEK", currencySymbol: "kr" },
-      { code: "DK", name: "Denmark", currency: "DKK", currencySymbol: "kr" },
-      { code: "NZ", name: "New Zealand", currency: "NZD", currencySymbol: "NZ$" },
-      { code: "RU", name: "Russia", currency: "RUB", currencySymbol: "₽" },
-      { code: "BR", name: "Brazil", currency: "BRL", currencySymbol: "R$" },
-      { code: "MX", name: "Mexico", currency: "MXN", currencySymbol: "$" },
-      { code: "SA", name: "South Africa", currency: "ZAR", currencySymbol: "R" },
-      { code: "LK", name: "Sri Lanka", currency: "LKR", currencySymbol: "Rs" },
-      { code: "MY", name: "Malaysia", currency: "MYR", currencySymbol: "RM" },
-      { code: "TH", name: "Thailand", currency: "THB", currencySymbol: "฿" },
-      { code: "ID", name: "Indonesia", currency: "IDR", currencySymbol: "Rp" },
-      { code: "PH", name: "Philippines", currency: "PHP", currencySymbol: "₱" },
+  async getVerificationLogs(query: VerificationLogQuery): Promise<VerificationLogRecord[]> {
+    const db = await this.db();
+
+    // Cursors carry millisecond timestamps, so rows are ordered at that precision
+    const sortTime = sql`date_trunc('milliseconds', ${verificationLogs.timestamp})`;
+    const direction = query.sort === "newest" ? desc : asc;
+    const after = query.sort === "newest" ? lt : gt;
+
+    const conditions: SQL[] = [];
+    if (query.tenantId !== undefined) {
+      conditions.push(eq(verificationLogs.tenantId, query.tenantId));
+    }
+    if (query.countryId !== undefined) {
+      conditions.push(eq(verificationLogs.countryId, query.countryId));
+    }
+    if (query.denominationId !== undefined) {
+      conditions.push(eq(verificationLogs.denominationId, query.denominationId));
+    }
+    if (query.isAuthentic !== undefined) {
+      conditions.push(eq(verificationLogs.isAuthentic, query.isAuthentic));
+    }
+    if (query.serialPrefix) {
+      const escaped = query.serialPrefix.replace(/[\\%_]/g, match => `\\${match}`);
+      conditions.push(like(verificationLogs.serialNumber, `${escaped}%`));
+    }
+    if (query.from) {
+      conditions.push(gte(verificationLogs.timestamp, query.from));
+    }
+    if (query.to) {
+      conditions.push(lt(verificationLogs.timestamp, query.to));
+    }
+    if (query.cursor) {
+      conditions.push(or(
+        after(sortTime, query.cursor.timestamp),
+        and(eq(sortTime, query.cursor.timestamp), after(verificationLogs.id, query.cursor.id)),
+      )!);
+    }
+
+    return await db
+      .select({
+        ...getTableColumns(verificationLogs),
+        countryCode: countries.code,
+        denomination: denominations.value,
+      })
+      .from(verificationLogs)
+      .innerJoin(countries, eq(countries.id, verificationLogs.countryId))
+      .innerJoin(denominations, eq(denominations.id, verificationLogs.denominationId))
+      .where(and(...conditions))
+      .orderBy(direction(sortTime), direction(verificationLogs.id))
+      .limit(query.limit);
+  }
+
+  async getVerificationLogsByIds(ids: number[]): Promise<VerificationLogRecord[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const db = await this.db();
+    return await db
+      .select({
+        ...getTableColumns(verificationLogs),
+        countryCode: countries.code,
+        denomination: denominations.value,
+      })
+      .from(verificationLogs)
+      .innerJoin(countries, eq(countries.id, verificationLogs.countryId))
+      .innerJoin(denominations, eq(denominations.id, verificationLogs.denominationId))
+      .where(inArray(verificationLogs.id, ids))
+      .orderBy(asc(verificationLogs.id));
+  }
+
+  async getSerialSightings(denominationId: number, normalizedSerial: string, since?: Date): Promise<SerialSightings> {
+    const db = await this.db();
+    const conditions: SQL[] = [
+      eq(verificationLogs.denominationId, denominationId),
+      eq(verificationLogs.normalizedSerial, normalizedSerial),
     ];
+    if (since) {
+      conditions.push(gte(verificationLogs.timestamp, since));
+    }
+
+    const [sightings] = await db
+      .select({
+        count: sql<number>`count(*)`.mapWith(Number),
+        tenants: sql<number>`count(distinct ${verificationLogs.tenantId})`.mapWith(Number),
+        firstSeenAt: sql<Date | null>`min(${verificationLogs.timestamp})`.mapWith(verificationLogs.timestamp),
+        lastSeenAt: sql<Date | null>`max(${verificationLogs.timestamp})`.mapWith(verificationLogs.timestamp),
+      })
+      .from(verificationLogs)
+      .where(and(...conditions));
+    return sightings;
+  }
+
+  async getFlaggedSerials(filter: FlaggedSerialFilter = {}): Promise<FlaggedSerial[]> {
+    const db = await this.db();
+    const conditions = [];
+    if (filter.countryId !== undefined) {
+      conditions.push(eq(flaggedSerials.countryId, filter.countryId));
+    }
+    if (filter.denominationId !== undefined) {
+      conditions.push(eq(flaggedSerials.denominationId, filter.denominationId));
+    }
+
+    return await db
+      .select()
+      .from(flaggedSerials)
+      .where(and(...conditions))
+      .orderBy(desc(flaggedSerials.dateAdded));
+  }
+
+  async getFlaggedSerial(denominationId: number, serialNumber: string): Promise<FlaggedSerial | undefined> {
+    const db = await this.db();
+    const [entry] = await db
+      .select()
+      .from(flaggedSerials)
+      .where(and(eq(flaggedSerials.denominationId, denominationId), eq(flaggedSerials.serialNumber, serialNumber)));
+    return entry || undefined;
+  }
+
+  async findFlaggedSerials(denominationId: number, serialNumbers: string[]): Promise<FlaggedSerial[]> {
+    if (serialNumbers.length === 0) {
+      return [];
+    }
+
+    const db = await this.db();
+    return await db
+      .select()
+      .from(flaggedSerials)
+      .where(and(eq(flaggedSerials.denominationId, denominationId), inArray(flaggedSerials.serialNumber, serialNumbers)));
+  }
+
+  async createFlaggedSerials(entries: InsertFlaggedSerial[]): Promise<FlaggedSerial[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const db = await this.db();
+    return await db
+      .insert(flaggedSerials)
+      .values(entries)
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  async deleteFlaggedSerial(id: number): Promise<boolean> {
+    const db = await this.db();
+    const deleted = await db
+      .delete(flaggedSerials)
+      .where(eq(flaggedSerials.id, id))
+      .returning({ id: flaggedSerials.id });
+    return deleted.length > 0;
+  }
+
+  async getTenants(): Promise<Tenant[]> {
+    const db = await this.db();
+    return await db.select().from(tenants).orderBy(asc(tenants.id));
+  }
+
+  async getTenant(id: number): Promise<Tenant | undefined> {
+    const db = await this.db();
+    const [tenant] = await db.select().from(tenants).where(eq(tenants.id, id));
+    return tenant || undefined;
+  }
+
+  async getTenantByName(name: string): Promise<Tenant | undefined> {
+    const db = await this.db();
+    const [tenant] = await db.select().from(tenants).where(eq(tenants.name, name));
+    return tenant || undefined;
+  }
+
+  async createTenant(insertTenant: InsertTenant): Promise<Tenant> {
+    const db = await this.db();
+    const [tenant] = await db
+      .insert(tenants)
+      .values(insertTenant)
+      .returning();
+    return tenant;
+  }
+
+  async updateTenant(id: number, update: UpdateTenant): Promise<Tenant | undefined> {
+    const db = await this.db();
+    const [tenant] = await db
+      .update(tenants)
+      .set(update)
+      .where(eq(tenants.id, id))
+      .returning();
+    return tenant || undefined;
+  }
 
-    const createdCountries = await Promise.all(
-      countryData.map(country => this.createCountry(country))
-    );
-
-    // Seed denominations with comprehensive banknote data
-    const denominationData = [
-      // US Dollar
-      { countryId: createdCountries[0].id, value: "1", displayName: "$1", serialFormat: "^[A-L]\\d{8}[A-Z]$", serialLength: 10, patternDescription: "Letter + 8 digits + Letter" },
-      { countryId: createdCountries[0].id, value: "2", displayName: "$2", serialFormat: "^[A-L]\\d{8}[A-Z]$", serialLength: 10, patternDescription: "Letter + 8 digits + Letter" },
-      { countryId: createdCountries[0].id, value: "5", displayName: "$5", serialFormat: "^[A-L]\\d{8}[A-Z]$", serialLength: 10, patternDescription: "Letter + 8 digits + Letter" },
-      { countryId: createdCountries[0].id, value: "10", displayName: "$10", serialFormat: "^[A-L]\\d{8}[A-Z]$", serialLength: 10, patternDescription: "Letter + 8 digits + Letter" },
-      { countryId: createdCountries[0].id, value: "20", displayName: "$20", serialFormat: "^[A-L]\\d{8}[A-Z]$", serialLength: 10, patternDescription: "Letter + 8 digits + Letter" },
-      { countryId: createdCountries[0].id, value: "50", displayName: "$50", serialFormat: "^[A-L]\\d{8}[A-Z]$", serialLength: 10, patternDescription: "Letter + 8 digits + Letter" },
-      { countryId: createdCountries[0].id, value: "100", displayName: "$100", serialFormat: "^[A-L]\\d{8}[A-Z]$", serialLength: 10, patternDescription: "Letter + 8 digits + Letter" },
-      
-      // UK Pound - Fixed format based on real Bank of England notes
-      { countryId: createdCountries[1].id, value: "5", displayName: "£5", serialFormat: "^[A-Z]{2}\\d{2}\\s\\d{6}$", serialLength: 11, patternDescription: "2 Letters + 2 digits + space + 6 digits" },
-      { countryId: createdCountries[1].id, value: "10", displayName: "£10", serialFormat: "^[A-Z]{2}\\d{2}\\s\\d{6}$", serialLength: 11, patternDescription: "2 Letters + 2 digits + space + 6 digits" },
-      { countryId: createdCountries[1].id, value: "20", displayName: "£20", serialFormat: "^[A-Z]{2}\\d{2}\\s\\d{6}$", serialLength: 11, patternDescription: "2 Letters + 2 digits + space + 6 digits" },
-      { countryId: createdCountries[1].id, value: "50", displayName: "£50", serialFormat: "^[A-Z]{2}\\d{2}\\s\\d{6}$", serialLength: 11, patternDescription: "2 Letters + 2 digits + space + 6 digits" },
-      
-      // Euro
-      { countryId: createdCountries[2].id, value: "5", displayName: "€5", serialFormat: "^[A-Z]\\d{11}$", serialLength: 12, patternDescription: "Letter + 11 digits" },
-      { countryId: createdCountries[2].id, value: "10", displayName: "€10", serialFormat: "^[A-Z]\\d{11}$", serialLength: 12, patternDescription: "Letter + 11 digits" },
-      { countryId: createdCountries[2].id, value: "20", displayName: "€20", serialFormat: "^[A-Z]\\d{11}$", serialLength: 12, patternDescription: "Letter + 11 digits" },
-      { countryId: createdCountries[2].id, value: "50", displayName: "€50", serialFormat: "^[A-Z]\\d{11}$", serialLength: 12, patternDescription: "Letter + 11 digits" },
-      { countryId: createdCountries[2].id, value: "100", displayName: "€100", serialFormat: "^[A-Z]\\d{11}$", serialLength: 12, patternDescription: "Letter + 11 digits" },
-      { countryId: createdCountries[2].id, value: "200", displayName: "€200", serialFormat: "^[A-Z]\\d{11}$", serialLength: 12, patternDescription: "Letter + 11 digits" },
-      { countryId: createdCountries[2].id, value: "500", displayName: "€500", serialFormat: "^[A-Z]\\d{11}$", serialLength: 12, patternDescription: "Letter + 11 digits" },
-      
-      // Japanese Yen
-      { countryId: createdCountries[3].id, value: "1000", displayName: "¥1000", serialFormat: "^[A-Z]\\d{6}[A-Z]$", serialLength: 8, patternDescription: "Letter + 6 digits + Letter" },
-      { countryId: createdCountries[3].id, value: "2000", displayName: "¥2000", serialFormat: "^[A-Z]\\d{6}[A-Z]$", serialLength: 8, patternDescription: "Letter + 6 digits + Letter" },
-      { countryId: createdCountries[3].id, value: "5000", displayName: "¥5000", serialFormat: "^[A-Z]\\d{6}[A-Z]$", serialLength: 8, patternDescription: "Letter + 6 digits + Letter" },
-      { countryId: createdCountries[3].id, value: "10000", displayName: "¥10000", serialFormat: "^[A-Z]\\d{6}[A-Z]$", serialLength: 8, patternDescription: "Letter + 6 digits + Letter" },
-      
-      // Canadian Dollar
-      { countryId: createdCountries[4].id, value: "5", displayName: "C$5", serialFormat: "^[A-Z]{3}\\d{7}$", serialLength: 10, patternDescription: "3 Letters + 7 digits" },
-      { countryId: createdCountries[4].id, value: "10", displayName: "C$10", serialFormat: "^[A-Z]{3}\\d{7}$", serialLength: 10, patternDescription: "3 Letters + 7 digits" },
-      { countryId: createdCountries[4].id, value: "20", displayName: "C$20", serialFormat: "^[A-Z]{3}\\d{7}$", serialLength: 10, patternDescription: "3 Letters + 7 digits" },
-      { countryId: createdCountries[4].id, value: "50", displayName: "C$50", serialFormat: "^[A-Z]{3}\\d{7}$", serialLength: 10, patternDescription: "3 Letters + 7 digits" },
-      { countryId: createdCountries[4].id, value: "100", displayName: "C$100", serialFormat: "^[A-Z]{3}\\d{7}$", serialLength: 10, patternDescription: "3 Letters + 7 digits" },
-      
-      // Australian Dollar
-      { countryId: createdCountries[5].id, value: "5", displayName: "A$5", serialFormat: "^[A-Z]{2}\\d{8}$", serialLength: 10, patternDescription: "2 Letters + 8 digits" },
-      { countryId: createdCountries[5].id, value: "10", displayName: "A$10", serialFormat: "^[A-Z]{2}\\d{8}$", serialLength: 10, patternDescription: "2 Letters + 8 digits" },
-      { countryId: createdCountries[5].id, value: "20", displayName: "A$20", serialFormat: "^[A-Z]{2}\\d{8}$", serialLength: 10, patternDescription: "2 Letters + 8 digits" },
-      { countryId: createdCountries[5].id, value: "50", displayName: "A$50", serialFormat: "^[A-Z]{2}\\d{8}$", serialLength: 10, patternDescription: "2 Letters + 8 digits" },
-      { countryId: createdCountries[5].id, value: "100", displayName: "A$100", serialFormat: "^[A-Z]{2}\\d{8}$", serialLength: 10, patternDescription: "2 Letters + 8 digits" },
-      
-      // Swiss Franc
-      { countryId: createdCountries[6].id, value: "10", displayName: "CHF 10", serialFormat: "^\\d{2}[A-Z]\\d{7}$", serialLength: 10, patternDescription: "2 digits + Letter + 7 digits" },
-      { countryId: createdCountries[6].id, value: "20", displayName: "CHF 20", serialFormat: "^\\d{2}[A-Z]\\d{7}$", serialLength: 10, patternDescription: "2 digits + Letter + 7 digits" },
-      { countryId: createdCountries[6].id, value: "50", displayName: "CHF 50", serialFormat: "^\\d{2}[A-Z]\\d{7}$", serialLength: 10, patternDescription: "2 digits + Letter + 7 digits" },
-      { countryId: createdCountries[6].id, value: "100", displayName: "CHF 100", serialFormat: "^\\d{2}[A-Z]\\d{7}$", serialLength: 10, patternDescription: "2 digits + Letter + 7 digits" },
-      { countryId: createdCountries[6].id, value: "200", displayName: "CHF 200", serialFormat: "^\\d{2}[A-Z]\\d{7}$", serialLength: 10, patternDescription: "2 digits + Letter + 7 digits" },
-      { countryId: createdCountries[6].id, value: "1000", displayName: "CHF 1000", serialFormat: "^\\d{2}[A-Z]\\d{7}$", serialLength: 10, patternDescription: "2 digits + Letter + 7 digits" },
-      
-      // South African Rand
-      { countryId: createdCountries[19].id, value: "10", displayName: "R10", serialFormat: "^[A-Z]{2}\\d{7}$", serialLength: 9, patternDescription: "2 Letters + 7 digits" },
-      { countryId: createdCountries[19].id, value: "20", displayName: "R20", serialFormat: "^[A-Z]{2}\\d{7}$", serialLength: 9, patternDescription: "2 Letters + 7 digits" },
-      { countryId: createdCountries[19].id, value: "50", displayName: "R50", serialFormat: "^[A-Z]{2}\\d{7}$", serialLength: 9, patternDescription: "2 Letters + 7 digits" },
-      { countryId: createdCountries[19].id, value: "100", displayName: "R100", serialFormat: "^[A-Z]{2}\\d{7}$", serialLength: 9, patternDescription: "2 Letters + 7 digits" },
-      { countryId: createdCountries[19].id, value: "200", displayName: "R200", serialFormat: "^[A-Z]{2}\\d{7}$", serialLength: 9, patternDescription: "2 Letters + 7 digits" },
-      
-      // Sri Lankan Rupee
-      { countryId: createdCountries[20].id, value: "20", displayName: "Rs 20", serialFormat: "^[A-Z]\\d{6}$", serialLength: 7, patternDescription: "Letter + 6 digits" },
-      { countryId: createdCountries[20].id, value: "50", displayName: "Rs 50", serialFormat: "^[A-Z]\\d{6}$", serialLength: 7, patternDescription: "Letter + 6 digits" },
-      { countryId: createdCountries[20].id, value: "100", displayName: "Rs 100", serialFormat: "^[A-Z]\\d{6}$", serialLength: 7, patternDescription: "Letter + 6 digits" },
-      { countryId: createdCountries[20].id, value: "500", displayName: "Rs 500", serialFormat: "^[A-Z]\\d{6}$", serialLength: 7, patternDescription: "Letter + 6 digits" },
-      { countryId: createdCountries[20].id, value: "1000", displayName: "Rs 1000", serialFormat: "^[A-Z]\\d{6}$", serialLength: 7, patternDescription: "Letter + 6 digits" },
-      { countryId: createdCountries[20].id, value: "5000", displayName: "Rs 5000", serialFormat: "^[A-Z]\\d{6}$", serialLength: 7, patternDescription: "Letter + 6 digits" },
+  async getApiKeysByTenant(tenantId: number): Promise<ApiKey[]> {
+    const db = await this.db();
+    return await db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.tenantId, tenantId))
+      .orderBy(asc(apiKeys.id));
+  }
+
+  async getApiKeyById(id: number): Promise<ApiKey | undefined> {
+    const db = await this.db();
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return apiKey || undefined;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const db = await this.db();
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return apiKey || undefined;
+  }
+
+  async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
+    const db = await this.db();
+    const [apiKey] = await db
+      .insert(apiKeys)
+      .values(insertApiKey)
+      .returning();
+    return apiKey;
+  }
+
+  async updateApiKey(id: number, update: UpdateApiKey): Promise<ApiKey | undefined> {
+    const db = await this.db();
+    const [apiKey] = await db
+      .update(apiKeys)
+      .set(update)
+      .where(eq(apiKeys.id, id))
+      .returning();
+    return apiKey || undefined;
+  }
+
+  async createAbuseEvent(insertEvent: InsertAbuseEvent): Promise<AbuseEvent> {
+    const db = await this.db();
+    const [event] = await db
+      .insert(abuseEvents)
+      .values(insertEvent)
+      .returning();
+    return event;
+  }
+
+  async getAbuseEvents(filter: AbuseEventFilter): Promise<AbuseEvent[]> {
+    const db = await this.db();
+    const conditions: SQL[] = [];
+    if (filter.kind) {
+      conditions.push(eq(abuseEvents.kind, filter.kind));
+    }
+    if (filter.from) {
+      conditions.push(gte(abuseEvents.timestamp, filter.from));
+    }
+    if (filter.to) {
+      conditions.push(lt(abuseEvents.timestamp, filter.to));
+    }
+
+    return await db
+      .select()
+      .from(abuseEvents)
+      .where(and(...conditions))
+      .orderBy(desc(abuseEvents.timestamp), desc(abuseEvents.id))
+      .limit(filter.limit);
+  }
+
+  async getWebhooks(filter: WebhookFilter = {}): Promise<Webhook[]> {
+    const db = await this.db();
+    const conditions: SQL[] = [];
+    if (filter.tenantId !== undefined) {
+      conditions.push(eq(webhooks.tenantId, filter.tenantId));
+    }
+    if (filter.activeOnly) {
+      conditions.push(eq(webhooks.isActive, true));
+    }
+
+    return await db
+      .select()
+      .from(webhooks)
+      .where(and(...conditions))
+      .orderBy(asc(webhooks.id));
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const db = await this.db();
+    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook || undefined;
+  }
+
+  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
+    const db = await this.db();
+    const [webhook] = await db
+      .insert(webhooks)
+      .values(insertWebhook)
+      .returning();
+    return webhook;
+  }
+
+  async updateWebhook(id: number, update: UpdateWebhook): Promise<Webhook | undefined> {
+    const db = await this.db();
+    const [webhook] = await db
+      .update(webhooks)
+      .set(update)
+      .where(eq(webhooks.id, id))
+      .returning();
+    return webhook || undefined;
+  }
+
+  async createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) {
+      return [];
+    }
+
+    const db = await this.db();
+    return await db
+      .insert(webhookDeliveries)
+      .values(deliveries)
+      .returning();
+  }
+
+  async updateWebhookDelivery(id: number, update: UpdateWebhookDelivery): Promise<WebhookDelivery | undefined> {
+    const db = await this.db();
+    const [delivery] = await db
+      .update(webhookDeliveries)
+      .set(update)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return delivery || undefined;
+  }
+
+  async getWebhookDeliveries(filter: WebhookDeliveryFilter): Promise<WebhookDelivery[]> {
+    const db = await this.db();
+    const conditions: SQL[] = [eq(webhookDeliveries.webhookId, filter.webhookId)];
+    if (filter.status) {
+      conditions.push(eq(webhookDeliveries.status, filter.status));
+    }
+
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(filter.limit);
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    const db = await this.db();
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt), asc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async findAnomalyClusters(query: AnomalyQuery): Promise<AnomalyCluster[]> {
+    const db = await this.db();
+    const { thresholds } = query;
+
+    // Grouped and counted in Postgres, so the day's logs are never loaded into
+    // memory. Each query groups by grouping sets: one row per cluster over all
+    // of its verifications, and one per cluster and tenant.
+    const logs = sql`
+      select id, timestamp, tenant_id, denomination_id, is_authentic, length_valid, known_counterfeit,
+        coalesce(normalized_serial, serial_number) as serial
+      from ${verificationLogs}
+      where timestamp >= ${query.from.toISOString()}::timestamp and timestamp < ${query.to.toISOString()}::timestamp
+    `;
+    // The counts of the verifications in a group that match `only`
+    const counts = (serials: SQL, total: SQL, only: SQL = sql`true`) => sql`
+      count(*) filter (where ${only})::int as verifications,
+      count(*) filter (where ${only} and not is_authentic)::int as suspicious,
+      ${total}::int as total,
+      ${serials}::int as serials,
+      min(serial collate "C") filter (where ${only}) as first_serial,
+      max(serial collate "C") filter (where ${only}) as last_serial,
+      coalesce(bool_or(known_counterfeit) filter (where ${only}), false) as known_counterfeit,
+      floor(extract(epoch from min(timestamp) filter (where ${only})) * 1000)::float8 as first_seen_at,
+      floor(extract(epoch from max(timestamp) filter (where ${only})) * 1000)::float8 as last_seen_at,
+      ((array_agg(id order by timestamp, id) filter (where ${only}))[1:${MAX_ALERT_LOGS}])::int[] as log_ids,
+      grouping(tenant_id) = 1 as everyone,
+      tenant_id
+    `;
+
+    const repeated = await db.execute(sql`
+      with logs as (${logs}),
+      clusters as (
+        select denomination_id, serial from logs
+        group by denomination_id, serial
+        having count(*) >= ${thresholds.repeatedSerial}
+      )
+      select denomination_id, serial as key, ${counts(sql`1`, sql`0`)}
+      from logs join clusters using (denomination_id, serial)
+      group by grouping sets ((denomination_id, serial), (denomination_id, serial, tenant_id))
+    `);
+
+    // Tenants without suspicious verifications have no share in the spike
+    const spikes = await db.execute(sql`
+      with logs as (${logs}),
+      clusters as (
+        select denomination_id from logs
+        where not is_authentic
+        group by denomination_id
+        having count(*) >= ${thresholds.suspiciousSpike}
+      )
+      select denomination_id, 'all' as key,
+        ${counts(sql`count(distinct serial) filter (where not is_authentic)`, sql`count(*)`, sql`not is_authentic`)}
+      from logs join clusters using (denomination_id)
+      group by grouping sets ((denomination_id), (denomination_id, tenant_id))
+      having count(*) filter (where not is_authentic) > 0
+    `);
+
+    // Serials are split like splitSerial does: the last run of digits is the
+    // number, and the text around it and its length the series. A sequence
+    // starts wherever the gap to the previous distinct number is too large.
+    const sequences = await db.execute(sql`
+      with logs as (${logs}),
+      split as (
+        select logs.*, regexp_match(serial, ${/^(.*\D)?(\d+)(\D*)$/.source}) as parts
+        from logs where length_valid
+      ),
+      numbered as (
+        select split.*,
+          coalesce(parts[1], '') || '|' || length(parts[2]) || '|' || parts[3] as series,
+          parts[2]::bigint as number
+        from split where parts is not null and length(parts[2]) <= 15
+      ),
+      steps as (
+        select denomination_id, series, number,
+          coalesce(number - lag(number) over (partition by denomination_id, series order by number), 0)
+            > ${thresholds.sequenceGap} as starts_sequence
+        from (select distinct denomination_id, series, number from numbered) serials
+      ),
+      runs as (
+        select steps.*,
+          count(*) filter (where starts_sequence) over (partition by denomination_id, series order by number) as run
+        from steps
+      ),
+      clusters as (
+        select denomination_id, series, min(number) as first_number, max(number) as last_number
+        from runs
+        group by denomination_id, series, run
+        having count(*) >= ${thresholds.sequenceLength}
+      )
+      select numbered.denomination_id, clusters.series || ':' || clusters.first_number as key,
+        ${counts(sql`count(distinct number)`, sql`0`)}
+      from numbered join clusters on clusters.denomination_id = numbered.denomination_id
+        and clusters.series = numbered.series
+        and numbered.number between clusters.first_number and clusters.last_number
+      group by grouping sets (
+        (numbered.denomination_id, clusters.series, clusters.first_number),
+        (numbered.denomination_id, clusters.series, clusters.first_number, tenant_id)
+      )
+    `);
+
+    const rows: (Record<string, unknown> & { kind: AlertKind })[] = [
+      ...repeated.rows.map(row => ({ ...row, kind: "repeated_serial" as const })),
+      ...spikes.rows.map(row => ({ ...row, kind: "suspicious_spike" as const })),
+      ...sequences.rows.map(row => ({ ...row, kind: "sequential_serials" as const })),
     ];
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const labels = await db
+      .select({ id: denominations.id, countryId: denominations.countryId, countryCode: countries.code, value: denominations.value })
+      .from(denominations)
+      .innerJoin(countries, eq(countries.id, denominations.countryId))
+      .where(inArray(denominations.id, Array.from(new Set(rows.map(row => Number(row.denomination_id))))));
+    const labelById = new Map(labels.map(label => [label.id, label]));
+
+    const toCounts = (row: Record<string, unknown>): AnomalyCounts => ({
+      verifications: Number(row.verifications),
+      suspicious: Number(row.suspicious),
+      total: Number(row.total),
+      serials: Number(row.serials),
+      firstSerial: String(row.first_serial),
+      lastSerial: String(row.last_serial),
+      knownCounterfeit: Boolean(row.known_counterfeit),
+      firstSeenAt: new Date(Number(row.first_seen_at)),
+      lastSeenAt: new Date(Number(row.last_seen_at)),
+      logIds: (row.log_ids as number[]).map(Number),
+    });
 
-    await Promise.all(
-      denominationData.map(denomination => this.createDenomination(denomination))
-    );
+    // The rows over all verifications come with the rows of each tenant;
+    // anonymous verifications have no share of their own
+    const clusters = new Map<string, AnomalyCluster>();
+    const shares: { id: string; tenantId: number; counts: AnomalyCounts }[] = [];
+    for (const row of rows) {
+      const id = `${row.kind}:${row.denomination_id}:${row.key}`;
+      if (!row.everyone) {
+        if (row.tenant_id !== null) {
+          shares.push({ id, tenantId: Number(row.tenant_id), counts: toCounts(row) });
+        }
+        continue;
+      }
+
+      const label = labelById.get(Number(row.denomination_id))!;
+      clusters.set(id, {
+        kind: row.kind,
+        countryId: label.countryId,
+        denominationId: label.id,
+        countryCode: label.countryCode,
+        denomination: label.value,
+        key: String(row.key),
+        counts: toCounts(row),
+        tenants: [],
+      });
+    }
+    for (const share of shares.sort((a, b) => a.tenantId - b.tenantId)) {
+      clusters.get(share.id)?.tenants.push({ tenantId: share.tenantId, ...share.counts });
+    }
+    return Array.from(clusters.values());
+  }
+
+  async upsertAlerts(insertAlerts: InsertAlert[]): Promise<Alert[]> {
+    if (insertAlerts.length === 0) {
+      return [];
+    }
+
+    const db = await this.db();
+    return await db
+      .insert(alerts)
+      .values(insertAlerts)
+      .onConflictDoUpdate({
+        target: alerts.fingerprint,
+        set: {
+          severity: sql`excluded.severity`,
+          tenantIds: sql`excluded.tenant_ids`,
+          summary: sql`excluded.summary`,
+          details: sql`excluded.details`,
+          logIds: sql`excluded.log_ids`,
+          firstSeenAt: sql`excluded.first_seen_at`,
+          lastSeenAt: sql`excluded.last_seen_at`,
+        },
+      })
+      .returning();
   }
+
+  async getAlerts(filter: AlertFilter): Promise<Alert[]> {
+    const db = await this.db();
+    const conditions: SQL[] = [];
+    if (filter.tenantId !== undefined) {
+      conditions.push(sql`${alerts.tenantIds} @> ${JSON.stringify([filter.tenantId])}::jsonb`);
+    }
+    if (filter.kind) {
+      conditions.push(eq(alerts.kind, filter.kind));
+    }
+    if (filter.severity) {
+      conditions.push(eq(alerts.severity, filter.severity));
+    }
+    if (filter.countryId !== undefined) {
+      conditions.push(eq(alerts.countryId, filter.countryId));
+    }
+    if (filter.denominationId !== undefined) {
+      conditions.push(eq(alerts.denominationId, filter.denominationId));
+    }
+    if (filter.from) {
+      conditions.push(gte(alerts.lastSeenAt, filter.from));
+    }
+    if (filter.to) {
+      conditions.push(lt(alerts.lastSeenAt, filter.to));
+    }
+
+    return await db
+      .select()
+      .from(alerts)
+      .where(and(...conditions))
+      .orderBy(desc(alerts.lastSeenAt), desc(alerts.id))
+      .limit(filter.limit);
+  }
+
+  async seedInitialData(): Promise<void> {
+    await seedInitialData(this);
+  }
+
+  async ping(): Promise<void> {
+    const db = await this.db();
+    await db.execute(sql`select 1`);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to close if the pool was never opened
+    if (!this.database) {
+      return;
+    }
+    const { pool } = await import("./db");
+    await pool.end();
+  }
+}
+
+// STORAGE_DRIVER selects the backend; without it we fall back to Postgres
+// when a database is configured and to the in-memory store otherwise.
+function createBackend(): IStorage {
+  const driver = process.env.STORAGE_DRIVER ?? (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (driver) {
+    case "postgres":
+      return new DatabaseStorage();
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}". Expected "postgres" or "memory".`);
+  }
+}
+
+// Catalog lookups are cached in process; CATALOG_CACHE_TTL_SECONDS bounds how
+// long changes made by other processes (e.g. catalog:sync) take to show up
+function createStorage(): CachedStorage {
+  const ttlSeconds = Number(process.env.CATALOG_CACHE_TTL_SECONDS);
+  const ttlMs = (Number.isFinite(ttlSeconds) && ttlSeconds >= 0 ? ttlSeconds : 60) * 1000;
+  return new CachedStorage(createBackend(), ttlMs);
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage();
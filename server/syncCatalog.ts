@@ -0,0 +1,32 @@
+import { DatabaseStorage, storage } from "./storage";
+import { formatCatalogSync, loadCatalog, syncCatalog } from "./catalogSync";
+
+// Applies server/catalog/catalog.json to the database and prints the diff.
+//
+//   npm run catalog:sync -- [--dry-run] [--prune] [--force]
+//
+// --dry-run only reports what would change; --prune retires countries,
+// denominations and series that are no longer in the catalog; --force applies
+// a catalog older than the one applied last.
+(async () => {
+  const args = process.argv.slice(2);
+
+  if (!(storage.inner instanceof DatabaseStorage)) {
+    console.error("Catalog sync writes to Postgres; set DATABASE_URL or STORAGE_DRIVER=postgres");
+    process.exit(1);
+  }
+
+  // Written to the database directly, so the catalog cache is dropped once
+  // at the end rather than after every upsert
+  const result = await syncCatalog(storage.inner, loadCatalog(), {
+    dryRun: args.includes("--dry-run"),
+    prune: args.includes("--prune"),
+    force: args.includes("--force"),
+  });
+  storage.invalidate();
+  console.log(formatCatalogSync(result));
+  process.exit(0);
+})().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,5 @@
+// The traineddata packages ship without type declarations
+declare module "@tesseract.js-data/eng" {
+  const data: { code: string; gzip: boolean; langPath: string };
+  export default data;
+}
@@ -0,0 +1,170 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { BanknoteSeries, Denomination } from "@shared/schema";
+import { loadCatalog, syncCatalog } from "./catalogSync";
+import { MemStorage } from "./memStorage";
+import { applySightings, normalizeForSeries, verifySerial } from "./verification";
+
+// Two letters and eight digits, without any normalization settings of its own
+const denomination: Denomination = {
+  id: 1,
+  countryId: 1,
+  value: "20",
+  displayName: "20",
+  serialFormat: "^[A-Z]{2}\\d{8}$",
+  serialLength: 10,
+  patternDescription: "2 letters + 8 digits",
+  serialRules: null,
+  normalization: null,
+  translations: {},
+  isActive: true,
+};
+
+function series(id: number, name: string, issuedOn: string, serialFormat: string, serialLength: number): BanknoteSeries {
+  return {
+    id,
+    denominationId: denomination.id,
+    name,
+    issuedOn,
+    withdrawnOn: null,
+    serialFormat,
+    serialLength,
+    patternDescription: name,
+    serialRules: null,
+    legalTenderStatus: "legal_tender",
+    translations: {},
+    isActive: true,
+  };
+}
+
+// The newer design prints a space after the fourth character
+const paper = series(1, "Paper", "2000-01-01", "^[A-Z]{2}\\d{8}$", 10);
+const polymer = series(2, "Polymer", "2020-01-01", "^[A-Z]{2}\\d{2}\\s\\d{6}$", 11);
+
+test("normalises the serial for the format of each candidate series", () => {
+  const spaced = verifySerial(denomination, "ab12 345678", undefined, { candidates: [paper, polymer] });
+  assert.equal(spaced.series?.name, "Polymer");
+  assert.equal(spaced.seriesMatch, "detected");
+  assert.equal(spaced.normalizedSerial, "AB12 345678");
+  assert.equal(spaced.isAuthentic, true);
+
+  const plain = verifySerial(denomination, "ab12345678", undefined, { candidates: [paper, polymer] });
+  assert.equal(plain.series?.name, "Paper");
+  assert.equal(plain.normalizedSerial, "AB12345678");
+
+  // The requested series decides the spacing
+  const requested = verifySerial(denomination, "ab12 345678", undefined, { candidates: [paper, polymer], requested: paper });
+  assert.equal(requested.normalizedSerial, "AB12345678");
+  assert.equal(requested.isAuthentic, true);
+});
+
+test("registry lookups use the serial verification reports", () => {
+  for (const serial of ["ab12 345678", "AB12345678", "ab12  34567"]) {
+    const selection = { candidates: [paper, polymer] };
+    assert.equal(normalizeForSeries(denomination, serial, selection), verifySerial(denomination, serial, undefined, selection).normalizedSerial);
+  }
+  assert.equal(normalizeForSeries(denomination, "ab12 345678"), "AB12345678");
+});
+
+test("suggests serials one lookalike character away", () => {
+  const verification = verifySerial(denomination, "AB1234567O", undefined);
+  assert.equal(verification.isAuthentic, false);
+  assert.deepEqual(verification.suggestions, ["AB12345670"]);
+});
+
+test("suggests serials two lookalike characters away when one is not enough", () => {
+  const verification = verifySerial(denomination, "A81234567O", undefined);
+  assert.deepEqual(verification.suggestions, ["AB12345670"]);
+});
+
+test("suggests nothing for a serial that passes or is too far off", () => {
+  assert.deepEqual(verifySerial(denomination, "AB12345678", undefined).suggestions, []);
+  assert.deepEqual(verifySerial(denomination, "ABC1234567", undefined).suggestions, []);
+});
+
+test("suggestions pass the rules of the detected series", () => {
+  const verification = verifySerial(denomination, "AB12 34567O", undefined, { candidates: [paper, polymer] });
+  assert.equal(verification.series?.name, "Polymer");
+  assert.deepEqual(verification.suggestions, ["AB12 345670"]);
+});
+
+// GB 20: the withdrawn paper Series F and the current polymer Series G share a format
+async function gb20() {
+  const storage = new MemStorage();
+  const catalog = loadCatalog();
+  await syncCatalog(storage, { ...catalog, countries: catalog.countries.filter(country => country.code === "GB") });
+  const country = (await storage.getCountryByCode("GB"))!;
+  const denomination = (await storage.getDenomination(country.id, "20"))!;
+  const candidates = await storage.getSeriesByDenomination(denomination.id);
+  const byName = (name: string) => candidates.find(entry => entry.name === name)!;
+  return { denomination, candidates, paper: byName("Series F (paper)"), polymer: byName("Series G (polymer)") };
+}
+
+test("detects the newest series a serial passes", async () => {
+  const { denomination, candidates } = await gb20();
+  const verification = verifySerial(denomination, "HC37482915", undefined, { candidates });
+
+  assert.equal(verification.series?.name, "Series G (polymer)");
+  assert.equal(verification.seriesMatch, "detected");
+  assert.equal(verification.legalTender, true);
+  assert.deepEqual(verification.warnings, []);
+  assert.equal(verification.isAuthentic, true);
+});
+
+test("a requested series is used even when a newer one fits", async () => {
+  const { denomination, candidates, paper } = await gb20();
+  const verification = verifySerial(denomination, "HC37482915", undefined, { candidates, requested: paper });
+
+  assert.equal(verification.series?.name, "Series F (paper)");
+  assert.equal(verification.seriesMatch, "requested");
+  assert.equal(verification.legalTender, false);
+  assert.deepEqual(verification.warnings.map(warning => warning.params), [{ series: "Series F (paper)", date: "2022-09-30" }]);
+  // Withdrawn notes are still genuine
+  assert.equal(verification.isAuthentic, true);
+});
+
+test("a serial no series accepts is reported against the closest one", () => {
+  // Only the older design passes the format, but it is printed by another works
+  const works = { ...paper, serialRules: { prefixes: ["ZZ"] } };
+  const verification = verifySerial(denomination, "AB12345678", undefined, { candidates: [works, polymer] });
+
+  assert.equal(verification.series?.name, "Paper");
+  assert.equal(verification.seriesMatch, "closest");
+  assert.deepEqual(verification.rules.filter(result => !result.passed).map(result => result.rule), ["prefix"]);
+  assert.equal(verification.isAuthentic, false);
+});
+
+test("a denomination without series is checked against its own rules", () => {
+  const verification = verifySerial(denomination, "AB12345678", undefined);
+  assert.equal(verification.series, undefined);
+  assert.equal(verification.seriesMatch, undefined);
+  assert.equal(verification.isAuthentic, true);
+});
+
+function sightings(count: number) {
+  return { count, tenants: 1, firstSeenAt: new Date("2026-03-01T09:30:00Z"), lastSeenAt: new Date("2026-03-02T09:30:00Z") };
+}
+
+test("sightings are only reported without a threshold", () => {
+  const verification = applySightings(verifySerial(denomination, "AB12345678", undefined), sightings(50), null);
+  assert.equal(verification.sightings?.count, 50);
+  assert.equal(verification.repeatedSighting, false);
+  assert.equal(verification.isAuthentic, true);
+  assert.deepEqual(verification.warnings, []);
+});
+
+test("a serial seen as often as the threshold is suspicious", () => {
+  const genuine = verifySerial(denomination, "AB12345678", undefined);
+  assert.equal(applySightings(genuine, sightings(1), 2).isAuthentic, true);
+
+  const repeated = applySightings(genuine, sightings(2), 2);
+  assert.equal(repeated.repeatedSighting, true);
+  assert.equal(repeated.isAuthentic, false);
+  assert.deepEqual(repeated.warnings.map(warning => warning.params), [{ count: 2 }]);
+});
+
+test("sightings do not make a failed serial authentic", () => {
+  const failed = applySightings(verifySerial(denomination, "AB1234567", undefined), sightings(0), 2);
+  assert.equal(failed.repeatedSighting, false);
+  assert.equal(failed.isAuthentic, false);
+});
@@ -0,0 +1,279 @@
+import type {
+  BanknoteSeries,
+  Country,
+  Denomination,
+  FlaggedSerial,
+  InsertVerificationLog,
+  Locale,
+} from "@shared/schema";
+import {
+  describeSerialRule,
+  evaluateSerialRules,
+  type SerialRuleName,
+  type SerialRuleResult,
+  type SerialSpec,
+} from "./serialRules";
+import { normalizeSerial, suggestSerials } from "./normalization";
+import type { VerificationResult } from "@shared/api";
+import type { SerialSightings } from "./storage";
+import { localize, translate, type LocalizedMessage } from "./i18n";
+
+export interface SeriesSelection {
+  // Active series of the denomination
+  candidates: BanknoteSeries[];
+  // Series named in the request; detection is skipped when present
+  requested?: BanknoteSeries;
+}
+
+// How the series in a result was chosen: named by the caller, the one whose
+// rules the serial passes, or failing that the one it came closest to
+export type SeriesMatch = "requested" | "detected" | "closest";
+
+export interface SerialVerification {
+  normalizedSerial: string;
+  series: BanknoteSeries | undefined;
+  seriesMatch: SeriesMatch | undefined;
+  // False when the series has been withdrawn or demonetized
+  legalTender: boolean;
+  // Translated into the caller's language by toVerificationResult
+  warnings: LocalizedMessage[];
+  formatValid: boolean;
+  lengthValid: boolean;
+  rules: SerialRuleResult[];
+  knownCounterfeit: boolean;
+  // Earlier verifications of the serial, when they have been looked up
+  sightings: SerialSightings | undefined;
+  // Set when the sightings reached the caller's repeat threshold
+  repeatedSighting: boolean;
+  isAuthentic: boolean;
+  // Lookalike corrections that would pass every rule, when some rule failed
+  suggestions: string[];
+}
+
+// Newest issue first, so the current design wins when several accept a serial
+function byIssueDateDescending(a: BanknoteSeries, b: BanknoteSeries): number {
+  return (b.issuedOn ?? "").localeCompare(a.issuedOn ?? "") || a.id - b.id;
+}
+
+interface SeriesResolution {
+  normalizedSerial: string;
+  series: BanknoteSeries | undefined;
+  seriesMatch: SeriesMatch | undefined;
+  rules: SerialRuleResult[];
+}
+
+// Picks the series a serial belongs to along with its rule results. Falls back
+// to the series with the most passing rules so failures are reported against
+// the most plausible design. Each series is tried with the serial normalised
+// for its own format, since designs of one note may differ in their spacing.
+function selectSeries(denomination: Denomination, candidates: BanknoteSeries[], serialNumber: string): SeriesResolution {
+  let closest: { series: BanknoteSeries; normalizedSerial: string; rules: SerialRuleResult[]; passed: number } | undefined;
+
+  for (const series of candidates.slice().sort(byIssueDateDescending)) {
+    const normalizedSerial = normalizeSerial(denomination, serialNumber, series);
+    const rules = evaluateSerialRules(series, normalizedSerial);
+    const passed = rules.filter(result => result.passed).length;
+    if (passed === rules.length) {
+      return { normalizedSerial, series, seriesMatch: "detected", rules };
+    }
+    if (!closest || passed > closest.passed) {
+      closest = { series, normalizedSerial, rules, passed };
+    }
+  }
+
+  return { normalizedSerial: closest!.normalizedSerial, series: closest!.series, seriesMatch: "closest", rules: closest!.rules };
+}
+
+// The requested or detected series, or none for a denomination without
+// series, with the serial normalised and checked against its rules
+function resolveSeries(denomination: Denomination, serialNumber: string, selection: SeriesSelection): SeriesResolution {
+  if (selection.requested) {
+    const normalizedSerial = normalizeSerial(denomination, serialNumber, selection.requested);
+    return {
+      normalizedSerial,
+      series: selection.requested,
+      seriesMatch: "requested",
+      rules: evaluateSerialRules(selection.requested, normalizedSerial),
+    };
+  }
+  if (selection.candidates.length > 0) {
+    return selectSeries(denomination, selection.candidates, serialNumber);
+  }
+
+  const normalizedSerial = normalizeSerial(denomination, serialNumber);
+  return { normalizedSerial, series: undefined, seriesMatch: undefined, rules: evaluateSerialRules(denomination, normalizedSerial) };
+}
+
+// The normalised serial verifySerial reports for the same series selection,
+// e.g. to look the serial up in the counterfeit registry beforehand
+export function normalizeForSeries(
+  denomination: Denomination,
+  serialNumber: string,
+  selection: SeriesSelection = { candidates: [] },
+): string {
+  return resolveSeries(denomination, serialNumber, selection).normalizedSerial;
+}
+
+// Whether notes of the series can still be used for payment today
+function isLegalTender(series: BanknoteSeries, today: string): boolean {
+  return series.legalTenderStatus === "legal_tender" && (!series.withdrawnOn || series.withdrawnOn > today);
+}
+
+function seriesWarnings(series: BanknoteSeries, today: string): LocalizedMessage[] {
+  if (series.legalTenderStatus === "demonetized") {
+    return [{ message: "{series} notes have been demonetized and have no monetary value", params: { series: series.name } }];
+  }
+  if (!isLegalTender(series, today)) {
+    return [series.withdrawnOn
+      ? {
+          message: "{series} notes have been withdrawn and are no longer legal tender since {date}; they can usually still be exchanged at the issuing bank",
+          params: { series: series.name, date: series.withdrawnOn },
+        }
+      : {
+          message: "{series} notes have been withdrawn and are no longer legal tender; they can usually still be exchanged at the issuing bank",
+          params: { series: series.name },
+        }];
+  }
+  if (series.withdrawnOn) {
+    return [{ message: "{series} notes will be withdrawn on {date}", params: { series: series.name, date: series.withdrawnOn } }];
+  }
+  return [];
+}
+
+// Normalises one serial number, runs the serial rules of the denomination, or
+// of its requested or detected series, on it and folds in the counterfeit
+// registry lookup done by the caller, which must use the serial normalised by
+// normalizeForSeries with the same selection
+export function verifySerial(
+  denomination: Denomination,
+  serialNumber: string,
+  counterfeitEntry: FlaggedSerial | undefined,
+  selection: SeriesSelection = { candidates: [] },
+): SerialVerification {
+  const { normalizedSerial, series, seriesMatch, rules } = resolveSeries(denomination, serialNumber, selection);
+
+  const spec: SerialSpec = series ?? denomination;
+  const today = new Date().toISOString().slice(0, 10);
+  const rulesPassed = rules.every(result => result.passed);
+  const passed = (name: SerialRuleName) => rules.some(result => result.rule === name && result.passed);
+  const knownCounterfeit = counterfeitEntry !== undefined;
+
+  // A well-formed serial is still suspicious if it has been reported as counterfeit
+  const isAuthentic = rulesPassed && !knownCounterfeit;
+
+  return {
+    normalizedSerial,
+    series,
+    seriesMatch,
+    legalTender: series ? isLegalTender(series, today) : true,
+    warnings: series ? seriesWarnings(series, today) : [],
+    formatValid: passed("pattern"),
+    lengthValid: passed("length"),
+    rules,
+    knownCounterfeit,
+    sightings: undefined,
+    repeatedSighting: false,
+    isAuthentic,
+    suggestions: rulesPassed ? [] : suggestSerials(spec, normalizedSerial),
+  };
+}
+
+// Folds the earlier verifications of a serial into a result. Genuine notes
+// never share a serial, so once the sightings reach the threshold the note is
+// reported as suspicious; without a threshold they are only reported.
+export function applySightings(
+  verification: SerialVerification,
+  sightings: SerialSightings,
+  threshold: number | null,
+): SerialVerification {
+  const repeatedSighting = threshold !== null && sightings.count >= threshold;
+  return {
+    ...verification,
+    sightings,
+    repeatedSighting,
+    isAuthentic: verification.isAuthentic && !repeatedSighting,
+    warnings: repeatedSighting
+      ? [...verification.warnings, {
+          message: "This serial number has already been verified {count} times",
+          params: { count: sightings.count },
+        }]
+      : verification.warnings,
+  };
+}
+
+export function toVerificationLog(
+  country: Country,
+  denomination: Denomination,
+  serialNumber: string,
+  verification: SerialVerification,
+): InsertVerificationLog {
+  return {
+    countryId: country.id,
+    denominationId: denomination.id,
+    seriesId: verification.series?.id ?? null,
+    serialNumber,
+    normalizedSerial: verification.normalizedSerial,
+    isAuthentic: verification.isAuthentic,
+    formatValid: verification.formatValid,
+    lengthValid: verification.lengthValid,
+    knownCounterfeit: verification.knownCounterfeit,
+    repeatedSighting: verification.repeatedSighting,
+    failedRules: verification.rules.filter(result => !result.passed).map(result => result.rule),
+  };
+}
+
+// Shape of the /api/verify response, also used for each item of a batch.
+// Names, descriptions and warnings are given in the caller's language.
+export function toVerificationResult(
+  country: Country,
+  denomination: Denomination,
+  serialNumber: string,
+  verification: SerialVerification,
+  counterfeitEntry: FlaggedSerial | undefined,
+  locale?: Locale,
+): VerificationResult {
+  const spec: SerialSpec = verification.series ?? denomination;
+  return {
+    country: localize(country.translations, locale, "name", country.name),
+    currency: country.currency,
+    denomination: localize(denomination.translations, locale, "displayName", denomination.displayName),
+    serialNumber,
+    normalizedSerial: verification.normalizedSerial,
+    series: verification.series && verification.seriesMatch
+      ? {
+          name: verification.series.name,
+          match: verification.seriesMatch,
+          issuedOn: verification.series.issuedOn,
+          withdrawnOn: verification.series.withdrawnOn,
+          legalTenderStatus: verification.series.legalTenderStatus,
+        }
+      : null,
+    legalTender: verification.legalTender,
+    warnings: verification.warnings.map(warning => translate(locale, warning.message, warning.params)),
+    formatValid: verification.formatValid,
+    lengthValid: verification.lengthValid,
+    rules: verification.rules.map(result => ({ ...result, description: describeSerialRule(spec, result.rule, locale) })),
+    knownCounterfeit: verification.knownCounterfeit,
+    counterfeitReport: counterfeitEntry
+      ? {
+          source: counterfeitEntry.source,
+          reason: counterfeitEntry.reason,
+          dateAdded: counterfeitEntry.dateAdded.toISOString(),
+        }
+      : null,
+    repeatedSighting: verification.repeatedSighting,
+    // Earlier verifications of the serial; null where they are not looked up, e.g. in batches
+    sightings: verification.sightings
+      ? {
+          count: verification.sightings.count,
+          tenants: verification.sightings.tenants,
+          firstSeenAt: verification.sightings.firstSeenAt?.toISOString() ?? null,
+          lastSeenAt: verification.sightings.lastSeenAt?.toISOString() ?? null,
+        }
+      : null,
+    isAuthentic: verification.isAuthentic,
+    suggestions: verification.suggestions,
+    patternDescription: describeSerialRule(spec, "pattern", locale),
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,62 @@
+import { createServer } from "http";
+import { verifyWebhookSignature } from "./webhooks";
+
+// Local endpoint for trying out webhooks end to end: prints every delivery
+// and checks its signature when given the webhook's secret.
+//
+//   npm run webhook:receive -- [--port 4000] [--secret whsec_...] [--fail 2]
+//
+// --fail N answers the first N deliveries with 500 to exercise the retries.
+
+// Deliveries older than this are rejected, as replays
+const TOLERANCE_SECONDS = 5 * 60;
+
+function option(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+const port = Number(option("port") ?? 4000);
+const secret = option("secret") ?? process.env.WEBHOOK_SECRET;
+let failuresLeft = Number(option("fail") ?? 0);
+
+const server = createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on("data", chunk => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const id = String(req.headers["webhook-id"] ?? "");
+    const timestamp = Number(req.headers["webhook-timestamp"]);
+    const signature = String(req.headers["webhook-signature"] ?? "");
+
+    let verdict = "signature not checked (no --secret)";
+    if (secret) {
+      if (Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) {
+        verdict = "timestamp outside tolerance";
+      } else {
+        verdict = verifyWebhookSignature(secret, id, timestamp, body, signature) ? "signature ok" : "BAD SIGNATURE";
+      }
+    }
+
+    console.log(`${new Date().toISOString()} ${req.method} ${req.url} ${id} (${verdict})`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    if (secret && verdict !== "signature ok") {
+      res.writeHead(401).end(verdict);
+    } else if (failuresLeft > 0) {
+      failuresLeft--;
+      res.writeHead(500).end("Failing on purpose (--fail)");
+    } else {
+      res.writeHead(204).end();
+    }
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}`);
+});
@@ -0,0 +1,84 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { checkWebhookTarget, isPublicAddress, postWebhook, publicAddressLookup } from "./webhooks";
+
+afterEach(() => {
+  delete process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS;
+});
+
+test("public addresses are allowed", () => {
+  for (const address of ["93.184.215.14", "8.8.8.8", "2606:4700:4700::1111"]) {
+    assert.equal(isPublicAddress(address), true, address);
+  }
+});
+
+test("loopback, private, link-local and reserved addresses are not", () => {
+  const addresses = [
+    "127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0",
+    "224.0.0.1", "255.255.255.255", "::1", "::", "fd00::1", "fe80::1", "::ffff:127.0.0.1", "::ffff:169.254.169.254",
+  ];
+  for (const address of addresses) {
+    assert.equal(isPublicAddress(address), false, address);
+  }
+});
+
+test("webhook URLs pointing at non-public hosts are refused", async () => {
+  assert.equal(await checkWebhookTarget("http://169.254.169.254/latest/meta-data/"), "Webhook URLs must point to a public address");
+  assert.equal(await checkWebhookTarget("http://[::1]:8080/hook"), "Webhook URLs must point to a public address");
+  assert.equal(await checkWebhookTarget("http://localhost:4000/"), "Webhook URLs must point to a public address");
+  assert.equal(await checkWebhookTarget("https://93.184.215.14/hook"), undefined);
+});
+
+test("WEBHOOK_ALLOW_PRIVATE_HOSTS allows local receivers", async () => {
+  process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS = "true";
+  assert.equal(await checkWebhookTarget("http://localhost:4000/"), undefined);
+});
+
+test("hosts that do not resolve are refused", async () => {
+  assert.equal(await checkWebhookTarget("https://webhooks.invalid/hook"), "Webhook URL host could not be resolved");
+});
+
+// A receiver on this host, counting the requests it gets
+async function receiver(): Promise<{ server: Server; port: number; requests: () => number }> {
+  let count = 0;
+  const server = createServer((req, res) => {
+    count++;
+    res.end();
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  return { server, port: (server.address() as AddressInfo).port, requests: () => count };
+}
+
+test("a host that resolves to a private address when the delivery connects is refused", async () => {
+  const { server, port, requests } = await receiver();
+  // However the host resolved when it was checked, at connect time it is this host
+  const rebound = publicAddressLookup(async () => [{ address: "127.0.0.1", family: 4 }]);
+  try {
+    await assert.rejects(
+      postWebhook(`http://hooks.example.com:${port}/`, { headers: {}, body: "{}", timeoutMs: 1000, lookup: rebound }),
+      /Webhook URLs must point to a public address/,
+    );
+    assert.equal(requests(), 0);
+  } finally {
+    server.close();
+  }
+});
+
+test("deliveries connect to the address the lookup checked", async () => {
+  process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS = "true";
+  const { server, port, requests } = await receiver();
+  try {
+    const status = await postWebhook(`http://hooks.example.com:${port}/`, {
+      headers: {},
+      body: "{}",
+      timeoutMs: 1000,
+      lookup: publicAddressLookup(async () => [{ address: "127.0.0.1", family: 4 }]),
+    });
+    assert.equal(status, 200);
+    assert.equal(requests(), 1);
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,416 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import type {
+  Country,
+  Denomination,
+  InsertWebhookDelivery,
+  VerificationLog,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { logger } from "./logger";
+import { toHistoryItem } from "./history";
+
+// Deliveries follow the Standard Webhooks conventions (standardwebhooks.com):
+// each request carries webhook-id, webhook-timestamp and webhook-signature
+// headers, the signature being "v1," followed by the base64 HMAC-SHA256 of
+// "<id>.<timestamp>.<body>" keyed with the base64 part of the secret.
+
+const SECRET_PREFIX = "whsec_";
+
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(24).toString("base64")}`;
+}
+
+export function signWebhookPayload(secret: string, id: string, timestamp: number, body: string): string {
+  const key = Buffer.from(secret.slice(SECRET_PREFIX.length), "base64");
+  return `v1,${createHmac("sha256", key).update(`${id}.${timestamp}.${body}`).digest("base64")}`;
+}
+
+// Checks a delivery's webhook-signature header, which may list several
+// space-separated signatures, e.g. while a secret is being rotated
+export function verifyWebhookSignature(
+  secret: string,
+  id: string,
+  timestamp: number,
+  body: string,
+  signatureHeader: string,
+): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, id, timestamp, body));
+  return signatureHeader.split(" ").some(signature => {
+    const provided = Buffer.from(signature);
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+  });
+}
+
+// Addresses a webhook may not be sent to: this host, private networks,
+// link-local ranges (cloud metadata services live at 169.254.169.254),
+// shared, reserved, documentation and multicast ranges
+const NON_PUBLIC_ADDRESSES = new BlockList();
+([
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.0.2.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15],
+  ["198.51.100.0", 24], ["203.0.113.0", 24], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const).forEach(([network, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4"));
+([
+  ["::", 127], ["64:ff9b::", 96], ["64:ff9b:1::", 48], ["100::", 64], ["2001:db8::", 32],
+  ["fc00::", 7], ["fe80::", 10], ["fec0::", 10], ["ff00::", 8],
+] as const).forEach(([network, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6"));
+
+export function isPublicAddress(address: string): boolean {
+  // An IPv4-mapped IPv6 address ("::ffff:10.0.0.1") is checked as IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return isPublicAddress(mapped[1]);
+  }
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Why a webhook URL must not be called, or undefined when it may be: its
+// host has to resolve, and only to public addresses, so webhooks cannot reach
+// the server's own network. WEBHOOK_ALLOW_PRIVATE_HOSTS=true lifts the
+// address check, for trying webhooks locally.
+export async function checkWebhookTarget(url: string): Promise<string | undefined> {
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: string[];
+  try {
+    addresses = (await lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+  } catch {
+    return "Webhook URL host could not be resolved";
+  }
+  if (!allowsPrivateHosts() && !addresses.every(isPublicAddress)) {
+    return "Webhook URLs must point to a public address";
+  }
+  return undefined;
+}
+
+function allowsPrivateHosts(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === "true";
+}
+
+export type ResolveHost = (hostname: string) => Promise<LookupAddress[]>;
+
+const resolveHost: ResolveHost = hostname => lookup(hostname, { all: true, verbatim: true });
+
+// The lookup a delivery's connection is made with. The host is resolved for
+// the connection itself and refused unless every address is public, so a host
+// that passed checkWebhookTarget cannot resolve to a private address when the
+// delivery connects (DNS rebinding). Address literals are not looked up;
+// checkWebhookTarget covers them.
+export function publicAddressLookup(resolve: ResolveHost = resolveHost): LookupFunction {
+  return (hostname, options, callback) => {
+    resolve(hostname).then(resolved => {
+      const addresses = resolved.filter(entry => !options.family || entry.family === options.family);
+      if (addresses.length === 0) {
+        callback(Object.assign(new Error("Webhook URL host could not be resolved"), { code: "ENOTFOUND" }), "", 0);
+      } else if (!allowsPrivateHosts() && !addresses.every(entry => isPublicAddress(entry.address))) {
+        callback(Object.assign(new Error("Webhook URLs must point to a public address"), { code: "ENOTPUBLIC" }), "", 0);
+      } else if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    }, error => callback(error, "", 0));
+  };
+}
+
+export interface WebhookRequest {
+  headers: Record<string, string>;
+  body: string;
+  timeoutMs: number;
+  lookup?: LookupFunction;
+}
+
+// POSTs a delivery and resolves with the response status, without reading the
+// response body or following redirects. Each delivery gets its own
+// connection, made with publicAddressLookup unless another lookup is given.
+export function postWebhook(url: string, request: WebhookRequest): Promise<number> {
+  const target = new URL(url);
+  const client = target.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const outgoing = client.request(target, {
+      method: "POST",
+      headers: { ...request.headers, "content-length": Buffer.byteLength(request.body) },
+      agent: false,
+      lookup: request.lookup ?? publicAddressLookup(),
+      signal: AbortSignal.timeout(request.timeoutMs),
+    }, response => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    outgoing.on("error", reject);
+    outgoing.end(request.body);
+  });
+}
+
+// A webhook as returned by the API, without its secret
+export function toWebhookResponse(webhook: Webhook) {
+  const { secret, ...rest } = webhook;
+  return rest;
+}
+
+// A verification that has been written to the log
+export interface VerificationEvent {
+  log: VerificationLog;
+  country: Country;
+  denomination: Denomination;
+}
+
+function matchesFilters(webhook: Webhook, { log }: VerificationEvent): boolean {
+  return (webhook.tenantId === null || webhook.tenantId === log.tenantId) &&
+    (webhook.countryId === null || webhook.countryId === log.countryId) &&
+    (webhook.denominationId === null || webhook.denominationId === log.denominationId) &&
+    (!webhook.suspiciousOnly || !log.isAuthentic);
+}
+
+function hasBurst(webhook: Webhook): webhook is Webhook & { burstThreshold: number; burstWindowSeconds: number } {
+  return webhook.burstThreshold !== null && webhook.burstWindowSeconds !== null;
+}
+
+interface BurstSighting {
+  at: number;
+  verificationId: number;
+}
+
+// Counts matching verifications per webhook in a sliding window. Once the
+// threshold is reached the burst is reported and counting starts over, so a
+// continuing burst is reported again for every further `threshold` matches.
+// Counts are kept per process, like the rate limits.
+class BurstTracker {
+  private sightings = new Map<number, BurstSighting[]>();
+
+  record(webhook: Webhook & { burstThreshold: number; burstWindowSeconds: number }, verificationId: number, now: number) {
+    const since = now - webhook.burstWindowSeconds * 1000;
+    const recent = (this.sightings.get(webhook.id) ?? []).filter(sighting => sighting.at > since);
+    recent.push({ at: now, verificationId });
+
+    if (recent.length < webhook.burstThreshold) {
+      this.sightings.set(webhook.id, recent);
+      return undefined;
+    }
+    this.sightings.delete(webhook.id);
+    return recent;
+  }
+}
+
+export interface WebhookDispatcherOptions {
+  // Attempts per delivery, including the first
+  maxAttempts: number;
+  // Wait before the first retry; each further retry waits four times as long
+  retryBaseMs: number;
+  // How long a receiver has to answer
+  timeoutMs: number;
+  // How often deliveries due for a retry are picked up
+  pollIntervalMs: number;
+}
+
+// Retries picked up per poll
+const RETRY_BATCH_SIZE = 50;
+
+// Turns verifications into webhook deliveries and sends them. Every delivery
+// is written to the delivery log before it is sent, so retries survive a
+// restart: they are picked up by the poll started with start().
+export class WebhookDispatcher {
+  private bursts = new BurstTracker();
+  private inFlight = new Set<number>();
+  // Notifications and attempts running in the background
+  private background = new Set<Promise<unknown>>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(private storage: IStorage, private options: WebhookDispatcherOptions) {}
+
+  start() {
+    this.timer ??= setInterval(() => {
+      this.track(this.retryDue()).catch(error => logger.error("Webhook retry failed", { error }));
+    }, this.options.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  // Stops the poll and waits for the work running in the background, so
+  // nothing is cut off halfway when the storage is closed on shutdown
+  async stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await Promise.allSettled(Array.from(this.background));
+  }
+
+  // Queues deliveries for every active webhook the verifications match and
+  // sends them in the background
+  notify(events: VerificationEvent[]): Promise<void> {
+    return this.track(this.queueDeliveries(events));
+  }
+
+  private async queueDeliveries(events: VerificationEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const webhooks = await this.storage.getWebhooks({ activeOnly: true });
+    const now = new Date();
+    const deliveries: InsertWebhookDelivery[] = [];
+    const queue = (webhook: Webhook, event: WebhookEvent, data: Record<string, unknown>) => {
+      deliveries.push(this.newDelivery(webhook, event, data, now));
+    };
+
+    for (const webhook of webhooks) {
+      for (const event of events.filter(event => matchesFilters(webhook, event))) {
+        if (!hasBurst(webhook)) {
+          queue(webhook, "verification", toEventData(event));
+          continue;
+        }
+
+        const burst = this.bursts.record(webhook, event.log.id, now.getTime());
+        if (burst) {
+          queue(webhook, "suspicious_burst", {
+            tenantId: webhook.tenantId,
+            threshold: webhook.burstThreshold,
+            windowSeconds: webhook.burstWindowSeconds,
+            count: burst.length,
+            firstAt: new Date(burst[0].at).toISOString(),
+            verificationIds: burst.map(sighting => sighting.verificationId),
+            latest: toEventData(event),
+          });
+        }
+      }
+    }
+
+    const created = await this.storage.createWebhookDeliveries(deliveries);
+    for (const delivery of created) {
+      const webhook = webhooks.find(webhook => webhook.id === delivery.webhookId)!;
+      this.track(this.attempt(delivery, webhook))
+        .catch(error => logger.error("Webhook delivery failed", { error, deliveryId: delivery.id }));
+    }
+  }
+
+  private track<T>(work: Promise<T>): Promise<T> {
+    this.background.add(work);
+    const settle = () => {
+      this.background.delete(work);
+    };
+    work.then(settle, settle);
+    return work;
+  }
+
+  // Sends a test event to a webhook and waits for the first attempt
+  async ping(webhook: Webhook): Promise<WebhookDelivery> {
+    const [delivery] = await this.storage.createWebhookDeliveries([
+      this.newDelivery(webhook, "ping", { webhookId: webhook.id }, new Date()),
+    ]);
+    return (await this.attempt(delivery, webhook)) ?? delivery;
+  }
+
+  private newDelivery(
+    webhook: Webhook,
+    event: WebhookEvent,
+    data: Record<string, unknown>,
+    now: Date,
+  ): InsertWebhookDelivery {
+    return {
+      webhookId: webhook.id,
+      event,
+      payload: { event, createdAt: now.toISOString(), data },
+      // The first attempt is made right away; the poll only picks the delivery
+      // up if that attempt never finished, e.g. because the process stopped
+      nextAttemptAt: new Date(now.getTime() + this.options.timeoutMs + this.options.pollIntervalMs),
+    };
+  }
+
+  private async retryDue(): Promise<void> {
+    const due = await this.storage.getDueWebhookDeliveries(new Date(), RETRY_BATCH_SIZE);
+    for (const delivery of due) {
+      const webhook = await this.storage.getWebhook(delivery.webhookId);
+      if (!webhook?.isActive) {
+        await this.storage.updateWebhookDelivery(delivery.id, {
+          status: "failed",
+          nextAttemptAt: null,
+          lastError: "Webhook was disabled",
+        });
+        continue;
+      }
+      await this.attempt(delivery, webhook);
+    }
+  }
+
+  // Makes one attempt and records its outcome; a failed attempt is scheduled
+  // for a retry with exponential backoff until maxAttempts is reached
+  private async attempt(delivery: WebhookDelivery, webhook: Webhook): Promise<WebhookDelivery | undefined> {
+    if (this.inFlight.has(delivery.id)) {
+      return undefined;
+    }
+    this.inFlight.add(delivery.id);
+
+    try {
+      const attempts = delivery.attempts + 1;
+      const { statusCode, error } = await this.send(delivery, webhook);
+
+      if (error === null) {
+        return await this.storage.updateWebhookDelivery(delivery.id, {
+          status: "delivered",
+          attempts,
+          nextAttemptAt: null,
+          lastStatusCode: statusCode,
+          lastError: null,
+          deliveredAt: new Date(),
+        });
+      }
+
+      const retry = attempts < this.options.maxAttempts;
+      return await this.storage.updateWebhookDelivery(delivery.id, {
+        status: retry ? "pending" : "failed",
+        attempts,
+        nextAttemptAt: retry ? new Date(Date.now() + this.options.retryBaseMs * 4 ** (attempts - 1)) : null,
+        lastStatusCode: statusCode,
+        lastError: error,
+      });
+    } finally {
+      this.inFlight.delete(delivery.id);
+    }
+  }
+
+  // Posts a delivery and returns the answer's status code, or why there is
+  // none. The answer's body is not kept: the delivery log is readable by the
+  // webhook's owner, and the body is whatever the target chose to send back.
+  private async send(delivery: WebhookDelivery, webhook: Webhook): Promise<{ statusCode: number | null; error: string | null }> {
+    // Checked before every attempt, as the host may resolve elsewhere by now;
+    // the connection itself is then made to a checked address
+    const problem = await checkWebhookTarget(webhook.url);
+    if (problem) {
+      return { statusCode: null, error: problem };
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const id = `delivery_${delivery.id}`;
+    const timestamp = Math.floor(Date.now() / 1000);
+    try {
+      const statusCode = await postWebhook(webhook.url, {
+        headers: {
+          "content-type": "application/json",
+          "webhook-id": id,
+          "webhook-timestamp": String(timestamp),
+          "webhook-signature": signWebhookPayload(webhook.secret, id, timestamp, body),
+        },
+        body,
+        timeoutMs: this.options.timeoutMs,
+      });
+      const ok = statusCode >= 200 && statusCode < 300;
+      return { statusCode, error: ok ? null : `HTTP ${statusCode}` };
+    } catch (caught) {
+      return { statusCode: null, error: caught instanceof Error ? caught.message : String(caught) };
+    }
+  }
+}
+
+function toEventData({ log, country, denomination }: VerificationEvent) {
+  return toHistoryItem({ ...log, countryCode: country.code, denomination: denomination.value });
+}
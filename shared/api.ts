@@ -0,0 +1,391 @@
+import { createSelectSchema } from "drizzle-zod";
+import { z } from "zod";
+import {
+  ABUSE_EVENT_KINDS,
+  ALERT_KINDS,
+  ALERT_SEVERITIES,
+  API_KEY_ROLES,
+  COUNTRY_KINDS,
+  LEGAL_TENDER_STATUSES,
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_EVENTS,
+  abuseEvents,
+  alerts,
+  apiKeys,
+  banknoteSeries,
+  countries,
+  denominations,
+  flaggedSerials,
+  serialNormalizationSchema,
+  serialRulesSchema,
+  tenants,
+  translationsSchema,
+  verificationLogs,
+  webhookDeliveries,
+  webhooks,
+} from "./schema";
+
+// Response bodies of the API as they go over the wire: stored rows with their
+// timestamps as ISO 8601 strings, and the shapes built in the route handlers.
+// server/openapi.ts describes every route with these, and the client in
+// packages/api-client is generated from that document.
+
+const isoTimestamp = z.string().datetime();
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+// A Zod issue; some codes add fields of their own, e.g. `expected` and `received`
+export const validationIssueSchema = z.object({
+  code: z.string(),
+  path: z.array(z.union([z.string(), z.number()])),
+  message: z.string(),
+}).passthrough();
+
+export const errorResponseSchema = z.object({
+  // Machine-readable, e.g. "invalid_request", "not_found" or "rate_limited"
+  code: z.string(),
+  // In the caller's language on the public routes
+  message: z.string(),
+  // Also sent in the X-Request-Id header; quote it when reporting a problem
+  requestId: z.string().optional(),
+  // Validation issues of a 400 response; problems with a serial format are plain strings
+  errors: z.array(z.union([validationIssueSchema, z.string()])).optional(),
+});
+
+// Catalog rows as the admin API returns them, translations included
+export const countrySchema = createSelectSchema(countries, {
+  kind: z.enum(COUNTRY_KINDS),
+  members: z.array(z.string()),
+  translations: translationsSchema(["name"]),
+});
+
+export const denominationSchema = createSelectSchema(denominations, {
+  serialRules: serialRulesSchema.nullable(),
+  normalization: serialNormalizationSchema.nullable(),
+  translations: translationsSchema(["displayName", "patternDescription"]),
+});
+
+export const seriesSchema = createSelectSchema(banknoteSeries, {
+  issuedOn: isoDate.nullable(),
+  withdrawnOn: isoDate.nullable(),
+  serialRules: serialRulesSchema.nullable(),
+  legalTenderStatus: z.enum(LEGAL_TENDER_STATUSES),
+  translations: translationsSchema(["patternDescription"]),
+});
+
+// Catalog entries on the public routes: translated into the caller's language
+export const countryResponseSchema = countrySchema.omit({ translations: true });
+export const denominationResponseSchema = denominationSchema.omit({ translations: true });
+export const seriesResponseSchema = seriesSchema.omit({ translations: true });
+
+export const serialRuleResultSchema = z.object({
+  rule: z.enum(["pattern", "length", "prefix", "checksum", "range"]),
+  passed: z.boolean(),
+  description: z.string(),
+});
+
+export const verificationResultSchema = z.object({
+  country: z.string(),
+  currency: z.string(),
+  denomination: z.string(),
+  serialNumber: z.string(),
+  normalizedSerial: z.string(),
+  series: z.object({
+    name: z.string(),
+    match: z.enum(["requested", "detected", "closest"]),
+    issuedOn: isoDate.nullable(),
+    withdrawnOn: isoDate.nullable(),
+    legalTenderStatus: z.enum(LEGAL_TENDER_STATUSES),
+  }).nullable(),
+  legalTender: z.boolean(),
+  warnings: z.array(z.string()),
+  formatValid: z.boolean(),
+  lengthValid: z.boolean(),
+  rules: z.array(serialRuleResultSchema),
+  knownCounterfeit: z.boolean(),
+  counterfeitReport: z.object({
+    source: z.string(),
+    reason: z.string(),
+    dateAdded: isoTimestamp,
+  }).nullable(),
+  repeatedSighting: z.boolean(),
+  sightings: z.object({
+    count: z.number().int(),
+    tenants: z.number().int(),
+    firstSeenAt: isoTimestamp.nullable(),
+    lastSeenAt: isoTimestamp.nullable(),
+  }).nullable(),
+  isAuthentic: z.boolean(),
+  suggestions: z.array(z.string()),
+  patternDescription: z.string(),
+  timestamp: isoTimestamp,
+});
+
+const serialCandidateSchema = z.object({
+  text: z.string(),
+  confidence: z.number(),
+});
+
+export const imageVerificationResultSchema = verificationResultSchema.extend({
+  extraction: z.object({
+    text: z.string(),
+    confidence: z.number(),
+    candidates: z.array(serialCandidateSchema),
+    readAs: z.string(),
+    corrected: z.boolean(),
+    serialConfidence: z.number(),
+    alternatives: z.array(z.object({
+      countryCode: z.string(),
+      denomination: z.string(),
+      serialNumber: z.string(),
+      score: z.number(),
+    })),
+  }),
+});
+
+// 422 from the image route when no serial could be matched
+export const imageExtractionErrorSchema = errorResponseSchema.extend({
+  extraction: z.object({
+    text: z.string(),
+    confidence: z.number(),
+    candidates: z.array(serialCandidateSchema),
+  }).optional(),
+});
+
+export const batchItemResultSchema = verificationResultSchema.extend({
+  index: z.number().int(),
+  duplicateInBatch: z.boolean(),
+  inSequentialRun: z.boolean(),
+});
+
+// A note whose country, denomination or series could not be found
+export const batchItemErrorSchema = z.object({
+  index: z.number().int(),
+  countryCode: z.string(),
+  denomination: z.string(),
+  serialNumber: z.string(),
+  series: z.string().optional(),
+  error: z.string(),
+});
+
+export const batchVerificationResponseSchema = z.object({
+  results: z.array(z.union([batchItemResultSchema, batchItemErrorSchema])),
+  summary: z.object({
+    total: z.number().int(),
+    verified: z.number().int(),
+    authentic: z.number().int(),
+    suspicious: z.number().int(),
+    knownCounterfeit: z.number().int(),
+    notLegalTender: z.number().int(),
+    unresolved: z.number().int(),
+    duplicateSerials: z.number().int(),
+    sequentialRuns: z.array(z.object({
+      countryCode: z.string(),
+      denomination: z.string(),
+      start: z.string(),
+      end: z.string(),
+      length: z.number().int(),
+    })),
+  }),
+});
+
+// Verifications uploaded by POST /api/verify/offline, in request order
+export const offlineItemResultSchema = verificationResultSchema.extend({
+  index: z.number().int(),
+  offlineId: z.string(),
+  status: z.literal("recorded"),
+  logId: z.number().int(),
+});
+
+// An item uploaded before ("duplicate") or one that could not be verified ("rejected")
+export const offlineItemSkippedSchema = z.object({
+  index: z.number().int(),
+  offlineId: z.string(),
+  status: z.enum(["duplicate", "rejected"]),
+  error: z.string().optional(),
+});
+
+export const offlineUploadResponseSchema = z.object({
+  results: z.array(z.union([offlineItemResultSchema, offlineItemSkippedSchema])),
+  summary: z.object({
+    total: z.number().int(),
+    recorded: z.number().int(),
+    duplicates: z.number().int(),
+    rejected: z.number().int(),
+  }),
+});
+
+// The catalog for offline use, with all translations
+export const catalogBundleSchema = z.object({
+  version: z.number().int(),
+  countries: z.array(countrySchema),
+  denominations: z.array(denominationSchema),
+  series: z.array(seriesSchema),
+});
+
+// Entries changed after `since`; those with isActive false were retired
+export const catalogChangesSchema = catalogBundleSchema.extend({
+  since: z.number().int(),
+});
+
+export const catalogSigningKeySchema = z.object({
+  keyId: z.string(),
+  algorithm: z.literal("Ed25519"),
+  publicKey: z.string(),
+});
+
+const verificationCountsSchema = z.object({
+  totalVerified: z.number().int(),
+  authentic: z.number().int(),
+  formatFailures: z.number().int(),
+  lengthFailures: z.number().int(),
+  knownCounterfeit: z.number().int(),
+  suspicious: z.number().int(),
+  // Percentage of authentic results, to one decimal place
+  successRate: z.number(),
+});
+
+export const verificationStatsSchema = verificationCountsSchema.extend({
+  interval: z.enum(["day", "week"]),
+  byCountry: z.array(verificationCountsSchema.extend({
+    countryCode: z.string(),
+    country: z.string(),
+  })),
+  byDenomination: z.array(verificationCountsSchema.extend({
+    countryCode: z.string(),
+    denomination: z.string(),
+    displayName: z.string(),
+  })),
+  byPeriod: z.array(verificationCountsSchema.extend({
+    period: isoDate,
+  })),
+});
+
+export const historyItemSchema = createSelectSchema(verificationLogs, {
+  failedRules: z.array(z.string()),
+  timestamp: isoTimestamp,
+  uploadedAt: isoTimestamp.nullable(),
+}).omit({
+  countryId: true,
+  denominationId: true,
+  seriesId: true,
+}).extend({
+  countryCode: z.string(),
+  denomination: z.string(),
+});
+
+export const verificationHistoryPageSchema = z.object({
+  items: z.array(historyItemSchema),
+  // Pass as ?cursor= for the next page; null on the last page
+  nextCursor: z.string().nullable(),
+});
+
+export const alertResponseSchema = createSelectSchema(alerts, {
+  kind: z.enum(ALERT_KINDS),
+  severity: z.enum(ALERT_SEVERITIES),
+  tenantIds: z.array(z.number().int()),
+  details: z.record(z.unknown()),
+  firstSeenAt: isoTimestamp,
+  lastSeenAt: isoTimestamp,
+  createdAt: isoTimestamp,
+}).omit({
+  logIds: true,
+}).extend({
+  logs: z.array(historyItemSchema),
+});
+
+export const webhookResponseSchema = createSelectSchema(webhooks, {
+  createdAt: isoTimestamp,
+}).omit({
+  secret: true,
+});
+
+// Only returned when the webhook is created
+export const createdWebhookSchema = webhookResponseSchema.extend({
+  secret: z.string(),
+});
+
+export const webhookDeliverySchema = createSelectSchema(webhookDeliveries, {
+  event: z.enum(WEBHOOK_EVENTS),
+  payload: z.record(z.unknown()),
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES),
+  nextAttemptAt: isoTimestamp.nullable(),
+  createdAt: isoTimestamp,
+  deliveredAt: isoTimestamp.nullable(),
+});
+
+export const flaggedSerialSchema = createSelectSchema(flaggedSerials, {
+  dateAdded: isoTimestamp,
+});
+
+export const importFlaggedSerialsResultSchema = z.object({
+  imported: z.number().int(),
+  // Entries that were already in the registry
+  skipped: z.number().int(),
+  rejected: z.array(z.object({ index: z.number().int(), message: z.string() })),
+});
+
+export const tenantSchema = createSelectSchema(tenants, {
+  createdAt: isoTimestamp,
+});
+
+export const apiKeyResponseSchema = createSelectSchema(apiKeys, {
+  role: z.enum(API_KEY_ROLES),
+  createdAt: isoTimestamp,
+  expiresAt: isoTimestamp.nullable(),
+  revokedAt: isoTimestamp.nullable(),
+}).omit({
+  keyHash: true,
+});
+
+// Only returned when the key is issued or rotated
+export const issuedApiKeySchema = apiKeyResponseSchema.extend({
+  key: z.string(),
+});
+
+export const abuseEventSchema = createSelectSchema(abuseEvents, {
+  kind: z.enum(ABUSE_EVENT_KINDS),
+  timestamp: isoTimestamp,
+});
+
+export const analyzeAlertsResultSchema = z.object({
+  // Alerts created or updated by the run
+  alerts: z.number().int(),
+});
+
+// /healthz: the process is up and answering requests
+export const healthSchema = z.object({
+  status: z.literal("ok"),
+  uptimeSeconds: z.number().int(),
+});
+
+// /readyz: whether this instance should receive traffic, and why not
+export const readinessSchema = z.object({
+  status: z.enum(["ready", "not_ready"]),
+  // The server received SIGTERM and is finishing its requests
+  draining: z.boolean(),
+  checks: z.object({
+    // "failed" when the storage backend did not answer in time
+    storage: z.enum(["ok", "failed"]),
+    // "empty" without active countries, e.g. before db:migrate seeded the
+    // catalog; "unknown" when the storage could not be asked
+    catalog: z.enum(["ok", "empty", "unknown"]),
+  }),
+});
+
+export type ErrorResponse = z.infer<typeof errorResponseSchema>;
+export type CountryResponse = z.infer<typeof countryResponseSchema>;
+export type DenominationResponse = z.infer<typeof denominationResponseSchema>;
+export type SeriesResponse = z.infer<typeof seriesResponseSchema>;
+export type VerificationResult = z.infer<typeof verificationResultSchema>;
+export type ImageVerificationResult = z.infer<typeof imageVerificationResultSchema>;
+export type BatchVerificationResponse = z.infer<typeof batchVerificationResponseSchema>;
+export type OfflineUploadResponse = z.infer<typeof offlineUploadResponseSchema>;
+export type CatalogBundle = z.infer<typeof catalogBundleSchema>;
+export type CatalogChanges = z.infer<typeof catalogChangesSchema>;
+export type VerificationStatsResponse = z.infer<typeof verificationStatsSchema>;
+export type HistoryItem = z.infer<typeof historyItemSchema>;
+export type VerificationHistoryPage = z.infer<typeof verificationHistoryPageSchema>;
+export type AlertResponse = z.infer<typeof alertResponseSchema>;
+export type WebhookResponse = z.infer<typeof webhookResponseSchema>;
+export type ApiKeyResponse = z.infer<typeof apiKeyResponseSchema>;
+export type Readiness = z.infer<typeof readinessSchema>;
@@ -1,14 +1,99 @@
-import { pgTable, text, serial, integer, boolean, varchar, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, varchar, timestamp, unique, index, jsonb, date } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const CHECKSUM_ALGORITHMS = ["euro"] as const;
+
+// Checks applied on top of serialFormat and serialLength. Every rule that is
+// present must pass for a note to be considered authentic.
+export const serialRulesSchema = z.object({
+  // Serial must start with one of these, e.g. the printing works letters of a series
+  prefixes: z.array(z.string().min(1).max(5)).min(1).optional(),
+  checksum: z.enum(CHECKSUM_ALGORITHMS).optional(),
+  // The last run of digits must fall within one of these ranges; a range with a
+  // prefix only applies to serials starting with it
+  ranges: z.array(z.object({
+    prefix: z.string().min(1).max(5).optional(),
+    min: z.number().int().nonnegative(),
+    max: z.number().int().nonnegative(),
+  }).refine(range => range.min <= range.max, { message: "min must not exceed max" })).min(1).optional(),
+});
+
+// How user input is canonicalised before the serial rules run
+export const serialNormalizationSchema = z.object({
+  caseFolding: z.enum(["upper", "lower", "none"]).default("upper"),
+  // "strip" removes all whitespace, "collapse" trims and turns each run into one space
+  whitespace: z.enum(["strip", "collapse", "none"]).default("strip"),
+  // After stripping, a space is inserted at each of these positions, e.g. [4] for "AB12 345678"
+  groups: z.array(z.number().int().positive()).optional(),
+  // Applied to every character after case folding, e.g. { "O": "0" } for all-digit serials
+  substitutions: z.record(z.string().length(1), z.string().length(1)).optional(),
+});
+
+// Languages API responses can be given in; catalog entries fall back to their
+// English text where a translation is missing
+export const SUPPORTED_LOCALES = ["en", "es", "fr", "ja", "pt", "si", "ta", "zh"] as const;
+
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+// Translated text of a catalog entry by locale, e.g. { ja: { name: "日本" } }
+export type Translations<Field extends string> = Partial<Record<Locale, Partial<Record<Field, string>>>>;
+
+export function translationsSchema<Field extends string>(fields: readonly [Field, ...Field[]]) {
+  const text = z.string().min(1).max(200);
+  return z.record(
+    z.enum(SUPPORTED_LOCALES),
+    z.object(Object.fromEntries(fields.map(field => [field, text.optional()])) as Record<Field, z.ZodOptional<z.ZodString>>).strict(),
+  ) as z.ZodType<Translations<Field>>;
+}
+
+// "withdrawn" notes are no longer legal tender but can still be exchanged at
+// the issuing bank; "demonetized" notes have no value at all
+export const LEGAL_TENDER_STATUSES = ["legal_tender", "withdrawn", "demonetized"] as const;
+
+// "rate_limited" is recorded once per window when a client exceeds its limit;
+// "enumeration" for each verification from a client walking through serials;
+// "invalid_api_key" once per window when a client sends too many unknown keys
+export const ABUSE_EVENT_KINDS = ["rate_limited", "enumeration", "invalid_api_key"] as const;
+
+// verifier: verify notes; auditor: read the tenant's stats and history;
+// admin: everything, across all tenants
+export const API_KEY_ROLES = ["verifier", "auditor", "admin"] as const;
+
+// "verification" for each verification matching a webhook's filters;
+// "suspicious_burst" once a webhook's burst threshold is reached; "ping" to
+// test an endpoint
+export const WEBHOOK_EVENTS = ["verification", "suspicious_burst", "ping"] as const;
+
+// Deliveries are "pending" until the receiver answers with a 2xx status, and
+// "failed" once every attempt has been used up
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "delivered", "failed"] as const;
+
+// Clusters in the verification logs found by the anomaly job: one serial
+// verified many times, many suspicious results for one denomination, or
+// serials close together in sequence
+export const ALERT_KINDS = ["repeated_serial", "suspicious_spike", "sequential_serials"] as const;
+
+export const ALERT_SEVERITIES = ["low", "medium", "high"] as const;
+
+// Catalog entries are countries, or currency unions such as the euro area
+// whose members are the ISO 3166-1 alpha-2 codes of the countries using
+// their currency
+export const COUNTRY_KINDS = ["country", "currency_union"] as const;
+
+export const CATALOG_ENTITIES = ["country", "denomination", "series"] as const;
+
 export const countries = pgTable("countries", {
   id: serial("id").primaryKey(),
   code: varchar("code", { length: 3 }).notNull().unique(),
   name: text("name").notNull(),
   currency: varchar("currency", { length: 3 }).notNull(),
   currencySymbol: varchar("currency_symbol", { length: 5 }).notNull(),
+  kind: text("kind").$type<CountryKind>().notNull().default("country"),
+  members: jsonb("members").$type<string[]>().notNull().default([]),
+  translations: jsonb("translations").$type<Translations<"name">>().notNull().default({}),
+  isActive: boolean("is_active").notNull().default(true),
 });
 
 export const denominations = pgTable("denominations", {
@@ -19,23 +104,192 @@ export const denominations = pgTable("denominations", {
   serialFormat: text("serial_format").notNull(),
   serialLength: integer("serial_length").notNull(),
   patternDescription: text("pattern_description").notNull(),
+  serialRules: jsonb("serial_rules").$type<SerialRules>(),
+  normalization: jsonb("normalization").$type<SerialNormalization>(),
+  translations: jsonb("translations").$type<Translations<"displayName" | "patternDescription">>().notNull().default({}),
+  isActive: boolean("is_active").notNull().default(true),
+});
+
+// One design of a denomination, e.g. the paper and the polymer £20. A series
+// has its own serial rules; denominations without series use their own.
+export const banknoteSeries = pgTable("banknote_series", {
+  id: serial("id").primaryKey(),
+  denominationId: integer("denomination_id").notNull(),
+  name: text("name").notNull(),
+  issuedOn: date("issued_on"),
+  withdrawnOn: date("withdrawn_on"),
+  serialFormat: text("serial_format").notNull(),
+  serialLength: integer("serial_length").notNull(),
+  patternDescription: text("pattern_description").notNull(),
+  serialRules: jsonb("serial_rules").$type<SerialRules>(),
+  legalTenderStatus: text("legal_tender_status").$type<LegalTenderStatus>().notNull().default("legal_tender"),
+  translations: jsonb("translations").$type<Translations<"patternDescription">>().notNull().default({}),
   isActive: boolean("is_active").notNull().default(true),
+}, (table) => ({
+  denominationName: unique("banknote_series_denomination_name_unique").on(table.denominationId, table.name),
+}));
+
+// One row per write to a country, denomination or series. The id of the
+// latest row is the catalog version offline clients sync from.
+export const catalogChanges = pgTable("catalog_changes", {
+  id: serial("id").primaryKey(),
+  entity: text("entity").$type<CatalogEntity>().notNull(),
+  entityId: integer("entity_id").notNull(),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+});
+
+// Each catalog.json version applied by the catalog sync, so an older file is
+// not applied over a newer one by mistake
+export const catalogSyncs = pgTable("catalog_syncs", {
+  id: serial("id").primaryKey(),
+  version: integer("version").notNull(),
+  syncedAt: timestamp("synced_at").notNull().defaultNow(),
 });
 
 export const verificationLogs = pgTable("verification_logs", {
   id: serial("id").primaryKey(),
   countryId: integer("country_id").notNull(),
   denominationId: integer("denomination_id").notNull(),
+  // The series the serial was checked against, when the denomination has any
+  seriesId: integer("series_id"),
+  // Tenant of the API key used, or null for anonymous verifications
+  tenantId: integer("tenant_id"),
+  // As typed by the user; the rules were checked against normalizedSerial
   serialNumber: text("serial_number").notNull(),
+  normalizedSerial: text("normalized_serial"),
   isAuthentic: boolean("is_authentic").notNull(),
   formatValid: boolean("format_valid").notNull(),
   lengthValid: boolean("length_valid").notNull(),
+  knownCounterfeit: boolean("known_counterfeit").notNull().default(false),
+  // Set when earlier verifications of the serial reached the tenant's repeat threshold
+  repeatedSighting: boolean("repeated_sighting").notNull().default(false),
+  // Names of the serial rules that did not pass, see evaluateSerialRules
+  failedRules: jsonb("failed_rules").$type<string[]>().notNull().default([]),
+  // When the note was verified; for offline verifications, the time on the device
   timestamp: timestamp("timestamp").notNull().defaultNow(),
+  // Set on verifications recorded offline: the id the device gave the
+  // verification, so uploading it again is a no-op, and when it arrived
+  offlineId: text("offline_id"),
+  uploadedAt: timestamp("uploaded_at"),
+}, (table) => ({
+  // Earlier sightings of a serial are looked up on every verification
+  denominationSerial: index("verification_logs_denomination_serial_idx").on(table.denominationId, table.normalizedSerial),
+  // Offline ids are unique per tenant, so one tenant's ids never clash with
+  // another's; anonymous uploads share the null tenant
+  tenantOfflineId: unique("verification_logs_tenant_offline_id_unique").on(table.tenantId, table.offlineId).nullsNotDistinct(),
+}));
+
+export const flaggedSerials = pgTable("flagged_serials", {
+  id: serial("id").primaryKey(),
+  countryId: integer("country_id").notNull(),
+  denominationId: integer("denomination_id").notNull(),
+  serialNumber: text("serial_number").notNull(),
+  source: text("source").notNull(),
+  reason: text("reason").notNull(),
+  dateAdded: timestamp("date_added").notNull().defaultNow(),
+}, (table) => ({
+  denominationSerial: unique("flagged_serials_denomination_serial_unique").on(table.denominationId, table.serialNumber),
+}));
+
+// A branch or partner shop; verifications made with its API keys are tagged with it
+export const tenants = pgTable("tenants", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  isActive: boolean("is_active").notNull().default(true),
+  // Verifications by this tenant are reported as suspicious once the serial has
+  // been verified this many times before; null only reports the earlier sightings
+  repeatSightingThreshold: integer("repeat_sighting_threshold"),
+  // Only sightings from the last this many days count; null counts all of them
+  repeatSightingWindowDays: integer("repeat_sighting_window_days"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Only a SHA-256 hash of each key is stored; the key itself is shown once when issued
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").notNull(),
+  name: text("name").notNull(),
+  role: text("role").$type<ApiKeyRole>().notNull(),
+  // First characters of the key, to tell keys apart in listings
+  keyPrefix: text("key_prefix").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  // Set when rotated with a grace period; the key stops working afterwards
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Throttled and suspicious requests, kept out of verificationLogs so they do not skew the stats
+export const abuseEvents = pgTable("abuse_events", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").$type<AbuseEventKind>().notNull(),
+  // Client address the request was counted against
+  clientKey: text("client_key").notNull(),
+  route: text("route").notNull(),
+  countryId: integer("country_id"),
+  denominationId: integer("denomination_id"),
+  serialNumber: text("serial_number"),
+  timestamp: timestamp("timestamp").notNull().defaultNow(),
+});
+
+// Endpoints notified about verifications. Webhooks without a tenant receive
+// the verifications of every tenant, including anonymous ones.
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id"),
+  url: text("url").notNull(),
+  // Key for the HMAC signature of each delivery; shown once when created
+  secret: text("secret").notNull(),
+  countryId: integer("country_id"),
+  denominationId: integer("denomination_id"),
+  suspiciousOnly: boolean("suspicious_only").notNull().default(true),
+  // With both set, only a "suspicious_burst" event is sent once burstThreshold
+  // matching verifications happen within burstWindowSeconds
+  burstThreshold: integer("burst_threshold"),
+  burstWindowSeconds: integer("burst_window_seconds"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull(),
+  event: text("event").$type<WebhookEvent>().notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  status: text("status").$type<WebhookDeliveryStatus>().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  // When the next attempt is due, while the delivery is pending
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastStatusCode: integer("last_status_code"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+});
+
+// Alerts cover one denomination on one UTC day. The fingerprint identifies the
+// cluster, so running the job again updates an alert instead of repeating it.
+export const alerts = pgTable("alerts", {
+  id: serial("id").primaryKey(),
+  fingerprint: text("fingerprint").notNull().unique(),
+  kind: text("kind").$type<AlertKind>().notNull(),
+  severity: text("severity").$type<AlertSeverity>().notNull(),
+  countryId: integer("country_id").notNull(),
+  denominationId: integer("denomination_id").notNull(),
+  // Tenants whose verifications are part of the cluster; anonymous ones are not listed
+  tenantIds: jsonb("tenant_ids").$type<number[]>().notNull().default([]),
+  summary: text("summary").notNull(),
+  details: jsonb("details").$type<Record<string, unknown>>().notNull().default({}),
+  // The verification logs that make up the cluster
+  logIds: jsonb("log_ids").$type<number[]>().notNull(),
+  firstSeenAt: timestamp("first_seen_at").notNull(),
+  lastSeenAt: timestamp("last_seen_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const countriesRelations = relations(countries, ({ many }) => ({
   denominations: many(denominations),
   verificationLogs: many(verificationLogs),
+  flaggedSerials: many(flaggedSerials),
 }));
 
 export const denominationsRelations = relations(denominations, ({ one, many }) => ({
@@ -43,7 +297,74 @@ export const denominationsRelations = relations(denominations, ({ one, many }) =
     fields: [denominations.countryId],
     references: [countries.id],
   }),
+  series: many(banknoteSeries),
   verificationLogs: many(verificationLogs),
+  flaggedSerials: many(flaggedSerials),
+}));
+
+export const banknoteSeriesRelations = relations(banknoteSeries, ({ one }) => ({
+  denomination: one(denominations, {
+    fields: [banknoteSeries.denominationId],
+    references: [denominations.id],
+  }),
+}));
+
+export const tenantsRelations = relations(tenants, ({ many }) => ({
+  apiKeys: many(apiKeys),
+  verificationLogs: many(verificationLogs),
+  webhooks: many(webhooks),
+}));
+
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [apiKeys.tenantId],
+    references: [tenants.id],
+  }),
+}));
+
+export const webhooksRelations = relations(webhooks, ({ one, many }) => ({
+  tenant: one(tenants, {
+    fields: [webhooks.tenantId],
+    references: [tenants.id],
+  }),
+  country: one(countries, {
+    fields: [webhooks.countryId],
+    references: [countries.id],
+  }),
+  denomination: one(denominations, {
+    fields: [webhooks.denominationId],
+    references: [denominations.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  webhook: one(webhooks, {
+    fields: [webhookDeliveries.webhookId],
+    references: [webhooks.id],
+  }),
+}));
+
+export const alertsRelations = relations(alerts, ({ one }) => ({
+  country: one(countries, {
+    fields: [alerts.countryId],
+    references: [countries.id],
+  }),
+  denomination: one(denominations, {
+    fields: [alerts.denominationId],
+    references: [denominations.id],
+  }),
+}));
+
+export const flaggedSerialsRelations = relations(flaggedSerials, ({ one }) => ({
+  country: one(countries, {
+    fields: [flaggedSerials.countryId],
+    references: [countries.id],
+  }),
+  denomination: one(denominations, {
+    fields: [flaggedSerials.denominationId],
+    references: [denominations.id],
+  }),
 }));
 
 export const verificationLogsRelations = relations(verificationLogs, ({ one }) => ({
@@ -55,31 +376,355 @@ export const verificationLogsRelations = relations(verificationLogs, ({ one }) =
     fields: [verificationLogs.denominationId],
     references: [denominations.id],
   }),
+  series: one(banknoteSeries, {
+    fields: [verificationLogs.seriesId],
+    references: [banknoteSeries.id],
+  }),
+  tenant: one(tenants, {
+    fields: [verificationLogs.tenantId],
+    references: [tenants.id],
+  }),
 }));
 
-export const insertCountrySchema = createInsertSchema(countries).omit({
+export const insertCountrySchema = createInsertSchema(countries, {
+  code: z.string().regex(/^[A-Za-z]{2,3}$/, "Expected a 2 or 3 letter code").toUpperCase(),
+  currency: z.string().regex(/^[A-Za-z]{3}$/, "Expected an ISO 4217 currency code").toUpperCase(),
+  kind: z.enum(COUNTRY_KINDS).optional(),
+  members: z.array(z.string().regex(/^[A-Za-z]{2}$/, "Expected an ISO 3166-1 alpha-2 code").toUpperCase()).optional(),
+  translations: translationsSchema(["name"]).optional(),
+}).omit({
   id: true,
 });
 
-export const insertDenominationSchema = createInsertSchema(denominations).omit({
+export const insertDenominationSchema = createInsertSchema(denominations, {
+  serialRules: serialRulesSchema.nullable().optional(),
+  normalization: serialNormalizationSchema.nullable().optional(),
+  translations: translationsSchema(["displayName", "patternDescription"]).optional(),
+}).omit({
   id: true,
 });
 
+export const updateCountrySchema = insertCountrySchema.partial();
+
+export const updateDenominationSchema = insertDenominationSchema.omit({
+  countryId: true,
+}).partial();
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD");
+
+export const insertBanknoteSeriesSchema = createInsertSchema(banknoteSeries, {
+  name: z.string().min(1).max(100),
+  issuedOn: isoDate.nullable().optional(),
+  withdrawnOn: isoDate.nullable().optional(),
+  serialRules: serialRulesSchema.nullable().optional(),
+  legalTenderStatus: z.enum(LEGAL_TENDER_STATUSES).optional(),
+  translations: translationsSchema(["patternDescription"]).optional(),
+}).omit({
+  id: true,
+});
+
+export const updateBanknoteSeriesSchema = insertBanknoteSeriesSchema.omit({
+  denominationId: true,
+}).partial();
+
 export const insertVerificationLogSchema = createInsertSchema(verificationLogs).omit({
   id: true,
   timestamp: true,
 });
 
+export const insertFlaggedSerialSchema = createInsertSchema(flaggedSerials).omit({
+  id: true,
+  dateAdded: true,
+});
+
+export const insertTenantSchema = createInsertSchema(tenants, {
+  name: z.string().min(1).max(100),
+  repeatSightingThreshold: z.number().int().min(1).max(10000).nullable().optional(),
+  repeatSightingWindowDays: z.number().int().min(1).max(3650).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const updateTenantSchema = insertTenantSchema.partial();
+
+export const insertApiKeySchema = createInsertSchema(apiKeys, {
+  role: z.enum(API_KEY_ROLES),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Body of the key issue endpoint; the key material is generated by the server
+export const issueApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  role: z.enum(API_KEY_ROLES),
+});
+
+export const rotateApiKeySchema = z.object({
+  // How long the old key keeps working, so clients can switch over
+  graceSeconds: z.number().int().min(0).max(7 * 24 * 60 * 60).default(0),
+});
+
+export const insertAbuseEventSchema = createInsertSchema(abuseEvents, {
+  kind: z.enum(ABUSE_EVENT_KINDS),
+}).omit({
+  id: true,
+  timestamp: true,
+});
+
+export const insertWebhookSchema = createInsertSchema(webhooks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries, {
+  event: z.enum(WEBHOOK_EVENTS),
+  payload: z.record(z.unknown()),
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAlertSchema = createInsertSchema(alerts, {
+  kind: z.enum(ALERT_KINDS),
+  severity: z.enum(ALERT_SEVERITIES),
+  tenantIds: z.array(z.number().int()).optional(),
+  details: z.record(z.unknown()).optional(),
+  logIds: z.array(z.number().int()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+const webhookUrlSchema = z.string().url().max(2000)
+  .refine(url => /^https?:\/\//i.test(url), "Webhook URLs must use http or https");
+
+// "5 suspicious in 10 minutes" is { threshold: 5, windowSeconds: 600 }
+const webhookBurstSchema = z.object({
+  threshold: z.number().int().min(2).max(10000),
+  windowSeconds: z.number().int().min(1).max(7 * 24 * 60 * 60),
+});
+
+// Body of the webhook registration endpoint; the secret is generated by the server
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  // Admins only; other callers always register for their own tenant
+  tenantId: z.number().int().positive().optional(),
+  countryCode: z.string().min(2).max(3).optional(),
+  denomination: z.string().min(1).optional(),
+  suspiciousOnly: z.boolean().default(true),
+  burst: webhookBurstSchema.optional(),
+}).refine(webhook => !webhook.denomination || webhook.countryCode, {
+  message: "denomination filter requires countryCode",
+  path: ["denomination"],
+});
+
+export const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  suspiciousOnly: z.boolean().optional(),
+  // null switches back to one event per verification
+  burst: webhookBurstSchema.nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const webhooksQuerySchema = z.object({
+  // Admins only; other callers always see their own tenant's webhooks
+  tenantId: z.coerce.number().int().positive().optional(),
+});
+
+export const webhookDeliveriesQuerySchema = z.object({
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
 export const verifyBanknoteSchema = z.object({
   countryCode: z.string().min(2).max(3),
   denomination: z.string().min(1),
   serialNumber: z.string().min(1).max(20),
+  // Name of the series to check against; detected from the serial when omitted
+  series: z.string().min(1).max(100).optional(),
+});
+
+// Optional form fields sent with the photo to POST /api/verify/image; each
+// one narrows down which denominations the serial is matched against
+export const verifyImageSchema = z.object({
+  countryCode: z.string().min(2).max(3).optional(),
+  denomination: z.string().min(1).optional(),
+  series: z.string().min(1).max(100).optional(),
+}).refine(fields => !fields.denomination || fields.countryCode, {
+  message: "denomination requires countryCode",
+  path: ["denomination"],
+});
+
+// Upper bound on notes per batch verification request
+export const MAX_BATCH_SIZE = 500;
+
+// Verifications a field device made without connectivity, uploaded once it is
+// back online. Devices retry uploads, so each one carries a UUID of its own.
+export const offlineUploadSchema = z.object({
+  items: z.array(verifyBanknoteSchema.extend({
+    offlineId: z.string().uuid(),
+    // ISO 8601 time on the device, e.g. "2026-03-01T09:30:00Z"
+    verifiedAt: z.string().datetime({ offset: true }).transform(value => new Date(value)),
+  })).min(1).max(MAX_BATCH_SIZE),
+});
+
+export const catalogChangesQuerySchema = z.object({
+  // Catalog version the client has, from its bundle or its last sync
+  since: z.coerce.number().int().nonnegative(),
+});
+
+// Either a list of independent notes, or one country and denomination with many serials
+export const verifyBatchSchema = z.union([
+  z.object({
+    items: z.array(verifyBanknoteSchema).min(1).max(MAX_BATCH_SIZE),
+  }),
+  z.object({
+    countryCode: z.string().min(2).max(3),
+    denomination: z.string().min(1),
+    series: z.string().min(1).max(100).optional(),
+    serialNumbers: z.array(z.string().min(1).max(20)).min(1).max(MAX_BATCH_SIZE),
+  }),
+]);
+
+export const statsQuerySchema = z.object({
+  // Admins only; other callers always see their own tenant
+  tenantId: z.coerce.number().int().positive().optional(),
+  countryCode: z.string().min(2).max(3).optional(),
+  denomination: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  interval: z.enum(["day", "week"]).default("day"),
+}).refine(query => !query.denomination || query.countryCode, {
+  message: "denomination filter requires countryCode",
+  path: ["denomination"],
+});
+
+const historyFilterSchema = z.object({
+  // Admins only; other callers always see their own tenant
+  tenantId: z.coerce.number().int().positive().optional(),
+  countryCode: z.string().min(2).max(3).optional(),
+  denomination: z.string().min(1).optional(),
+  result: z.enum(["authentic", "suspicious"]).optional(),
+  serialPrefix: z.string().min(1).max(20).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sort: z.enum(["newest", "oldest"]).default("newest"),
+  cursor: z.string().optional(),
+});
+
+export const verificationHistoryQuerySchema = historyFilterSchema.extend({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+}).refine(query => !query.denomination || query.countryCode, {
+  message: "denomination filter requires countryCode",
+  path: ["denomination"],
+});
+
+export const verificationExportQuerySchema = historyFilterSchema.extend({
+  format: z.enum(["csv", "ndjson"]).default("csv"),
+}).refine(query => !query.denomination || query.countryCode, {
+  message: "denomination filter requires countryCode",
+  path: ["denomination"],
+});
+
+export const abuseEventsQuerySchema = z.object({
+  kind: z.enum(ABUSE_EVENT_KINDS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export const alertsQuerySchema = z.object({
+  // Admins only; other callers always see alerts involving their own tenant
+  tenantId: z.coerce.number().int().positive().optional(),
+  kind: z.enum(ALERT_KINDS).optional(),
+  severity: z.enum(ALERT_SEVERITIES).optional(),
+  countryCode: z.string().min(2).max(3).optional(),
+  denomination: z.string().min(1).optional(),
+  // Bounds on when the cluster was last seen
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+}).refine(query => !query.denomination || query.countryCode, {
+  message: "denomination filter requires countryCode",
+  path: ["denomination"],
+});
+
+export const flagSerialSchema = z.object({
+  countryCode: z.string().min(2).max(3),
+  denomination: z.string().min(1),
+  serialNumber: z.string().min(1).max(20),
+  source: z.string().min(1).max(100),
+  reason: z.string().min(1).max(500),
+});
+
+export const importFlaggedSerialsSchema = z.object({
+  entries: z.array(flagSerialSchema).min(1).max(5000),
+});
+
+export const flaggedSerialsQuerySchema = z.object({
+  countryCode: z.string().min(2).max(3).optional(),
+  denomination: z.string().min(1).optional(),
 });
 
+export type SerialRules = z.infer<typeof serialRulesSchema>;
+export type SerialNormalization = z.infer<typeof serialNormalizationSchema>;
+export type ChecksumAlgorithm = typeof CHECKSUM_ALGORITHMS[number];
+export type LegalTenderStatus = typeof LEGAL_TENDER_STATUSES[number];
+export type CountryKind = typeof COUNTRY_KINDS[number];
+export type CatalogEntity = typeof CATALOG_ENTITIES[number];
+export type AbuseEventKind = typeof ABUSE_EVENT_KINDS[number];
+export type ApiKeyRole = typeof API_KEY_ROLES[number];
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+export type AlertKind = typeof ALERT_KINDS[number];
+export type AlertSeverity = typeof ALERT_SEVERITIES[number];
 export type Country = typeof countries.$inferSelect;
 export type Denomination = typeof denominations.$inferSelect;
+export type BanknoteSeries = typeof banknoteSeries.$inferSelect;
+export type CatalogSync = typeof catalogSyncs.$inferSelect;
 export type VerificationLog = typeof verificationLogs.$inferSelect;
+export type FlaggedSerial = typeof flaggedSerials.$inferSelect;
+export type AbuseEvent = typeof abuseEvents.$inferSelect;
+export type Tenant = typeof tenants.$inferSelect;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type Webhook = typeof webhooks.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type Alert = typeof alerts.$inferSelect;
 export type InsertCountry = z.infer<typeof insertCountrySchema>;
 export type InsertDenomination = z.infer<typeof insertDenominationSchema>;
+export type UpdateCountry = z.infer<typeof updateCountrySchema>;
+export type UpdateDenomination = z.infer<typeof updateDenominationSchema>;
+export type InsertBanknoteSeries = z.infer<typeof insertBanknoteSeriesSchema>;
+export type UpdateBanknoteSeries = z.infer<typeof updateBanknoteSeriesSchema>;
 export type InsertVerificationLog = z.infer<typeof insertVerificationLogSchema>;
+export type InsertOfflineVerificationLog = InsertVerificationLog & { offlineId: string; timestamp: Date; uploadedAt: Date };
+export type InsertFlaggedSerial = z.infer<typeof insertFlaggedSerialSchema>;
+export type InsertAbuseEvent = z.infer<typeof insertAbuseEventSchema>;
+export type InsertTenant = z.infer<typeof insertTenantSchema>;
+export type UpdateTenant = z.infer<typeof updateTenantSchema>;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type UpdateApiKey = Partial<Pick<ApiKey, "expiresAt" | "revokedAt">>;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type UpdateWebhook = Partial<Pick<Webhook, "url" | "suspiciousOnly" | "burstThreshold" | "burstWindowSeconds" | "isActive">>;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type UpdateWebhookDelivery = Partial<Pick<WebhookDelivery,
+  "status" | "attempts" | "nextAttemptAt" | "lastStatusCode" | "lastError" | "deliveredAt">>;
+export type InsertAlert = z.infer<typeof insertAlertSchema>;
+export type CreateWebhookRequest = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhookRequest = z.infer<typeof updateWebhookSchema>;
+export type WebhooksQuery = z.infer<typeof webhooksQuerySchema>;
+export type WebhookDeliveriesQuery = z.infer<typeof webhookDeliveriesQuerySchema>;
 export type VerifyBanknoteRequest = z.infer<typeof verifyBanknoteSchema>;
+export type VerifyBatchRequest = z.infer<typeof verifyBatchSchema>;
+export type OfflineUploadRequest = z.infer<typeof offlineUploadSchema>;
+export type CatalogChangesQuery = z.infer<typeof catalogChangesQuerySchema>;
+export type VerifyImageRequest = z.infer<typeof verifyImageSchema>;
+export type StatsQuery = z.infer<typeof statsQuerySchema>;
+export type VerificationHistoryQuery = z.infer<typeof verificationHistoryQuerySchema>;
+export type VerificationExportQuery = z.infer<typeof verificationExportQuerySchema>;
+export type FlagSerialRequest = z.infer<typeof flagSerialSchema>;
+export type AbuseEventsQuery = z.infer<typeof abuseEventsQuerySchema>;
+export type AlertsQuery = z.infer<typeof alertsQuerySchema>;